@@ -1,50 +1,252 @@
 
-import React, { useState, useCallback } from 'react';
-import type { FormState, Result, NaverBlogItem, ImageEditStatus } from './types';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import type { AppStep, BlogProject, FormState, ImageGenerationOptions, ImageProcessingOptions, OutlineSection, OutputLanguage, PublishingMetadata, PostGenerationOptions, PostOptionIssue, PostOptionsPreset, PostVersion, Result, VersionHistory, NaverBlogItem, KeywordAnalysis, KeywordSuggestion, TermCount, SearchTrendOptions, SearchTrendReport, ImageEditStatus, NaverProxyMode, AiProviderSettings as AiProviderSettingsState } from './types';
 import {
   splitTextIntoParagraphs,
   createImagePrompt,
+  createImagePromptVariation,
+  rewriteParagraph,
+  rewriteSentencesForOriginality,
   generateImage,
   generateSeoTopics,
+  suggestRelatedKeywords,
   generateBlogPost,
-  editImage,
-  translateToEnglish,
+  translate,
 } from './services/geminiService';
-import { searchNaverBlogs } from './services/naverService';
+import { fetchNaverBlogResults, fetchSearchTrend, NaverApiError } from './services/naverService';
+import { analyzeKeywordCompetition, findCoOccurringTerms } from './services/keywordAnalysis';
+import { attachCompetition, buildAiCandidates, buildNaverCandidates, mergeSuggestions } from './services/keywordResearch';
+import { buildTrendRequest, parseKeywordList, summarizeTrend } from './services/trendAnalysis';
+import { personalizePost } from './services/personalizationService';
+import { assembleOutline, generateOutline, splitPostByOutline, writeOutlineSection } from './services/outlineService';
+import { generatePublishingMetadata } from './services/publishingMetadata';
+import { generateImageDescription } from './services/altTextService';
+import { createTranslatedEdition } from './services/translationService';
+import { DEFAULT_OUTPUT_LANGUAGE, OUTPUT_LANGUAGE_LABELS } from './services/languages';
+import { loadImageOptions, resolveImageOptions, saveImageOptions } from './services/imageOptions';
+import { loadImageProcessingOptions, saveImageProcessingOptions } from './services/imageService';
+import {
+  checkPostAgainstOptions,
+  loadPostOptionPresets,
+  loadPostOptions,
+  savePostOptionPresets,
+  savePostOptions,
+} from './services/postOptions';
+import { isAbortError } from './services/abort';
+import { runJobs } from './services/jobRunner';
+import {
+  EMPTY_VERSION_HISTORY,
+  MANUAL_EDIT_LABEL,
+  MANUAL_EDIT_MERGE_MS,
+  getHistoryShortcut,
+  listVersions,
+  moveResultVersion,
+  moveVersion,
+  recordVersion,
+  reviseResultVersion,
+} from './services/versionHistory';
+import { finalizeResultImage, isResultReady } from './services/imagePipeline';
+import { loadAiSettings, saveAiSettings } from './services/providers';
+import {
+  createProject,
+  listProjects,
+  saveProject,
+  deleteProject,
+  exportProjectToBlob,
+  parseProjectFile,
+} from './services/projectService';
+import { downloadFile, toSafeFileName } from './services/exportService';
 import VisualizePostForm from './components/InputForm';
 import ResultsDisplay from './components/ResultsDisplay';
 import Loader from './components/Loader';
 import SeoTopicGenerator from './components/SeoTopicGenerator';
 import ImageCustomization from './components/ImageCustomization';
-import { MagicWandIcon } from './components/icons';
+import AiProviderSettings from './components/AiProviderSettings';
+import ProjectManager from './components/ProjectManager';
+import PersonalizationReview from './components/PersonalizationReview';
+import OutlineEditor from './components/OutlineEditor';
+import BatchRunner from './components/BatchRunner';
+import ContentCalendar from './components/ContentCalendar';
+import VersionHistoryPanel from './components/VersionHistoryPanel';
+import { MagicWandIcon, CogIcon } from './components/icons';
+
+// How many results of each sort order the keyword analysis samples, and how many top posts are shown.
+const KEYWORD_ANALYSIS_SAMPLE_SIZE = 100;
+const TOP_RESULTS_COUNT = 10;
+
+// Image pipeline tuning: parallel jobs, automatic retries per item, and the first backoff delay.
+const IMAGE_JOB_CONCURRENCY = 3;
+const IMAGE_JOB_RETRIES = 2;
+const IMAGE_JOB_RETRY_DELAY_MS = 2000;
 
-// Define the steps of the application flow
-type AppStep = 'GENERATE_TOPIC' | 'VISUALIZE_POST' | 'CUSTOMIZE_IMAGES' | 'VIEW_RESULTS';
+// Outline sections written in parallel, and automatic retries per section.
+const OUTLINE_SECTION_CONCURRENCY = 2;
+const OUTLINE_SECTION_RETRIES = 1;
+
+// Alt text and captions described in parallel, and automatic retries per image.
+const IMAGE_DESCRIPTION_CONCURRENCY = 2;
+const IMAGE_DESCRIPTION_RETRIES = 1;
 
 const App: React.FC = () => {
   const [step, setStep] = useState<AppStep>('GENERATE_TOPIC');
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [loadingMessage, setLoadingMessage] = useState<string>('');
   const [topicIdeas, setTopicIdeas] = useState<string[]>([]);
+  const [selectedTopic, setSelectedTopic] = useState<string>('');
   const [generatedPost, setGeneratedPost] = useState<string>('');
+  // Earlier and undone texts of the post; generatedPost is the current version.
+  const [postHistory, setPostHistory] = useState<VersionHistory<PostVersion>>(EMPTY_VERSION_HISTORY);
+  // Lets a generation that outlives its render see the text it is about to replace.
+  const generatedPostRef = useRef(generatedPost);
+  generatedPostRef.current = generatedPost;
+  // The outline the post is written from. Empty when the post was written in one go.
+  const [outline, setOutline] = useState<OutlineSection[]>([]);
+  // The language this post is written in. Set from the post options when the topics or the post are generated.
+  const [postLanguage, setPostLanguage] = useState<OutputLanguage>(DEFAULT_OUTPUT_LANGUAGE);
   const [blogName, setBlogName] = useState<string>('');
   const [results, setResults] = useState<Result[]>([]);
+  const [publishingMetadata, setPublishingMetadata] = useState<PublishingMetadata | null>(null);
+  // The AI's personalized version of the post, shown as a diff until the user accepts or rejects it.
+  const [personalizationReview, setPersonalizationReview] = useState<{ formState: FormState; personalized: string } | null>(null);
   const [naverSearchResults, setNaverSearchResults] = useState<NaverBlogItem[]>([]);
+  const [keywordAnalysis, setKeywordAnalysis] = useState<KeywordAnalysis | null>(null);
+  const [searchTrend, setSearchTrend] = useState<SearchTrendReport | null>(null);
+  const [keywordSuggestions, setKeywordSuggestions] = useState<KeywordSuggestion[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [naverWarning, setNaverWarning] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [mainKeyword, setMainKeyword] = useState<string>('');
+  const [additionalKeywords, setAdditionalKeywords] = useState<string>('');
+
+  // The project currently being edited. Created on the first autosave.
+  const [project, setProject] = useState<Pick<BlogProject, 'id' | 'name' | 'createdAt'> | null>(null);
+  const [projects, setProjects] = useState<BlogProject[]>([]);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [isProjectsOpen, setIsProjectsOpen] = useState<boolean>(false);
+  const [isBatchOpen, setIsBatchOpen] = useState<boolean>(false);
+  // Projects the batch runner is still writing to; opening or deleting them would race with it.
+  const [batchProjectIds, setBatchProjectIds] = useState<string[]>([]);
+  const [isCalendarOpen, setIsCalendarOpen] = useState<boolean>(false);
   
   // State for Naver API keys, initialized from localStorage
   const [naverClientId, setNaverClientId] = useState<string>(() => localStorage.getItem('naverClientId') || '');
   const [naverClientSecret, setNaverClientSecret] = useState<string>(() => localStorage.getItem('naverClientSecret') || '');
+  const [naverProxyMode, setNaverProxyMode] = useState<NaverProxyMode>(() => (localStorage.getItem('naverProxyMode') as NaverProxyMode) || 'server');
 
-  const handleSaveApiKeys = (clientId: string, clientSecret: string) => {
+  const handleSaveApiKeys = (clientId: string, clientSecret: string, proxyMode: NaverProxyMode) => {
     localStorage.setItem('naverClientId', clientId);
     localStorage.setItem('naverClientSecret', clientSecret);
+    localStorage.setItem('naverProxyMode', proxyMode);
     setNaverClientId(clientId);
     setNaverClientSecret(clientSecret);
+    setNaverProxyMode(proxyMode);
+  };
+
+  // AI provider/model settings are persisted by the provider module itself.
+  const [aiSettings, setAiSettings] = useState<AiProviderSettingsState>(() => loadAiSettings());
+  const [isAiSettingsOpen, setIsAiSettingsOpen] = useState<boolean>(false);
+
+  const handleSaveAiSettings = (settings: AiProviderSettingsState) => {
+    saveAiSettings(settings);
+    setAiSettings(settings);
+  };
+
+  // How posts are written; the last used options and the saved presets live in localStorage.
+  const [postOptions, setPostOptions] = useState<PostGenerationOptions>(() => loadPostOptions());
+  const [postOptionPresets, setPostOptionPresets] = useState<PostOptionsPreset[]>(() => loadPostOptionPresets());
+  // Where the generated post misses its options (length, sections, banned phrases).
+  const [postIssues, setPostIssues] = useState<PostOptionIssue[]>([]);
+
+  // How AI images are generated for this post; new posts start from the last used options.
+  const [imageOptions, setImageOptions] = useState<ImageGenerationOptions>(() => loadImageOptions());
+
+  const handleChangeImageOptions = (options: ImageGenerationOptions) => {
+    saveImageOptions(options);
+    setImageOptions(options);
+  };
+
+  // Resizing, re-encoding and watermarking applied on export; a preference kept across posts.
+  const [imageProcessing, setImageProcessing] = useState<ImageProcessingOptions>(() => loadImageProcessingOptions());
+
+  const handleChangeImageProcessing = (options: ImageProcessingOptions) => {
+    saveImageProcessingOptions(options);
+    setImageProcessing(options);
+  };
+
+  const handleChangePostOptions = (options: PostGenerationOptions) => {
+    savePostOptions(options);
+    setPostOptions(options);
+  };
+
+  const handleSavePostOptionPreset = (name: string) => {
+    const presets = [...postOptionPresets.filter(preset => preset.name !== name), { id: crypto.randomUUID(), name, options: postOptions }];
+    savePostOptionPresets(presets);
+    setPostOptionPresets(presets);
+  };
+
+  const handleDeletePostOptionPreset = (id: string) => {
+    const presets = postOptionPresets.filter(preset => preset.id !== id);
+    savePostOptionPresets(presets);
+    setPostOptionPresets(presets);
+  };
+
+  // Controller of the long-running operation in progress, so the Cancel button can abort it.
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const startOperation = (): AbortSignal => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setNotice(null);
+    return controller.signal;
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Controllers of the revisions running on the results, by result index. Revisions run alongside
+  // the results view rather than behind the loader, so each has its own.
+  const revisionControllersRef = useRef(new Map<number, AbortController>());
+
+  // Controllers of the other jobs that run alongside the results view, such as the publishing metadata.
+  const backgroundControllersRef = useRef(new Set<AbortController>());
+
+  const startBackgroundTask = (): AbortController => {
+    const controller = new AbortController();
+    backgroundControllersRef.current.add(controller);
+    return controller;
+  };
+
+  // Stops every revision and background job, before the results are replaced by another project's or cleared.
+  const abortRevisions = () => {
+    revisionControllersRef.current.forEach(controller => controller.abort());
+    revisionControllersRef.current.clear();
+    backgroundControllersRef.current.forEach(controller => controller.abort());
+    backgroundControllersRef.current.clear();
+  };
+
+  // Stops everything still running for the current project before its state is replaced.
+  // The operation is also forgotten, so its cleanup can tell it was replaced rather than cancelled.
+  const abortOperations = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    abortRevisions();
   };
 
+  // False once the operation was replaced by another project, a fresh start or a newer operation.
+  const isCurrentOperation = (signal: AbortSignal) => abortControllerRef.current?.signal === signal;
+
   const handleError = (err: unknown, messagePrefix: string) => {
+      if (isAbortError(err)) {
+        // Only a cancel leaves the aborted operation current; a replaced one has nothing to report.
+        if (abortControllerRef.current?.signal.aborted) {
+          setNotice('작업을 취소했습니다. 지금까지 생성된 내용은 그대로 유지됩니다.');
+        }
+        setIsLoading(false);
+        setLoadingMessage('');
+        return;
+      }
       console.error(err);
       const errorMessage = err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.';
       setError(`${messagePrefix}. 세부 정보: ${errorMessage}`);
@@ -53,39 +255,148 @@ const App: React.FC = () => {
   };
 
   const handleAnalyzeNaver = useCallback(async (mainKeyword: string) => {
+    const signal = startOperation();
+    setMainKeyword(mainKeyword);
     setIsLoading(true);
     setLoadingMessage('네이버에서 실시간 순위를 분석하는 중...');
     setError(null);
     setNaverWarning(null);
     setTopicIdeas([]);
     setNaverSearchResults([]);
+    setKeywordAnalysis(null);
+    setKeywordSuggestions([]);
+    // A trend fetched for this keyword before the analysis is still valid.
+    setSearchTrend(prev => prev?.request.keywordGroups[0]?.groupName === mainKeyword ? prev : null);
 
-    if (!naverClientId || !naverClientSecret) {
+    // With the bundled proxy the credentials live on the server, so only public mode needs local keys.
+    if (naverProxyMode === 'public' && (!naverClientId || !naverClientSecret)) {
       setNaverWarning('네이버 API 키가 없습니다. 실시간 데이터 없이 주제를 추천합니다.');
       setIsLoading(false);
       return;
     }
     
     try {
-      const naverBlogs = await searchNaverBlogs(mainKeyword, naverClientId, naverClientSecret);
-      setNaverSearchResults(naverBlogs);
+      const config = { proxyMode: naverProxyMode, clientId: naverClientId, clientSecret: naverClientSecret };
+      // Sequential on purpose: the Naver API rate-limits bursts of requests.
+      const relevant = await fetchNaverBlogResults(mainKeyword, config, { sort: 'sim', maxResults: KEYWORD_ANALYSIS_SAMPLE_SIZE, signal });
+      setLoadingMessage('최신 글을 수집해 키워드 경쟁도를 분석하는 중...');
+      const recent = await fetchNaverBlogResults(mainKeyword, config, { sort: 'date', maxResults: KEYWORD_ANALYSIS_SAMPLE_SIZE, signal });
+      setNaverSearchResults(relevant.items.slice(0, TOP_RESULTS_COUNT));
+      setKeywordAnalysis(analyzeKeywordCompetition(mainKeyword, relevant.items, recent.items, relevant.total));
     } catch (naverError) {
+      if (isAbortError(naverError)) {
+        handleError(naverError, '네이버 분석에 실패했습니다');
+        return;
+      }
       console.warn("Naver API call failed:", naverError);
-      setNaverWarning('네이버 API 연동에 실패했습니다. API 키 또는 프록시 설정을 확인하세요.');
+      const detail = naverError instanceof NaverApiError ? ` (${naverError.code}: ${naverError.message})` : '';
+      setNaverWarning(`네이버 API 연동에 실패했습니다. API 키 또는 프록시 설정을 확인하세요.${detail}`);
     } finally {
         setIsLoading(false);
         setLoadingMessage('');
     }
-  }, [naverClientId, naverClientSecret]);
+  }, [naverClientId, naverClientSecret, naverProxyMode]);
+
+  const handleFetchTrend = useCallback(async (mainKeyword: string, additionalKeywords: string, options: SearchTrendOptions) => {
+    const signal = startOperation();
+    setMainKeyword(mainKeyword);
+    setAdditionalKeywords(additionalKeywords);
+    setIsLoading(true);
+    setLoadingMessage('네이버 데이터랩에서 검색 트렌드를 불러오는 중...');
+    setError(null);
+    setNaverWarning(null);
+
+    if (naverProxyMode === 'public' && (!naverClientId || !naverClientSecret)) {
+      setNaverWarning('네이버 API 키가 없어 검색 트렌드를 조회할 수 없습니다.');
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const request = buildTrendRequest([mainKeyword, ...parseKeywordList(additionalKeywords)], options);
+      const series = await fetchSearchTrend(request, {
+        proxyMode: naverProxyMode,
+        clientId: naverClientId,
+        clientSecret: naverClientSecret,
+      }, signal);
+      setSearchTrend({ request, series, summaries: series.map(summarizeTrend), fetchedAt: Date.now() });
+    } catch (naverError) {
+      if (isAbortError(naverError)) {
+        handleError(naverError, '검색 트렌드 조회에 실패했습니다');
+        return;
+      }
+      console.warn("Naver DataLab call failed:", naverError);
+      const detail = naverError instanceof NaverApiError ? ` (${naverError.code}: ${naverError.message})` : '';
+      setNaverWarning(`네이버 데이터랩 연동에 실패했습니다. 애플리케이션에 데이터랩(검색어트렌드) API가 추가되어 있는지 확인하세요.${detail}`);
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  }, [naverClientId, naverClientSecret, naverProxyMode]);
+
+  const handleResearchKeywords = useCallback(async (mainKeyword: string) => {
+    const signal = startOperation();
+    setMainKeyword(mainKeyword);
+    setIsLoading(true);
+    setLoadingMessage('연관 키워드와 롱테일 키워드를 찾는 중...');
+    setError(null);
+    setNaverWarning(null);
+
+    const config = { proxyMode: naverProxyMode, clientId: naverClientId, clientSecret: naverClientSecret };
+    const canUseNaver = naverProxyMode === 'server' || (!!naverClientId && !!naverClientSecret);
+
+    try {
+      // Naver candidates are optional: without them the AI suggestions are still useful.
+      let naverTerms: TermCount[] = [];
+      if (canUseNaver) {
+        try {
+          naverTerms = keywordAnalysis?.keyword === mainKeyword
+            ? keywordAnalysis.coOccurringTerms
+            : findCoOccurringTerms(mainKeyword, (await fetchNaverBlogResults(mainKeyword, config, { sort: 'sim', maxResults: KEYWORD_ANALYSIS_SAMPLE_SIZE, signal })).items);
+        } catch (naverError) {
+          if (isAbortError(naverError)) throw naverError;
+          console.warn("Naver API call failed:", naverError);
+          const detail = naverError instanceof NaverApiError ? ` (${naverError.code}: ${naverError.message})` : '';
+          setNaverWarning(`네이버 검색 결과를 가져오지 못해 AI 추천만 표시합니다.${detail}`);
+        }
+      }
+
+      const aiKeywords = await suggestRelatedKeywords(mainKeyword, naverTerms.slice(0, 10).map(t => t.term), signal);
+      let suggestions = mergeSuggestions(
+        mainKeyword,
+        buildNaverCandidates(mainKeyword, naverTerms),
+        buildAiCandidates(aiKeywords.longTail, 'long-tail'),
+        buildAiCandidates(aiKeywords.related, 'related'),
+      );
+      if (canUseNaver) {
+        setLoadingMessage('추천 키워드의 경쟁도를 확인하는 중...');
+        suggestions = await attachCompetition(suggestions, config, signal);
+      }
+      setKeywordSuggestions(suggestions);
+    } catch (err) {
+      handleError(err, '연관 키워드 추천에 실패했습니다');
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  }, [naverClientId, naverClientSecret, naverProxyMode, keywordAnalysis]);
 
   const handleGenerateTopics = useCallback(async (mainKeyword: string, additionalKeywords: string) => {
+    const signal = startOperation();
+    setMainKeyword(mainKeyword);
+    setAdditionalKeywords(additionalKeywords);
     setIsLoading(true);
     setLoadingMessage('AI가 분석 결과를 바탕으로 블로그 주제를 생성하는 중...');
     setError(null);
     setTopicIdeas([]);
+    setPostLanguage(postOptions.language);
 
     try {
-      const topics = await generateSeoTopics(mainKeyword, additionalKeywords, naverSearchResults);
+      const topics = await generateSeoTopics(mainKeyword, additionalKeywords, {
+        naverBlogs: naverSearchResults,
+        analysis: keywordAnalysis ?? undefined,
+        trend: searchTrend?.summaries,
+      }, postOptions.language, signal);
       if (!topics || topics.length === 0) {
         throw new Error("모델이 주제를 반환하지 않았습니다.");
       }
@@ -96,51 +407,177 @@ const App: React.FC = () => {
       setIsLoading(false);
       setLoadingMessage('');
     }
-  }, [naverSearchResults]);
+  }, [naverSearchResults, keywordAnalysis, searchTrend, postOptions]);
 
   const handleTopicSelected = useCallback(async (topic: string) => {
+    const signal = startOperation();
+    setIsLoading(true);
+    setLoadingMessage(`"${topic}" 주제로 글 개요를 만드는 중...`);
+    setError(null);
+    setSelectedTopic(topic);
+    setPostLanguage(postOptions.language);
+    setPostIssues([]);
+    recordPostVersion(generatedPostRef.current, '새 개요로 다시 작성');
+    setGeneratedPost('');
+
+    try {
+      setOutline(await generateOutline(topic, postOptions, signal));
+      setTopicIdeas([]);
+      setStep('EDIT_OUTLINE');
+    } catch (err) {
+      handleError(err, '글 개요 생성에 실패했습니다');
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  }, [postOptions]);
+
+  // Writes the whole post in one go, without an outline.
+  const handleWriteFullPost = useCallback(async (topic: string) => {
+    const signal = startOperation();
     setIsLoading(true);
     setLoadingMessage(`"${topic}" 주제로 블로그 글을 작성하는 중...`);
     setError(null);
     setTopicIdeas([]);
+    setSelectedTopic(topic);
+    setPostLanguage(postOptions.language);
+    setPostIssues([]);
+    setOutline([]);
+    // Show the editor right away; the post streams into it as it is written.
+    const previousPost = generatedPostRef.current;
+    setGeneratedPost('');
+    setStep('VISUALIZE_POST');
 
     try {
-      // Note: We don't have blogName yet, it will be entered in the next step.
-      // We will pass it to the final content generation, but for now the post is generic.
-      const postContent = await generateBlogPost(topic, ''); // Generate post without blog name for now
+      // The blog name is entered in the next step and woven in by personalizePost, without rewriting the post.
+      const postContent = await generateBlogPost(topic, '', postOptions, signal, setGeneratedPost);
       setGeneratedPost(postContent);
-      setStep('VISUALIZE_POST');
+      setPostIssues(checkPostAgainstOptions(postContent, postOptions));
+      recordPostVersion(previousPost, 'AI 글 생성');
     } catch (err) {
       handleError(err, '블로그 글 생성에 실패했습니다');
-      setStep('GENERATE_TOPIC');
+      // A cancelled generation keeps its partial text in the editor, and the text it replaced can be restored.
+      // Once another project is open, neither belongs to it.
+      if (isCurrentOperation(signal)) {
+        if (isAbortError(err)) {
+          recordPostVersion(previousPost, 'AI 글 생성 (중단됨)');
+        } else {
+          setGeneratedPost(previousPost);
+          setStep('GENERATE_TOPIC');
+        }
+      }
     } finally {
       setIsLoading(false);
       setLoadingMessage('');
     }
-  }, []);
+  }, [postOptions]);
 
-  const handleVisualizationSetup = useCallback(async (formState: FormState) => {
+  /**
+   * Keeps a replaced text of the post in its history. An empty text is skipped, as there is nothing to go back to.
+   * @param previous The text being replaced.
+   * @param label Names the change that replaces it.
+   */
+  const recordPostVersion = (previous: string, label: string, mergeWithinMs = 0) => {
+    if (!previous) return;
+    setPostHistory(prev => recordVersion(prev, { text: previous, label, createdAt: Date.now() }, mergeWithinMs));
+  };
+
+  // Edits made in the editor. Typing is merged into one version per burst.
+  const handleEditPost = (text: string, label = MANUAL_EDIT_LABEL) => {
+    if (text === generatedPost) return;
+    recordPostVersion(generatedPost, label, label === MANUAL_EDIT_LABEL ? MANUAL_EDIT_MERGE_MS : 0);
+    setGeneratedPost(text);
+  };
+
+  const handleMovePostVersion = (offset: number) => {
+    const moved = moveVersion(postHistory, { text: generatedPost, label: '', createdAt: Date.now() }, offset);
+    if (!moved) return;
+    setPostHistory(moved.history);
+    setGeneratedPost(moved.value.text);
+  };
+
+  // Only the post text is versioned; other fields, like the blog name, keep the browser's own undo.
+  const handlePostHistoryKeyDown = (e: React.KeyboardEvent) => {
+    const shortcut = getHistoryShortcut(e);
+    if (!shortcut || isLoading || e.nativeEvent.isComposing || e.target instanceof HTMLInputElement) return;
+    e.preventDefault();
+    handleMovePostVersion(shortcut === 'undo' ? -1 : 1);
+  };
+
+  const handleUpdateOutlineSection = (id: string, patch: Partial<OutlineSection>) => {
+    setOutline(prev => prev.map(section => section.id === id ? { ...section, ...patch } : section));
+  };
+
+  /**
+   * Writes the given outline sections. Each section is its own job, so a failed section
+   * keeps its error and the others are still written.
+   */
+  const handleWriteSections = async (ids: string[]) => {
+    const targets = outline.filter(section => ids.includes(section.id));
+    if (targets.length === 0) return;
+
+    const signal = startOperation();
+    setIsLoading(true);
+    setError(null);
+    const progress = { done: 0, failed: 0 };
+    const showProgress = () => setLoadingMessage(`섹션을 작성하는 중... (완료 ${progress.done}/${targets.length}${progress.failed ? `, 실패 ${progress.failed}` : ''})`);
+    showProgress();
+
+    try {
+      await runJobs(targets.map((_, i) => i), async (i, jobSignal) => {
+        const content = await writeOutlineSection(selectedTopic, outline, targets[i], postOptions, jobSignal);
+        handleUpdateOutlineSection(targets[i].id, { content, jobError: undefined });
+        return content;
+      }, {
+        concurrency: OUTLINE_SECTION_CONCURRENCY,
+        retries: OUTLINE_SECTION_RETRIES,
+        baseDelayMs: IMAGE_JOB_RETRY_DELAY_MS,
+        signal,
+        onStatus: (i, jobStatus, { error }) => {
+          if (jobStatus === 'done') progress.done++;
+          if (jobStatus === 'failed') progress.failed++;
+          showProgress();
+          handleUpdateOutlineSection(targets[i].id, { jobStatus, ...(error !== undefined ? { jobError: error } : {}) });
+        },
+      });
+      if (progress.failed > 0) {
+        setError(`${progress.failed}개 섹션을 작성하지 못했습니다. 작성된 섹션은 유지되며, 실패한 섹션만 다시 쓸 수 있습니다.`);
+      }
+    } catch (err) {
+      setOutline(prev => prev.map(section => section.jobStatus === 'queued' || section.jobStatus === 'running' ? { ...section, jobStatus: undefined } : section));
+      handleError(err, '섹션 작성에 실패했습니다');
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  };
+
+  // Joins the written sections into the draft and moves on to the visualization step.
+  const handleFinishOutline = () => {
+    const text = assembleOutline(outline);
+    if (text !== generatedPost) recordPostVersion(generatedPost, '개요로 글 완성');
+    setGeneratedPost(text);
+    setPostIssues(checkPostAgainstOptions(text, postOptions));
+    setStep('VISUALIZE_POST');
+  };
+
+  // Splits the final post into paragraphs and moves on to the image step.
+  const preparePostParagraphs = useCallback(async (formState: FormState) => {
+    const signal = startOperation();
     setIsLoading(true);
     setError(null);
     setResults([]);
-    setBlogName(formState.blogName); // Save blog name from the form
+    setPersonalizationReview(null);
+    setBlogName(formState.blogName);
+    setGeneratedPost(formState.blogText);
 
     try {
-      let finalBlogText = formState.blogText;
-      // If a blog name is provided, regenerate the post with the name included.
-      if (formState.blogName) {
-         setLoadingMessage(`'${formState.blogName}'을(를) 포함하여 글을 다시 생성하는 중...`);
-         const selectedTopic = "Previously Selected Topic"; // This is a limitation, we don't have the topic here.
-                                                           // A better approach would be to regenerate based on the text body.
-                                                           // For now, we'll assume the text is what we want to personalize.
-         // A simple string replacement is brittle. Let's ask the AI to re-process it.
-         const updatedPostContent = await generateBlogPost(finalBlogText, formState.blogName); // Re-run with name
-         finalBlogText = updatedPostContent;
-         setGeneratedPost(finalBlogText); // Update state with the new post
+      // A post written from an outline is split at its section boundaries; otherwise the AI splits it.
+      let paragraphs = splitPostByOutline(formState.blogText, outline);
+      if (paragraphs.length === 0) {
+        setLoadingMessage(`블로그 포스트를 ${formState.numParagraphs}개의 단락으로 나누는 중...`);
+        paragraphs = await splitTextIntoParagraphs(formState.blogText, formState.numParagraphs, signal);
       }
-        
-      setLoadingMessage(`블로그 포스트를 ${formState.numParagraphs}개의 단락으로 나누는 중...`);
-      const paragraphs = await splitTextIntoParagraphs(finalBlogText, formState.numParagraphs);
       if (!paragraphs || paragraphs.length === 0) {
         throw new Error("텍스트를 단락으로 나누지 못했습니다.");
       }
@@ -149,26 +586,75 @@ const App: React.FC = () => {
         paragraph: p,
         prompt: '',
         imageUrl: '',
+        imageSource: formState.imageSource, // Each paragraph can change its source in the next step
         editStatus: 'pending'
       }));
       setResults(initialResults);
 
-      if (formState.imageSource === 'generate') {
-        setStep('CUSTOMIZE_IMAGES'); 
-        // We defer the actual generation to the finalize step
-        // to show the user the paragraphs first.
-      } else {
-        setStep('CUSTOMIZE_IMAGES'); // Go to customization for uploading
-      }
+      // We defer the actual generation to the finalize step
+      // to show the user the paragraphs and their image sources first.
+      setStep('CUSTOMIZE_IMAGES');
 
     } catch (err) {
       handleError(err, '시각화 준비에 실패했습니다');
-      setStep('VISUALIZE_POST');
+      if (isCurrentOperation(signal)) setStep('VISUALIZE_POST');
     } finally {
       setIsLoading(false);
       setLoadingMessage('');
     }
-  }, []);
+  }, [outline]);
+
+  const handleVisualizationSetup = useCallback(async (formState: FormState) => {
+    // Without a new blog name there is nothing to personalize.
+    if (!formState.blogName || formState.blogText.includes(formState.blogName)) {
+      await preparePostParagraphs(formState);
+      return;
+    }
+
+    const signal = startOperation();
+    setIsLoading(true);
+    setLoadingMessage(`'${formState.blogName}'을(를) 글에 자연스럽게 넣는 중...`);
+    setError(null);
+    setBlogName(formState.blogName);
+    setGeneratedPost(formState.blogText); // Keep the user's manual edits
+
+    try {
+      const personalized = await personalizePost(formState.blogText, formState.blogName, postLanguage, signal);
+      setPersonalizationReview({ formState, personalized });
+    } catch (err) {
+      handleError(err, '블로그명 반영에 실패했습니다');
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  }, [preparePostParagraphs, postLanguage]);
+
+  const handleAcceptPersonalization = () => {
+    if (!personalizationReview) return;
+    recordPostVersion(personalizationReview.formState.blogText, '블로그명 반영');
+    preparePostParagraphs({ ...personalizationReview.formState, blogText: personalizationReview.personalized });
+  };
+
+  const handleRejectPersonalization = () => {
+    if (!personalizationReview) return;
+    preparePostParagraphs(personalizationReview.formState);
+  };
+
+  const handleRewriteSentences = async (sentences: string[]): Promise<string[] | null> => {
+    const signal = startOperation();
+    setIsLoading(true);
+    setLoadingMessage(`경쟁 글과 겹치는 문장 ${sentences.length}개를 다시 쓰는 중...`);
+    setError(null);
+    try {
+      return await rewriteSentencesForOriginality(sentences, postLanguage, signal);
+    } catch (err) {
+      handleError(err, '문장 다시 쓰기에 실패했습니다');
+      return null;
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  };
 
   const handleUpdateResult = (index: number, newResult: Partial<Result>) => {
     setResults(prev => {
@@ -180,74 +666,411 @@ const App: React.FC = () => {
 
   const handleTranslate = async (index: number, textToTranslate: string) => {
     if (!textToTranslate) return;
+    const previousStatus = results[index].editStatus;
     handleUpdateResult(index, { editStatus: 'translating' });
     try {
-      const translated = await translateToEnglish(textToTranslate);
-      handleUpdateResult(index, { editPrompt: translated, editStatus: 'editing' });
+      // The edit prompt is typed in the Korean UI whatever the post's language, and image models read English.
+      const translated = await translate(textToTranslate, 'ko', 'en');
+      handleUpdateResult(index, { editPrompt: translated, editStatus: previousStatus });
     } catch (err) {
       console.error("Translation failed", err);
       handleError(err, `프롬프트 번역 실패`);
-      handleUpdateResult(index, { editStatus: 'editing' }); // revert status
+      handleUpdateResult(index, { editStatus: previousStatus }); // revert status
     }
   };
 
-  const handleFinalizeImages = async () => {
+  /**
+   * Generates the images concurrently. Each paragraph is its own job: a failure is retried
+   * automatically and, if it keeps failing, only that item is marked failed.
+   * Items already done are never regenerated.
+   * @param onlyFailed Re-run only the items whose previous run failed.
+   */
+  const handleFinalizeImages = async (onlyFailed = false) => {
+    const isDone = (r: Result) => r.editStatus === 'done' && !!r.imageUrl;
+    const indices = results
+      .map((_, i) => i)
+      .filter(i => !isDone(results[i]) && (!onlyFailed || results[i].jobStatus === 'failed'));
+
+    // Something is not ready (should be prevented by UI)
+    const notReady = indices.find(i => !isResultReady(results[i]));
+    if (notReady !== undefined) {
+      setError(`${notReady + 1}번째 항목의 이미지가 준비되지 않았습니다.`);
+      return;
+    }
+
+    const signal = startOperation();
     setIsLoading(true);
     setError(null);
-    
+
+    const total = indices.length;
+    const progress = { done: 0, failed: 0 };
+    const showProgress = () => setLoadingMessage(`이미지 생성 중... (완료 ${progress.done}/${total}${progress.failed ? `, 실패 ${progress.failed}` : ''})`);
+    showProgress();
+
     try {
-        const finalResults: Result[] = [];
-        for (let i = 0; i < results.length; i++) {
-            const current = results[i];
-            let finalResult = { ...current };
-
-            // Case 1: AI Generation
-            if (!current.originalImageUrl && !current.uploadedImageFile) {
-                setLoadingMessage(`[${i + 1}/${results.length}] 이미지 프롬프트 생성 중...`);
-                const prompt = await createImagePrompt(current.paragraph);
-                setLoadingMessage(`[${i + 1}/${results.length}] 이미지 생성 중...`);
-                const imageUrl = await generateImage(prompt);
-                finalResult = { ...finalResult, prompt, imageUrl, editStatus: 'done' };
-            } 
-            // Case 2: User uploaded image and wants to edit
-            else if (current.editStatus === 'editing' && current.originalImageUrl && current.editPrompt && current.uploadedImageFile) {
-                 setLoadingMessage(`[${i + 1}/${results.length}] AI로 이미지 수정 중...`);
-                 const base64Image = current.originalImageUrl.split(',')[1];
-                 const mimeType = current.uploadedImageFile.type;
-                 const editedImageUrl = await editImage(base64Image, mimeType, current.editPrompt);
-                 finalResult = { ...finalResult, imageUrl: editedImageUrl, prompt: `AI로 수정한 이미지: ${current.editPrompt}`, editStatus: 'done' };
-            }
-            // Case 3: User uploaded image and wants to use as is
-            else if (current.editStatus === 'asis' && current.originalImageUrl) {
-                finalResult = { ...finalResult, imageUrl: current.originalImageUrl, prompt: '업로드한 원본 이미지', editStatus: 'done' };
-            }
-            // Case 4: Something is not ready (should be prevented by UI)
-            else if (current.editStatus !== 'done') {
-                throw new Error(`${i+1}번째 항목의 이미지가 준비되지 않았습니다.`);
-            }
-
-            finalResults.push(finalResult);
-            setResults([...finalResults, ...results.slice(finalResults.length)]); // Show progress
-        }
+      // Each finished image is stored right away, so it survives a later cancel or sibling failure.
+      const outcomes = await runJobs(indices, async (i, jobSignal) => {
+        const patch = await finalizeResultImage(results[i], imageOptions, imageProcessing, jobSignal);
+        handleUpdateResult(i, { ...patch, jobError: undefined });
+        return patch;
+      }, {
+        concurrency: IMAGE_JOB_CONCURRENCY,
+        retries: IMAGE_JOB_RETRIES,
+        baseDelayMs: IMAGE_JOB_RETRY_DELAY_MS,
+        signal,
+        onStatus: (i, jobStatus, { attempt, error }) => {
+          if (jobStatus === 'done') progress.done++;
+          if (jobStatus === 'failed') progress.failed++;
+          showProgress();
+          handleUpdateResult(i, { jobStatus, jobAttempts: attempt, ...(error !== undefined ? { jobError: error } : {}) });
+        },
+      });
+
+      const hasNewCandidates = [...outcomes.values()].some(outcome => outcome.status === 'done' && (outcome.value.candidates?.length ?? 0) > 1);
+      if (progress.failed > 0) {
+        setError(`${progress.failed}개 항목의 이미지 생성에 실패했습니다. 성공한 이미지는 유지되며, 실패한 항목만 다시 시도할 수 있습니다.`);
+      } else if (hasNewCandidates) {
+        // Stay on this step so the user can pick among the candidates.
+        setNotice('후보 이미지 중 사용할 이미지를 고른 뒤 \'결과 보기\'를 누르세요.');
+      } else if (results.every((r, i) => isDone(r) || outcomes.get(i)?.status === 'done')) {
         setStep('VIEW_RESULTS');
+      }
     } catch (err) {
-        handleError(err, '최종 콘텐츠 생성에 실패했습니다');
-        setStep('CUSTOMIZE_IMAGES');
+      // Cancelled: items that had not finished go back to waiting.
+      setResults(prev => prev.map(r => r.jobStatus === 'queued' || r.jobStatus === 'running' ? { ...r, jobStatus: undefined } : r));
+      handleError(err, '최종 콘텐츠 생성에 실패했습니다');
     } finally {
-        setIsLoading(false);
-        setLoadingMessage('');
+      setIsLoading(false);
+      setLoadingMessage('');
     }
   };
   
+  /**
+   * Revises one result after the results are shown. The current paragraph and image are
+   * kept in the result's history; the other results are not touched.
+   * @param label Describes the revision, shown next to the saved version.
+   * @param revise Produces the fields that replace the current ones.
+   */
+  const reviseResult = async (index: number, label: string, revise: (current: Result, signal: AbortSignal) => Promise<Partial<Result>>) => {
+    const current = results[index];
+    const controller = new AbortController();
+    revisionControllersRef.current.get(index)?.abort();
+    revisionControllersRef.current.set(index, controller);
+    handleUpdateResult(index, { jobStatus: 'running', jobError: undefined });
+    try {
+      const patch = await revise(current, controller.signal);
+      // The index only identifies the result while these results are shown; once they are
+      // cleared or replaced the signal is aborted and the patch must not land on another project.
+      controller.signal.throwIfAborted();
+      setResults(prev => controller.signal.aborted ? prev : prev.map((r, i) => i === index ? { ...reviseResultVersion(r, patch, label), jobStatus: 'done' } : r));
+    } catch (err) {
+      // Aborted when the results were cleared or replaced, so there is nothing left to mark.
+      if (isAbortError(err) || controller.signal.aborted) return;
+      console.error(`Revision "${label}" failed:`, err);
+      const errorMessage = err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.';
+      handleUpdateResult(index, { jobStatus: 'failed', jobError: `${label}에 실패했습니다. ${errorMessage}` });
+    } finally {
+      if (revisionControllersRef.current.get(index) === controller) revisionControllersRef.current.delete(index);
+    }
+  };
+
+  // A regenerated image replaces any uploaded one, the earlier candidates and the description of the old image.
+  const generatedImageFields = async (prompt: string, current: Result, signal: AbortSignal): Promise<Partial<Result>> => ({
+    prompt,
+    imageUrl: await generateImage(prompt, resolveImageOptions(imageOptions, current.imageOptions), signal),
+    candidates: undefined,
+    altText: undefined,
+    caption: undefined,
+    imageSource: 'generate',
+    originalImageUrl: undefined,
+    uploadedImageFile: undefined,
+    editPrompt: undefined,
+  });
+
+  const handleRegenerateImage = (index: number, prompt: string) =>
+    reviseResult(index, '이미지 재생성', (current, signal) => generatedImageFields(prompt, current, signal));
+
+  const handleImageVariation = (index: number) =>
+    reviseResult(index, '다른 버전 생성', async (current, signal) => {
+      // Uploaded images have no English prompt to vary, so start from the paragraph.
+      const basePrompt = current.imageSource !== 'generate' ? await createImagePrompt(current.paragraph, signal) : current.prompt;
+      return generatedImageFields(await createImagePromptVariation(basePrompt, signal), current, signal);
+    });
+
+  const handleReplaceImage = (index: number, imageUrl: string) =>
+    reviseResult(index, '이미지 교체', async () => ({
+      imageUrl,
+      candidates: undefined,
+      altText: undefined,
+      caption: undefined,
+      imageSource: 'upload',
+      originalImageUrl: imageUrl,
+      uploadedImageFile: undefined,
+      editPrompt: undefined,
+      prompt: '업로드한 원본 이미지',
+    }));
+
+  const handleRewriteParagraph = (index: number, instruction: string) =>
+    reviseResult(index, '단락 다시 쓰기', async (current, signal) => ({ paragraph: await rewriteParagraph(current.paragraph, instruction, signal) }));
+
+  // Manual edits on the results are versioned like the AI revisions.
+  const handleEditResult = (index: number, patch: Partial<Result>, label = MANUAL_EDIT_LABEL) => {
+    const mergeWithinMs = label === MANUAL_EDIT_LABEL ? MANUAL_EDIT_MERGE_MS : 0;
+    setResults(prev => prev.map((r, i) => i === index ? reviseResultVersion(r, patch, label, mergeWithinMs) : r));
+  };
+
+  // Undo, redo and restore. A result being revised is left alone until the revision lands.
+  const handleMoveResultVersion = (index: number, offset: number) => {
+    setResults(prev => prev.map((r, i) => i === index && r.jobStatus !== 'running' ? moveResultVersion(r, offset) : r));
+  };
+
+  // Runs alongside the results view like the revisions, so it does not hide the results behind the loader.
+  const handleGeneratePublishingMetadata = async () => {
+    const controller = startBackgroundTask();
+    setError(null);
+    try {
+      const post = results.filter(r => r.editStatus === 'done' && r.imageUrl).map(r => r.paragraph).join('\n\n');
+      const metadata = await generatePublishingMetadata(selectedTopic, post, mainKeyword, keywordAnalysis, postLanguage, controller.signal);
+      // Aborted when another project was opened; the metadata describes this post only.
+      if (!controller.signal.aborted) setPublishingMetadata(metadata);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      handleError(err, '발행 정보 생성에 실패했습니다');
+    } finally {
+      backgroundControllersRef.current.delete(controller);
+    }
+  };
+
+  /**
+   * Writes the alt text and caption of the given results by looking at their images.
+   * Runs alongside the results view like the publishing metadata. Each description is stored
+   * as soon as it is ready, unless the image was replaced in the meantime.
+   */
+  const handleGenerateImageDescriptions = async (indices: number[]) => {
+    const controller = startBackgroundTask();
+    const { signal } = controller;
+    setError(null);
+    try {
+      const outcomes = await runJobs(indices, async (i, jobSignal) => {
+        const { imageUrl, paragraph } = results[i];
+        const description = await generateImageDescription(imageUrl, paragraph, mainKeyword, postLanguage, jobSignal);
+        // The image alone does not identify the result: a translated edition shares its images with the original.
+        setResults(prev => signal.aborted ? prev : prev.map((r, index) => index === i && r.imageUrl === imageUrl ? reviseResultVersion(r, description, '대체 텍스트·캡션 생성') : r));
+        return description;
+      }, {
+        concurrency: IMAGE_DESCRIPTION_CONCURRENCY,
+        retries: IMAGE_DESCRIPTION_RETRIES,
+        baseDelayMs: IMAGE_JOB_RETRY_DELAY_MS,
+        signal,
+      });
+
+      const errors = [...outcomes.values()].flatMap(outcome => outcome.status === 'failed' ? [outcome.error] : []);
+      if (errors.length > 0) {
+        setError(`${errors.length}개 이미지의 대체 텍스트·캡션 생성에 실패했습니다. ${errors[0]}`);
+      }
+    } catch (err) {
+      // Aborted when another project was opened or the pipeline started over.
+      if (!isAbortError(err)) throw err;
+    } finally {
+      backgroundControllersRef.current.delete(controller);
+    }
+  };
+
   const handleReset = () => {
+    abortOperations();
+    // The current project stays saved; the next autosave starts a new one.
+    setProject(null);
+    setLastSavedAt(null);
     setStep('GENERATE_TOPIC');
+    setMainKeyword('');
+    setAdditionalKeywords('');
     setTopicIdeas([]);
+    setSelectedTopic('');
     setGeneratedPost('');
+    setPostHistory(EMPTY_VERSION_HISTORY);
+    setOutline([]);
+    setPostLanguage(postOptions.language);
+    setPostIssues([]);
+    setPersonalizationReview(null);
     setBlogName('');
     setResults([]);
+    setPublishingMetadata(null);
     setError(null);
     setNaverWarning(null);
+    setNotice(null);
     setNaverSearchResults([]);
+    setKeywordAnalysis(null);
+    setSearchTrend(null);
+    setKeywordSuggestions([]);
+  };
+
+  const refreshProjects = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      handleError(err, '프로젝트 목록을 불러오지 못했습니다');
+    }
+  }, []);
+
+  // The current draft as it is saved, under the given project identity.
+  const buildProject = (meta: Pick<BlogProject, 'id' | 'name' | 'createdAt'>): BlogProject => ({
+    ...meta,
+    updatedAt: Date.now(),
+    step,
+    mainKeyword,
+    additionalKeywords,
+    topicIdeas,
+    naverSearchResults,
+    keywordAnalysis: keywordAnalysis ?? undefined,
+    searchTrend: searchTrend ?? undefined,
+    keywordSuggestions,
+    selectedTopic,
+    outline,
+    generatedPost,
+    postHistory,
+    language: postLanguage,
+    blogName,
+    results,
+    imageOptions,
+    publishingMetadata: publishingMetadata ?? undefined,
+  });
+
+  // Autosave the current draft whenever a step finishes or its content changes.
+  useEffect(() => {
+    // Nothing worth saving until a keyword has been analyzed.
+    if (isLoading || (step === 'GENERATE_TOPIC' && !mainKeyword)) return;
+
+    const timer = setTimeout(async () => {
+      const meta = project ?? (() => {
+        const { id, name, createdAt } = createProject(mainKeyword || '제목 없는 프로젝트');
+        return { id, name, createdAt };
+      })();
+      if (!project) setProject(meta);
+      try {
+        const saved = await saveProject(buildProject(meta));
+        setLastSavedAt(saved.updatedAt);
+      } catch (err) {
+        console.warn("Autosave failed:", err);
+      }
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [isLoading, step, project, mainKeyword, additionalKeywords, topicIdeas, naverSearchResults, keywordAnalysis, searchTrend, keywordSuggestions, selectedTopic, outline, generatedPost, postHistory, postLanguage, blogName, results, imageOptions, publishingMetadata]);
+
+  const handleOpenProject = (saved: BlogProject) => {
+    abortOperations();
+    setProject({ id: saved.id, name: saved.name, createdAt: saved.createdAt });
+    setLastSavedAt(saved.updatedAt);
+    setStep(saved.step);
+    setMainKeyword(saved.mainKeyword);
+    setAdditionalKeywords(saved.additionalKeywords);
+    setTopicIdeas(saved.topicIdeas);
+    setNaverSearchResults(saved.naverSearchResults);
+    setKeywordAnalysis(saved.keywordAnalysis ?? null);
+    setSearchTrend(saved.searchTrend ?? null);
+    setKeywordSuggestions(saved.keywordSuggestions ?? []);
+    setSelectedTopic(saved.selectedTopic ?? '');
+    setOutline(saved.outline ?? []);
+    setGeneratedPost(saved.generatedPost);
+    setPostHistory(saved.postHistory ?? EMPTY_VERSION_HISTORY);
+    setPostLanguage(saved.language ?? DEFAULT_OUTPUT_LANGUAGE);
+    setPostIssues([]);
+    setPersonalizationReview(null);
+    setBlogName(saved.blogName);
+    setResults(saved.results);
+    setImageOptions(saved.imageOptions ?? loadImageOptions());
+    setPublishingMetadata(saved.publishingMetadata ?? null);
+    setError(null);
+    setNaverWarning(null);
+    setIsProjectsOpen(false);
+  };
+
+  /**
+   * Translates the finished post into another language and opens the translation as a new project.
+   * The original is saved first, as the autosave does not run while the translation is loading.
+   */
+  const handleCreateTranslatedEdition = async (language: OutputLanguage) => {
+    const signal = startOperation();
+    const message = `${OUTPUT_LANGUAGE_LABELS[language]} 번역본을 만드는 중...`;
+    setIsLoading(true);
+    setLoadingMessage(message);
+    setError(null);
+
+    try {
+      const original = await saveProject(buildProject(project ?? createProject(mainKeyword || '제목 없는 프로젝트')));
+      const edition = await createTranslatedEdition(original, language, (done, total) => setLoadingMessage(`${message} (${done}/${total})`), signal);
+      handleOpenProject(await saveProject(edition));
+      await refreshProjects();
+      setNotice(`${OUTPUT_LANGUAGE_LABELS[language]} 번역본을 새 프로젝트로 열었습니다. 원본은 프로젝트 목록에서 다시 열 수 있습니다.`);
+    } catch (err) {
+      handleError(err, '번역본을 만들지 못했습니다');
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  };
+
+  // The batch saves over the project at every step, so a project it resumes cannot stay open here.
+  useEffect(() => {
+    if (project && batchProjectIds.includes(project.id)) {
+      handleReset();
+      setNotice('일괄 생성이 열려 있던 프로젝트를 이어서 작성하고 있어 닫았습니다. 완료된 뒤 다시 열 수 있습니다.');
+    }
+  }, [batchProjectIds]);
+
+  const handleRenameProject = (name: string) => {
+    setProject(prev => prev ? { ...prev, name } : prev);
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    try {
+      await deleteProject(id);
+      if (project?.id === id) {
+        setProject(null);
+        setLastSavedAt(null);
+      }
+      await refreshProjects();
+    } catch (err) {
+      handleError(err, '프로젝트 삭제에 실패했습니다');
+    }
+  };
+
+  const handleExportProject = (saved: BlogProject) => {
+    downloadFile(exportProjectToBlob(saved), `${toSafeFileName(saved.name, 'project')}.json`);
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const imported = await saveProject(parseProjectFile(await file.text()));
+      handleOpenProject(imported);
+      await refreshProjects();
+    } catch (err) {
+      handleError(err, '프로젝트 가져오기에 실패했습니다');
+    }
+  };
+
+  const handleToggleProjects = () => {
+    if (!isProjectsOpen) refreshProjects();
+    setIsProjectsOpen(!isProjectsOpen);
+  };
+
+  // The calendar shows each linked project's progress, so it needs the current list.
+  const handleToggleCalendar = () => {
+    if (!isCalendarOpen) refreshProjects();
+    setIsCalendarOpen(!isCalendarOpen);
+  };
+
+  /**
+   * Starts a planned post: a fresh pipeline at the first step with the keyword filled in.
+   * The project is created now, so the calendar can link to it before the first autosave.
+   * @returns The id of the new project.
+   */
+  const handleStartPlannedPost = (keyword: string): string => {
+    handleReset();
+    const { id, name, createdAt } = createProject(keyword);
+    setProject({ id, name, createdAt });
+    setMainKeyword(keyword);
+    setIsCalendarOpen(false);
+    return id;
   };
 
   const renderStepContent = () => {
@@ -256,43 +1079,154 @@ const App: React.FC = () => {
         return (
           <div className="bg-gray-800/50 rounded-xl shadow-2xl p-6 mb-12 backdrop-blur-sm border border-gray-700">
             <SeoTopicGenerator
+              key={project?.id ?? 'new'}
+              initialMainKeyword={mainKeyword}
+              initialAdditionalKeywords={additionalKeywords}
               onAnalyzeNaver={handleAnalyzeNaver}
               onGenerateTopics={handleGenerateTopics}
+              onFetchTrend={handleFetchTrend}
+              onResearchKeywords={handleResearchKeywords}
               onTopicSelected={handleTopicSelected}
               isLoading={isLoading}
               topicIdeas={topicIdeas}
               naverSearchResults={naverSearchResults}
+              keywordAnalysis={keywordAnalysis}
+              searchTrend={searchTrend}
+              keywordSuggestions={keywordSuggestions}
+              postOptions={postOptions}
+              postOptionPresets={postOptionPresets}
+              onChangePostOptions={handleChangePostOptions}
+              onSavePostOptionPreset={handleSavePostOptionPreset}
+              onDeletePostOptionPreset={handleDeletePostOptionPreset}
               onSaveApiKeys={handleSaveApiKeys}
               initialApiClientId={naverClientId}
               initialApiClientSecret={naverClientSecret}
+              initialProxyMode={naverProxyMode}
             />
           </div>
         );
-      case 'VISUALIZE_POST':
+      case 'EDIT_OUTLINE':
         return (
           <div className="bg-gray-800/50 rounded-xl shadow-2xl p-6 mb-12 backdrop-blur-sm border border-gray-700">
-            <h2 className="text-2xl font-bold text-center mb-2">2. 글 시각화 준비</h2>
-            <p className="text-center text-gray-400 mb-6">생성된 글을 확인하고, 개인화 옵션을 설정하세요.</p>
-            <VisualizePostForm
-              onSubmit={handleVisualizationSetup}
+            <h2 className="text-2xl font-bold text-center mb-2">2. 글 개요 편집</h2>
+            <p className="text-center text-gray-400 mb-6">섹션 순서와 내용을 다듬은 뒤, 섹션별로 글을 작성하세요.</p>
+            {selectedTopic && (
+              <p className="text-center text-xl font-semibold text-purple-300 mb-6">{selectedTopic}</p>
+            )}
+            <OutlineEditor
+              sections={outline}
               isLoading={isLoading}
-              initialText={generatedPost}
+              onChange={setOutline}
+              onWriteSections={handleWriteSections}
+              onFinish={handleFinishOutline}
+              onRegenerate={() => handleTopicSelected(selectedTopic)}
+              onSkipOutline={() => handleWriteFullPost(selectedTopic)}
             />
           </div>
         );
+      case 'VISUALIZE_POST':
+        return (
+          <div className="bg-gray-800/50 rounded-xl shadow-2xl p-6 mb-12 backdrop-blur-sm border border-gray-700">
+            <h2 className="text-2xl font-bold text-center mb-2">3. 글 시각화 준비</h2>
+            <p className="text-center text-gray-400 mb-6">생성된 글을 확인하고, 개인화 옵션을 설정하세요.</p>
+            {selectedTopic && (
+              <p className="text-center text-xl font-semibold text-purple-300 mb-6">{selectedTopic}</p>
+            )}
+            {postIssues.length > 0 && !isLoading && (
+              <div className="bg-yellow-900/40 border border-yellow-700 text-yellow-200 px-4 py-3 rounded-lg mb-6 text-sm">
+                <p className="font-semibold mb-1">생성된 글이 작성 옵션과 다릅니다.</p>
+                <ul className="list-disc list-inside space-y-0.5">
+                  {postIssues.map(issue => <li key={issue.message}>{issue.message}</li>)}
+                </ul>
+                <div className="flex gap-3 mt-3">
+                  {outline.length > 0 ? (
+                    <button onClick={() => setStep('EDIT_OUTLINE')} className="px-3 py-1.5 text-xs font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700">
+                      개요로 돌아가 수정
+                    </button>
+                  ) : selectedTopic && (
+                    <button onClick={() => handleWriteFullPost(selectedTopic)} className="px-3 py-1.5 text-xs font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700">
+                      옵션대로 다시 생성
+                    </button>
+                  )}
+                  <button onClick={() => setPostIssues([])} className="px-3 py-1.5 text-xs font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600">
+                    이대로 진행
+                  </button>
+                </div>
+              </div>
+            )}
+            {personalizationReview && (
+              <PersonalizationReview
+                blogName={personalizationReview.formState.blogName}
+                original={personalizationReview.formState.blogText}
+                personalized={personalizationReview.personalized}
+                onAccept={handleAcceptPersonalization}
+                onReject={handleRejectPersonalization}
+                onBack={() => setPersonalizationReview(null)}
+              />
+            )}
+            {/* Hidden rather than unmounted during review, so the form keeps its settings. */}
+            <div className={personalizationReview ? 'hidden' : ''} onKeyDown={handlePostHistoryKeyDown}>
+              <div className="mb-6">
+                <VersionHistoryPanel
+                  versions={listVersions(postHistory, { text: generatedPost, label: '', createdAt: Date.now() }).map(({ version, label, offset }) => ({ label, offset, createdAt: version.createdAt, text: version.text }))}
+                  onMove={handleMovePostVersion}
+                  disabled={isLoading}
+                />
+              </div>
+              <VisualizePostForm
+                onSubmit={handleVisualizationSetup}
+                onTextChange={handleEditPost}
+                isLoading={isLoading}
+                initialText={generatedPost}
+                initialBlogName={blogName}
+                title={selectedTopic}
+                mainKeyword={mainKeyword}
+                naverItems={naverSearchResults}
+                outline={outline}
+                onRewriteSentences={handleRewriteSentences}
+              />
+            </div>
+          </div>
+        );
       case 'CUSTOMIZE_IMAGES':
         return (
              <ImageCustomization
                 results={results}
+                imageOptions={imageOptions}
+                onChangeImageOptions={handleChangeImageOptions}
                 onUpdateResult={handleUpdateResult}
                 onTranslate={handleTranslate}
-                onFinalize={handleFinalizeImages}
+                onFinalize={() => handleFinalizeImages()}
+                onRetryFailed={() => handleFinalizeImages(true)}
+                onShowResults={() => setStep('VIEW_RESULTS')}
                 isLoading={isLoading}
              />
         );
       case 'VIEW_RESULTS':
-         if (isLoading) return <Loader message={loadingMessage} />;
-         return <ResultsDisplay results={results} />;
+         if (isLoading) return <Loader message={loadingMessage} onCancel={handleCancel} />;
+         return (
+           <ResultsDisplay
+             results={results}
+             title={selectedTopic || undefined}
+             mainKeyword={mainKeyword}
+             blogName={blogName}
+             language={postLanguage}
+             metadata={publishingMetadata}
+             imageProcessing={imageProcessing}
+             onChangeImageProcessing={handleChangeImageProcessing}
+             onGenerateMetadata={handleGeneratePublishingMetadata}
+             onChangeMetadata={setPublishingMetadata}
+             onChangeResult={handleEditResult}
+             onGenerateImageDescriptions={handleGenerateImageDescriptions}
+             onRegenerateImage={handleRegenerateImage}
+             onImageVariation={handleImageVariation}
+             onReplaceImage={handleReplaceImage}
+             onRewriteParagraph={handleRewriteParagraph}
+             onEditParagraph={(index, paragraph) => handleEditResult(index, { paragraph }, '단락 직접 수정')}
+             onMoveVersion={handleMoveResultVersion}
+             onCreateTranslatedEdition={handleCreateTranslatedEdition}
+           />
+         );
       default:
         return null;
     }
@@ -311,8 +1245,94 @@ const App: React.FC = () => {
           <p className="text-lg text-gray-400 max-w-3xl mx-auto">
             키워드 분석, SEO 최적화된 글 작성, 그리고 글에 맞는 이미지 생성까지 한번에 해결하세요.
           </p>
+          <button
+            onClick={() => setIsAiSettingsOpen(!isAiSettingsOpen)}
+            className="mt-3 inline-flex items-center gap-1.5 text-sm text-gray-400 hover:text-white transition-colors"
+            aria-label="AI 모델 설정 열기"
+          >
+            <CogIcon className="w-5 h-5" />
+            AI 모델 설정 ({aiSettings.provider === 'gemini' ? 'Gemini' : 'OpenAI 호환'})
+          </button>
+          <button
+            onClick={handleToggleProjects}
+            className="mt-3 ml-4 inline-flex items-center gap-1.5 text-sm text-gray-400 hover:text-white transition-colors"
+          >
+            프로젝트{project ? `: ${project.name}` : ''}
+          </button>
+          <button
+            onClick={() => setIsBatchOpen(!isBatchOpen)}
+            className="mt-3 ml-4 inline-flex items-center gap-1.5 text-sm text-gray-400 hover:text-white transition-colors"
+          >
+            일괄 생성
+          </button>
+          <button
+            onClick={handleToggleCalendar}
+            className="mt-3 ml-4 inline-flex items-center gap-1.5 text-sm text-gray-400 hover:text-white transition-colors"
+          >
+            콘텐츠 캘린더
+          </button>
         </header>
 
+        {isProjectsOpen && (
+          <div className="max-w-3xl mx-auto">
+            <ProjectManager
+              projects={projects}
+              currentProjectId={project?.id ?? null}
+              currentProjectName={project?.name ?? ''}
+              lastSavedAt={lastSavedAt}
+              onRename={handleRenameProject}
+              onOpen={handleOpenProject}
+              onDelete={handleDeleteProject}
+              onExport={handleExportProject}
+              onImport={handleImportProject}
+              onNew={() => { handleReset(); setIsProjectsOpen(false); }}
+              onClose={() => setIsProjectsOpen(false)}
+              isLoading={isLoading}
+              busyProjectIds={batchProjectIds}
+            />
+          </div>
+        )}
+
+        {isCalendarOpen && (
+          <div className="max-w-5xl mx-auto">
+            <ContentCalendar
+              projects={projects}
+              isLoading={isLoading}
+              busyProjectIds={batchProjectIds}
+              onOpenProject={(saved) => { handleOpenProject(saved); setIsCalendarOpen(false); }}
+              onStartPost={handleStartPlannedPost}
+              onClose={() => setIsCalendarOpen(false)}
+            />
+          </div>
+        )}
+
+        {/* Hidden rather than unmounted, so a running batch keeps going while it is closed. */}
+        <div className={isBatchOpen ? 'max-w-5xl mx-auto' : 'hidden'}>
+          <BatchRunner
+            naverConfig={naverProxyMode === 'server' || (naverClientId && naverClientSecret)
+              ? { proxyMode: naverProxyMode, clientId: naverClientId, clientSecret: naverClientSecret }
+              : null}
+            postOptions={postOptions}
+            imageOptions={imageOptions}
+            imageProcessing={imageProcessing}
+            isLoading={isLoading}
+            onOpenProject={(saved) => { handleOpenProject(saved); setIsBatchOpen(false); }}
+            onBusyProjectsChange={setBatchProjectIds}
+            onProjectsChanged={refreshProjects}
+            onClose={() => setIsBatchOpen(false)}
+          />
+        </div>
+
+        {isAiSettingsOpen && (
+          <div className="max-w-3xl mx-auto">
+            <AiProviderSettings
+              initialSettings={aiSettings}
+              onSave={handleSaveAiSettings}
+              onClose={() => setIsAiSettingsOpen(false)}
+            />
+          </div>
+        )}
+
         <main>
            {step !== 'GENERATE_TOPIC' && (
              <div className="flex justify-center mb-6">
@@ -336,8 +1356,14 @@ const App: React.FC = () => {
             </div>
           )}
 
+          {notice && (
+            <div className="bg-blue-900/50 border border-blue-700 text-blue-200 px-4 py-3 rounded-lg text-center my-4" role="status">
+              <span className="block sm:inline">{notice}</span>
+            </div>
+          )}
+
           <div className="relative">
-             {isLoading && (step !== 'CUSTOMIZE_IMAGES' && step !== 'VIEW_RESULTS') && <Loader message={loadingMessage} />}
+             {isLoading && step !== 'VIEW_RESULTS' && <Loader message={loadingMessage} onCancel={handleCancel} />}
              {renderStepContent()}
           </div>
         </main>
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import type { AiProviderId, AiProviderSettings as AiProviderSettingsState, AiTask } from '../types';
+import { DEFAULT_AI_SETTINGS } from '../services/providers';
+import { InfoCircleIcon } from './icons';
+
+interface AiProviderSettingsProps {
+    initialSettings: AiProviderSettingsState;
+    onSave: (settings: AiProviderSettingsState) => void;
+    onClose: () => void;
+}
+
+const TASK_LABELS: Record<AiTask, string> = {
+    topics: '주제 추천',
+    post: '블로그 글 작성',
+    split: '단락 나누기',
+    imagePrompt: '이미지 프롬프트 작성',
+    translate: '번역',
+    vision: '이미지 설명 (대체 텍스트·캡션)',
+    image: '이미지 생성',
+    imageEdit: '이미지 수정',
+};
+
+const inputClassName = "w-full bg-gray-800 border border-gray-600 rounded-md shadow-sm p-2 text-gray-200 focus:ring-purple-500 focus:border-purple-500";
+
+const AiProviderSettings: React.FC<AiProviderSettingsProps> = ({ initialSettings, onSave, onClose }) => {
+    const [settings, setSettings] = useState<AiProviderSettingsState>(initialSettings);
+    const [saved, setSaved] = useState(false);
+
+    const handleProviderChange = (provider: AiProviderId) => {
+        // Switching vendors resets the model names, since they are vendor-specific.
+        setSettings({ ...DEFAULT_AI_SETTINGS[provider], apiKey: settings.apiKey });
+    };
+
+    const handleModelChange = (task: AiTask, model: string) => {
+        setSettings(prev => ({ ...prev, models: { ...prev.models, [task]: model } }));
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave(settings);
+        setSaved(true);
+        setTimeout(() => {
+            setSaved(false);
+            onClose();
+        }, 2000);
+    };
+
+    return (
+        <div className="p-4 mb-6 bg-gray-900/70 border border-gray-700 rounded-lg text-left">
+            <h3 className="text-lg font-semibold text-gray-200 mb-3">AI 모델 설정</h3>
+            <form onSubmit={handleSave} className="space-y-4">
+                <div>
+                    <label htmlFor="ai-provider" className="block text-sm font-medium text-gray-300 mb-1">
+                        제공자
+                    </label>
+                    <select
+                        id="ai-provider"
+                        value={settings.provider}
+                        onChange={(e) => handleProviderChange(e.target.value as AiProviderId)}
+                        className={inputClassName}
+                    >
+                        <option value="gemini">Google Gemini / Imagen</option>
+                        <option value="openai-compatible">OpenAI 호환 엔드포인트 (로컬 모델 등)</option>
+                    </select>
+                </div>
+
+                {settings.provider === 'openai-compatible' && (
+                    <div>
+                        <label htmlFor="ai-base-url" className="block text-sm font-medium text-gray-300 mb-1">
+                            Base URL
+                        </label>
+                        <input
+                            type="text"
+                            id="ai-base-url"
+                            value={settings.baseUrl}
+                            onChange={(e) => setSettings({ ...settings, baseUrl: e.target.value })}
+                            className={inputClassName}
+                            placeholder="http://localhost:11434/v1"
+                        />
+                    </div>
+                )}
+
+                <div>
+                    <label htmlFor="ai-api-key" className="block text-sm font-medium text-gray-300 mb-1">
+                        API 키 {settings.provider === 'gemini' ? '(비워두면 GEMINI_API_KEY 사용)' : '(선택 사항)'}
+                    </label>
+                    <input
+                        type="password"
+                        id="ai-api-key"
+                        value={settings.apiKey}
+                        onChange={(e) => setSettings({ ...settings, apiKey: e.target.value })}
+                        className={inputClassName}
+                    />
+                </div>
+
+                <div>
+                    <p className="block text-sm font-medium text-gray-300 mb-2">작업별 모델</p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {(Object.keys(TASK_LABELS) as AiTask[]).map(task => (
+                            <div key={task}>
+                                <label htmlFor={`ai-model-${task}`} className="block text-xs text-gray-400 mb-1">
+                                    {TASK_LABELS[task]}
+                                </label>
+                                <input
+                                    type="text"
+                                    id={`ai-model-${task}`}
+                                    value={settings.models[task]}
+                                    onChange={(e) => handleModelChange(task, e.target.value)}
+                                    className={inputClassName}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="flex items-start p-3 bg-blue-900/50 border border-blue-700 text-blue-200 text-sm rounded-md">
+                    <InfoCircleIcon className="w-5 h-5 mr-2 mt-0.5 flex-shrink-0" />
+                    <p>
+                        설정은 브라우저의 로컬 스토리지에 저장됩니다. OpenAI 호환 엔드포인트는 /chat/completions, /images/generations, /images/edits를 지원해야 합니다.
+                    </p>
+                </div>
+
+                <div className="flex justify-end gap-3">
+                    <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium rounded-md text-gray-300 hover:bg-gray-700 transition-colors">
+                        취소
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={settings.provider === 'openai-compatible' && !settings.baseUrl}
+                        className="px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 disabled:cursor-not-allowed"
+                    >
+                        {saved ? '저장 완료!' : '설정 저장'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default AiProviderSettings;
@@ -0,0 +1,311 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { BatchQueue, BatchRow, BatchTopicPick, BlogProject, ImageGenerationOptions, ImageJobStatus, ImageProcessingOptions, NaverApiConfig, PostGenerationOptions } from '../types';
+import {
+  BATCH_CSV_TEMPLATE,
+  BATCH_STAGE_LABELS,
+  BATCH_TOPIC_PICK_LABELS,
+  buildBatchExportZip,
+  loadBatchQueue,
+  parseBatchCsv,
+  runBatchRow,
+  saveBatchQueue,
+} from '../services/batchService';
+import { getProject } from '../services/projectService';
+import { downloadFile } from '../services/exportService';
+import { runJobs } from '../services/jobRunner';
+import { isAbortError } from '../services/abort';
+import { DownloadIcon } from './icons';
+
+interface BatchRunnerProps {
+  naverConfig: NaverApiConfig | null;
+  postOptions: PostGenerationOptions;
+  imageOptions: ImageGenerationOptions;
+  imageProcessing: ImageProcessingOptions;
+  isLoading: boolean; // The main pipeline is busy, so no project may be opened
+  onOpenProject: (project: BlogProject) => void;
+  // Reports the projects the running batch still writes to, so they are not opened or deleted meanwhile.
+  onBusyProjectsChange: (ids: string[]) => void;
+  onProjectsChanged: () => void;
+  onClose: () => void;
+}
+
+// Rows run one at a time: the Naver API rate-limits bursts, and each row already makes several AI calls.
+const BATCH_CONCURRENCY = 1;
+// A retried row resumes from its last saved step, so retrying is cheap.
+const BATCH_ROW_RETRIES = 1;
+const BATCH_RETRY_DELAY_MS = 5000;
+
+const STATUS_STYLES: Record<ImageJobStatus, { label: string; className: string }> = {
+  queued: { label: '대기 중', className: 'bg-gray-700 text-gray-300' },
+  running: { label: '진행 중', className: 'bg-blue-900/70 text-blue-200 animate-pulse' },
+  failed: { label: '실패', className: 'bg-red-900/70 text-red-300' },
+  done: { label: '완료', className: 'bg-green-900/70 text-green-300' },
+};
+
+const buttonClassName = "px-3 py-1.5 border border-gray-600 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed";
+
+const BatchRunner: React.FC<BatchRunnerProps> = ({
+  naverConfig,
+  postOptions,
+  imageOptions,
+  imageProcessing,
+  isLoading,
+  onOpenProject,
+  onBusyProjectsChange,
+  onProjectsChanged,
+  onClose,
+}) => {
+  const [queue, setQueue] = useState<BatchQueue>(loadBatchQueue);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  // Retries read the row again, so they see the project id saved by the previous attempt.
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    saveBatchQueue(queue);
+  }, [queue]);
+
+  // Waiting rows that already have a project resume it later in the same run.
+  const busyProjectIds = isRunning
+    ? queue.rows.filter(row => row.projectId && (row.status === 'running' || row.status === 'queued')).map(row => row.projectId!)
+    : [];
+  const busyProjectKey = busyProjectIds.join(',');
+  useEffect(() => {
+    onBusyProjectsChange(busyProjectIds);
+  }, [busyProjectKey]);
+
+  const updateRow = (id: string, patch: Partial<BatchRow>) =>
+    setQueue(prev => ({ ...prev, rows: prev.rows.map(row => row.id === id ? { ...row, ...patch } : row) }));
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const rows = parseBatchCsv(await file.text());
+      setQueue(prev => ({ ...prev, rows: [...prev.rows, ...rows] }));
+      setError(null);
+    } catch (err) {
+      console.error('CSV 가져오기 실패:', err);
+      setError(err instanceof Error ? err.message : 'CSV 파일을 읽지 못했습니다.');
+    }
+  };
+
+  const handleStart = async () => {
+    const ids = queue.rows.filter(row => row.status === 'queued').map(row => row.id);
+    if (ids.length === 0) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+    setError(null);
+    const context = { naverConfig, postOptions, imageOptions, topicPick: queue.topicPick };
+
+    try {
+      await runJobs(ids.map((_, i) => i), async (i, signal) => {
+        const row = queueRef.current.rows.find(r => r.id === ids[i]);
+        if (!row) throw new Error('대기열에서 삭제된 행입니다.');
+        return runBatchRow(row, context, (patch) => updateRow(row.id, patch), signal);
+      }, {
+        concurrency: BATCH_CONCURRENCY,
+        retries: BATCH_ROW_RETRIES,
+        baseDelayMs: BATCH_RETRY_DELAY_MS,
+        signal: controller.signal,
+        onStatus: (i, status, { error: rowError }) => updateRow(ids[i], {
+          status,
+          ...(status === 'done' ? { error: undefined } : {}),
+          ...(rowError !== undefined ? { error: rowError } : {}),
+        }),
+      });
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error('일괄 생성 실패:', err);
+        setError(err instanceof Error ? err.message : '일괄 생성 중 오류가 발생했습니다.');
+      }
+      // Paused: the row that was running goes back to waiting and resumes from its saved step.
+      setQueue(prev => ({ ...prev, rows: prev.rows.map(row => row.status === 'running' ? { ...row, status: 'queued', progress: undefined } : row) }));
+    } finally {
+      controllerRef.current = null;
+      setIsRunning(false);
+      onProjectsChanged();
+    }
+  };
+
+  const handlePause = () => controllerRef.current?.abort();
+
+  const handleRetryFailed = () =>
+    setQueue(prev => ({ ...prev, rows: prev.rows.map(row => row.status === 'failed' ? { ...row, status: 'queued', error: undefined } : row) }));
+
+  const handleRemoveRow = (id: string) =>
+    setQueue(prev => ({ ...prev, rows: prev.rows.filter(row => row.id !== id) }));
+
+  const handleClear = () => {
+    if (confirm('대기열을 비울까요? 이미 만든 글은 프로젝트 목록에 남습니다.')) {
+      setQueue(prev => ({ ...prev, rows: [] }));
+    }
+  };
+
+  const handleOpen = async (row: BatchRow) => {
+    try {
+      const project = row.projectId ? await getProject(row.projectId) : null;
+      if (!project) throw new Error('프로젝트를 찾을 수 없습니다. 삭제되었을 수 있습니다.');
+      onOpenProject(project);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '프로젝트를 열지 못했습니다.');
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const projects: BlogProject[] = [];
+      for (const row of queue.rows.filter(r => r.status === 'done' && r.projectId)) {
+        const project = await getProject(row.projectId!);
+        if (project) projects.push(project);
+      }
+      if (projects.length === 0) throw new Error('내보낼 완료된 글이 없습니다.');
+      const date = new Date().toISOString().slice(0, 10);
+      downloadFile(await buildBatchExportZip(projects, imageProcessing), `batch_${date}.zip`);
+    } catch (err) {
+      console.error('일괄 내보내기 실패:', err);
+      setError(err instanceof Error ? err.message : 'ZIP 파일을 만들지 못했습니다.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const counts = queue.rows.reduce((acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }), { queued: 0, running: 0, failed: 0, done: 0 } as Record<ImageJobStatus, number>);
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl shadow-2xl p-6 mb-8 backdrop-blur-sm border border-gray-700">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-xl font-bold text-gray-100">일괄 생성</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-white text-sm">닫기</button>
+      </div>
+      <p className="text-sm text-gray-400 mb-4">
+        키워드 CSV를 가져오면 키워드 분석 → 주제 선택 → 글 작성 → 단락 나누기 → 이미지 생성을 자동으로 진행합니다.
+        지금의 글 작성 옵션과 AI 이미지 옵션이 모든 글에 적용되며, 완성된 글은 프로젝트 목록에 저장됩니다.
+        창을 닫아도 진행 중인 작업은 계속됩니다.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+        <button onClick={() => fileInputRef.current?.click()} disabled={isRunning} className={buttonClassName}>
+          CSV 가져오기
+        </button>
+        <button
+          onClick={() => downloadFile(new Blob(['\uFEFF' + BATCH_CSV_TEMPLATE], { type: 'text/csv' }), 'batch_template.csv')}
+          className="inline-flex items-center gap-1.5 text-sm text-gray-400 hover:text-white"
+        >
+          <DownloadIcon className="w-4 h-4" />
+          CSV 양식
+        </button>
+        <label className="text-sm text-gray-400 ml-auto">
+          주제 선택:{' '}
+          <select
+            value={queue.topicPick}
+            onChange={(e) => setQueue(prev => ({ ...prev, topicPick: e.target.value as BatchTopicPick }))}
+            disabled={isRunning}
+            className="bg-gray-900 border border-gray-600 rounded-md p-1.5 text-sm text-gray-200"
+          >
+            {(Object.keys(BATCH_TOPIC_PICK_LABELS) as BatchTopicPick[]).map(pick => (
+              <option key={pick} value={pick}>{BATCH_TOPIC_PICK_LABELS[pick]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {!naverConfig && (
+        <p className="text-xs text-yellow-300 mb-4">네이버 API 키가 없어 키워드 분석 없이 주제를 추천합니다.</p>
+      )}
+      {error && <p className="text-sm text-red-300 mb-4" role="alert">{error}</p>}
+
+      {queue.rows.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            {isRunning ? (
+              <button onClick={handlePause} className="px-4 py-2 text-sm font-medium rounded-md text-white bg-yellow-600 hover:bg-yellow-700">
+                일시정지
+              </button>
+            ) : (
+              <button
+                onClick={handleStart}
+                disabled={counts.queued === 0}
+                className="px-4 py-2 text-sm font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 disabled:cursor-not-allowed"
+              >
+                {counts.done > 0 || counts.failed > 0 ? '이어서 실행' : '실행'} ({counts.queued}개 대기)
+              </button>
+            )}
+            {counts.failed > 0 && (
+              <button onClick={handleRetryFailed} disabled={isRunning} className={buttonClassName}>
+                실패한 {counts.failed}개 다시 대기열에
+              </button>
+            )}
+            <button onClick={handleExport} disabled={counts.done === 0 || isExporting} className={buttonClassName}>
+              {isExporting ? 'ZIP 만드는 중...' : `완료된 ${counts.done}개 글 ZIP으로 내보내기`}
+            </button>
+            <button onClick={handleClear} disabled={isRunning} className="ml-auto text-sm text-gray-500 hover:text-red-300 disabled:opacity-50">
+              대기열 비우기
+            </button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-gray-300">
+              <thead>
+                <tr className="text-xs text-gray-500 text-left">
+                  <th className="font-medium py-2 pr-3">#</th>
+                  <th className="font-medium py-2 pr-3">키워드</th>
+                  <th className="font-medium py-2 pr-3">상태</th>
+                  <th className="font-medium py-2 pr-3">주제</th>
+                  <th className="font-medium py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {queue.rows.map((row, index) => (
+                  <tr key={row.id} className="border-t border-gray-700 align-top">
+                    <td className="py-2 pr-3 text-gray-500">{index + 1}</td>
+                    <td className="py-2 pr-3">
+                      <p className="font-medium text-gray-200">{row.mainKeyword}</p>
+                      <p className="text-xs text-gray-500">
+                        {[row.additionalKeywords, row.blogName && `블로그: ${row.blogName}`, `${row.numParagraphs}단락`].filter(Boolean).join(' · ')}
+                      </p>
+                    </td>
+                    <td className="py-2 pr-3">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${STATUS_STYLES[row.status].className}`}>
+                        {STATUS_STYLES[row.status].label}
+                      </span>
+                      {row.stage && row.status !== 'done' && (
+                        <p className="text-xs text-gray-400 mt-1">{BATCH_STAGE_LABELS[row.stage]}{row.progress ? ` · ${row.progress}` : ''}</p>
+                      )}
+                      {row.error && <p className="text-xs text-red-300 mt-1">{row.error}</p>}
+                      {row.warning && <p className="text-xs text-yellow-300 mt-1">{row.warning}</p>}
+                    </td>
+                    <td className="py-2 pr-3 text-gray-300">{row.topic ?? '-'}</td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      {row.status === 'done' && (
+                        <button onClick={() => handleOpen(row)} disabled={isLoading} className="text-purple-400 hover:text-purple-300 text-xs mr-3 disabled:opacity-50">열기</button>
+                      )}
+                      <button
+                        onClick={() => handleRemoveRow(row.id)}
+                        disabled={isRunning}
+                        className="text-gray-500 hover:text-red-300 text-xs disabled:opacity-50"
+                      >
+                        삭제
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchRunner;
@@ -0,0 +1,260 @@
+import React, { useEffect, useState } from 'react';
+import type { BlogProject, CalendarEntry, CalendarEntryStatus } from '../types';
+import {
+  CALENDAR_STATUS_LABELS,
+  WEEKDAY_LABELS,
+  addDays,
+  buildIcs,
+  createCalendarEntry,
+  getMonthWeeks,
+  getWeekDays,
+  loadCalendarEntries,
+  saveCalendarEntries,
+  syncEntryWithProject,
+  toDateKey,
+} from '../services/calendarService';
+import { downloadFile } from '../services/exportService';
+import { DownloadIcon } from './icons';
+
+interface ContentCalendarProps {
+  projects: BlogProject[];
+  isLoading: boolean;
+  busyProjectIds: string[]; // Projects a running batch is writing to
+  onOpenProject: (project: BlogProject) => void;
+  // Starts a new post for the keyword and returns the id of its project.
+  onStartPost: (keyword: string) => string;
+  onClose: () => void;
+}
+
+type CalendarView = 'month' | 'week';
+
+const STATUS_STYLES: Record<CalendarEntryStatus, string> = {
+  'idea': 'bg-gray-700 text-gray-200 border-gray-500',
+  'drafted': 'bg-blue-900/70 text-blue-200 border-blue-600',
+  'images-ready': 'bg-purple-900/70 text-purple-200 border-purple-500',
+  'published': 'bg-green-900/70 text-green-200 border-green-600',
+};
+
+const inputClassName = "w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200 focus:ring-purple-500 focus:border-purple-500";
+const labelClassName = "block text-xs font-medium text-gray-400 mb-1";
+const buttonClassName = "px-3 py-1.5 border border-gray-600 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 disabled:opacity-50";
+
+const ContentCalendar: React.FC<ContentCalendarProps> = ({ projects, isLoading, busyProjectIds, onOpenProject, onStartPost, onClose }) => {
+  const [entries, setEntries] = useState<CalendarEntry[]>(loadCalendarEntries);
+  const [view, setView] = useState<CalendarView>('month');
+  const [cursor, setCursor] = useState<Date>(() => new Date());
+  // The entry being edited; a draft until saved, so cancelling leaves the calendar untouched.
+  const [draft, setDraft] = useState<CalendarEntry | null>(null);
+
+  useEffect(() => {
+    saveCalendarEntries(entries);
+  }, [entries]);
+
+  // Linked projects move their entries forward as they are drafted and illustrated.
+  useEffect(() => {
+    setEntries(prev => prev.map(entry => {
+      const project = entry.projectId ? projects.find(p => p.id === entry.projectId) : undefined;
+      return project ? syncEntryWithProject(entry, project) : entry;
+    }));
+  }, [projects]);
+
+  const todayKey = toDateKey(new Date());
+  const days = view === 'month' ? getMonthWeeks(cursor).flat() : getWeekDays(cursor);
+  const entriesByDate = entries.reduce<Record<string, CalendarEntry[]>>((acc, entry) => {
+    (acc[entry.date] ??= []).push(entry);
+    return acc;
+  }, {});
+
+  const handleMove = (direction: -1 | 1) => setCursor(prev => view === 'month'
+    ? new Date(prev.getFullYear(), prev.getMonth() + direction, 1)
+    : addDays(prev, direction * 7));
+
+  const periodLabel = view === 'month'
+    ? `${cursor.getFullYear()}년 ${cursor.getMonth() + 1}월`
+    : `${toDateKey(days[0])} ~ ${toDateKey(days[6])}`;
+
+  const updateDraft = (patch: Partial<CalendarEntry>) => setDraft(prev => prev ? { ...prev, ...patch } : prev);
+
+  const commit = (entry: CalendarEntry) =>
+    setEntries(prev => prev.some(e => e.id === entry.id) ? prev.map(e => e.id === entry.id ? entry : e) : [...prev, entry]);
+
+  const handleSave = () => {
+    if (!draft || !draft.keyword.trim()) return;
+    commit({ ...draft, keyword: draft.keyword.trim(), publishedUrl: draft.publishedUrl?.trim() || undefined });
+    setDraft(null);
+  };
+
+  const handleDelete = () => {
+    if (!draft) return;
+    if (confirm('이 일정을 삭제할까요? 연결된 프로젝트는 삭제되지 않습니다.')) {
+      setEntries(prev => prev.filter(e => e.id !== draft.id));
+      setDraft(null);
+    }
+  };
+
+  const handleStart = () => {
+    if (!draft || !draft.keyword.trim()) return;
+    const keyword = draft.keyword.trim();
+    commit({ ...draft, keyword, projectId: onStartPost(keyword) });
+    setDraft(null);
+  };
+
+  const handleExportIcs = () => {
+    downloadFile(new Blob([buildIcs(entries)], { type: 'text/calendar' }), 'content_calendar.ics');
+  };
+
+  const linkedProject = draft?.projectId ? projects.find(p => p.id === draft.projectId) : undefined;
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl shadow-2xl p-6 mb-8 backdrop-blur-sm border border-gray-700">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-gray-100">콘텐츠 캘린더</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-white text-sm">닫기</button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <div className="flex rounded-md overflow-hidden border border-gray-600">
+          {(['month', 'week'] as CalendarView[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-3 py-1.5 text-sm ${view === option ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {option === 'month' ? '월' : '주'}
+            </button>
+          ))}
+        </div>
+        <button onClick={() => handleMove(-1)} className={buttonClassName} aria-label="이전">&larr;</button>
+        <button onClick={() => setCursor(new Date())} className={buttonClassName}>오늘</button>
+        <button onClick={() => handleMove(1)} className={buttonClassName} aria-label="다음">&rarr;</button>
+        <span className="font-semibold text-gray-200">{periodLabel}</span>
+        <button
+          onClick={handleExportIcs}
+          disabled={entries.length === 0}
+          className="ml-auto inline-flex items-center gap-1.5 text-sm text-gray-400 hover:text-white disabled:opacity-50"
+        >
+          <DownloadIcon className="w-4 h-4" />
+          ICS 내보내기
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-px bg-gray-700 border border-gray-700 rounded-lg overflow-hidden text-sm">
+        {WEEKDAY_LABELS.map((label, i) => (
+          <div key={label} className={`bg-gray-900 py-1 text-center text-xs font-medium ${i === 0 ? 'text-red-300' : i === 6 ? 'text-blue-300' : 'text-gray-400'}`}>
+            {label}
+          </div>
+        ))}
+        {days.map(day => {
+          const key = toDateKey(day);
+          const isOtherMonth = view === 'month' && day.getMonth() !== cursor.getMonth();
+          return (
+            <div
+              key={key}
+              className={`bg-gray-900/90 p-1.5 flex flex-col gap-1 ${view === 'month' ? 'min-h-[6rem]' : 'min-h-[14rem]'} ${isOtherMonth ? 'opacity-40' : ''}`}
+            >
+              <div className="flex justify-between items-center">
+                <span className={`text-xs ${key === todayKey ? 'px-1.5 rounded-full bg-purple-600 text-white' : 'text-gray-400'}`}>
+                  {view === 'week' ? `${day.getMonth() + 1}/${day.getDate()}` : day.getDate()}
+                </span>
+                <button
+                  onClick={() => setDraft(createCalendarEntry(key))}
+                  className="text-gray-500 hover:text-purple-300 text-xs px-1"
+                  aria-label={`${key}에 일정 추가`}
+                >
+                  +
+                </button>
+              </div>
+              {(entriesByDate[key] ?? []).map(entry => (
+                <button
+                  key={entry.id}
+                  onClick={() => setDraft(entry)}
+                  className={`text-left text-xs px-1.5 py-0.5 rounded border truncate ${STATUS_STYLES[entry.status]}`}
+                  title={`${entry.topic || entry.keyword} (${CALENDAR_STATUS_LABELS[entry.status]})`}
+                >
+                  {entry.topic || entry.keyword}
+                  {view === 'week' && <span className="block opacity-70">{CALENDAR_STATUS_LABELS[entry.status]}</span>}
+                </button>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-3 mt-3 text-xs text-gray-400">
+        {(Object.keys(CALENDAR_STATUS_LABELS) as CalendarEntryStatus[]).map(status => (
+          <span key={status} className={`px-1.5 py-0.5 rounded border ${STATUS_STYLES[status]}`}>{CALENDAR_STATUS_LABELS[status]}</span>
+        ))}
+      </div>
+
+      {draft && (
+        <div className="mt-6 bg-gray-900/50 p-4 rounded-lg border border-gray-700 space-y-4">
+          <h3 className="font-semibold text-gray-200">{entries.some(e => e.id === draft.id) ? '일정 수정' : '새 일정'}</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClassName}>발행 예정일</label>
+              <input type="date" value={draft.date} onChange={(e) => e.target.value && updateDraft({ date: e.target.value })} className={inputClassName} />
+            </div>
+            <div>
+              <label className={labelClassName}>상태</label>
+              <select value={draft.status} onChange={(e) => updateDraft({ status: e.target.value as CalendarEntryStatus })} className={inputClassName}>
+                {(Object.keys(CALENDAR_STATUS_LABELS) as CalendarEntryStatus[]).map(status => (
+                  <option key={status} value={status}>{CALENDAR_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClassName}>메인 키워드</label>
+              <input type="text" value={draft.keyword} onChange={(e) => updateDraft({ keyword: e.target.value })} placeholder="예: 제주도 가을 여행" className={inputClassName} />
+            </div>
+            <div>
+              <label className={labelClassName}>주제 (제목)</label>
+              <input type="text" value={draft.topic ?? ''} onChange={(e) => updateDraft({ topic: e.target.value || undefined })} placeholder="정해지지 않았으면 비워 두세요" className={inputClassName} />
+            </div>
+            <div>
+              <label className={labelClassName}>연결된 프로젝트</label>
+              <select value={draft.projectId ?? ''} onChange={(e) => updateDraft({ projectId: e.target.value || undefined })} className={inputClassName}>
+                <option value="">연결 안 함</option>
+                {draft.projectId && !linkedProject && <option value={draft.projectId}>(저장 전이거나 삭제된 프로젝트)</option>}
+                {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClassName}>발행 주소</label>
+              <input type="url" value={draft.publishedUrl ?? ''} onChange={(e) => updateDraft({ publishedUrl: e.target.value })} placeholder="https://blog.naver.com/..." className={inputClassName} />
+            </div>
+            <div className="sm:col-span-2">
+              <label className={labelClassName}>메모</label>
+              <textarea value={draft.note ?? ''} onChange={(e) => updateDraft({ note: e.target.value || undefined })} rows={2} className={inputClassName} />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={handleSave}
+              disabled={!draft.keyword.trim()}
+              className="px-4 py-2 text-sm font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 disabled:cursor-not-allowed"
+            >
+              저장
+            </button>
+            {linkedProject && (
+              <button onClick={() => onOpenProject(linkedProject)} disabled={isLoading || busyProjectIds.includes(linkedProject.id)} className={buttonClassName}>프로젝트 열기</button>
+            )}
+            {!draft.projectId && (
+              <button onClick={handleStart} disabled={isLoading || !draft.keyword.trim()} className={buttonClassName}>이 글 시작하기</button>
+            )}
+            {draft.publishedUrl && (
+              <a href={draft.publishedUrl} target="_blank" rel="noopener noreferrer" className="self-center text-sm text-purple-400 hover:text-purple-300">
+                발행된 글 보기
+              </a>
+            )}
+            <button onClick={() => setDraft(null)} className={buttonClassName}>취소</button>
+            {entries.some(e => e.id === draft.id) && (
+              <button onClick={handleDelete} className="ml-auto text-sm text-gray-500 hover:text-red-300">삭제</button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContentCalendar;
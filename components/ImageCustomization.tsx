@@ -1,131 +1,254 @@
 import React from 'react';
-import type { Result } from '../types';
+import type { ImageGenerationOptions, ImageJobStatus, ImageSource, Result } from '../types';
+import { readUploadedImage } from '../services/imageService';
+import { IMAGE_SOURCE_LABELS, isResultReady, usesEdit, usesUpload } from '../services/imagePipeline';
 import { MagicWandIcon, LanguageIcon } from './icons';
+import ImageOptionsFields from './ImageOptionsFields';
+import MarkdownView from './MarkdownView';
 
 interface ImageCustomizationProps {
     results: Result[];
+    imageOptions: ImageGenerationOptions;
+    onChangeImageOptions: (options: ImageGenerationOptions) => void;
     onUpdateResult: (index: number, newResult: Partial<Result>) => void;
     onTranslate: (index: number, text: string) => void;
     onFinalize: () => void;
+    onRetryFailed: () => void;
+    onShowResults: () => void;
     isLoading: boolean;
 }
 
-const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = error => reject(error);
-    });
+const JOB_STATUS_STYLES: Record<ImageJobStatus, { label: string; className: string }> = {
+    queued: { label: '대기 중', className: 'bg-gray-700 text-gray-300' },
+    running: { label: '생성 중', className: 'bg-blue-900/70 text-blue-200 animate-pulse' },
+    failed: { label: '실패', className: 'bg-red-900/70 text-red-300' },
+    done: { label: '완료', className: 'bg-green-900/70 text-green-300' },
 };
 
-const ImageCustomization: React.FC<ImageCustomizationProps> = ({ results, onUpdateResult, onTranslate, onFinalize, isLoading }) => {
+const JobStatusBadge: React.FC<{ result: Result }> = ({ result }) => {
+    if (!result.jobStatus) return null;
+    const { label, className } = JOB_STATUS_STYLES[result.jobStatus];
+    const isRetrying = result.jobStatus !== 'failed' && result.jobStatus !== 'done' && !!result.jobError;
+    return (
+        <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${className}`}>
+            {label}{isRetrying ? ` (재시도 ${result.jobAttempts})` : ''}
+        </span>
+    );
+};
+
+const ImageCustomization: React.FC<ImageCustomizationProps> = ({
+    results,
+    imageOptions,
+    onChangeImageOptions,
+    onUpdateResult,
+    onTranslate,
+    onFinalize,
+    onRetryFailed,
+    onShowResults,
+    isLoading,
+}) => {
     
     const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>, index: number) => {
         const file = e.target.files?.[0];
         if (file) {
             try {
-                const base64 = await fileToBase64(file);
+                const base64 = await readUploadedImage(file);
                 onUpdateResult(index, {
                     uploadedImageFile: file,
                     originalImageUrl: base64,
-                    imageUrl: base64, // Show preview
-                    editStatus: 'uploaded'
+                    imageUrl: '',
+                    candidates: undefined,
+                    editStatus: 'uploaded',
+                    jobStatus: undefined,
                 });
             } catch (error) {
                 console.error("Error converting file to base64", error);
+                if (error instanceof Error && error.message) alert(error.message);
                 onUpdateResult(index, { editStatus: 'error' });
             }
         }
     };
-    
-    const isReadyToFinalize = results.every(r => 
-      !r.uploadedImageFile || // This is for 'generate' mode
-      r.editStatus === 'asis' || 
-      (r.editStatus === 'editing' && !!r.editPrompt)
-    );
 
-    const isUploadingMode = results.some(r => r.uploadedImageFile !== undefined || r.originalImageUrl !== undefined);
+    // Changing the source discards a finished image so the item is produced again.
+    const handleSourceChange = (index: number, imageSource: ImageSource) => {
+        const result = results[index];
+        onUpdateResult(index, {
+            imageSource,
+            imageUrl: '',
+            candidates: undefined,
+            editStatus: result.originalImageUrl ? 'uploaded' : 'pending',
+            jobStatus: undefined,
+            jobError: undefined,
+        });
+    };
 
+    // Changing the options of an AI-generated image discards it so it is generated again with them.
+    const handleOptionsChange = (index: number, overrides: Partial<ImageGenerationOptions>) => {
+        const result = results[index];
+        const regenerate = !usesUpload(result.imageSource) && result.editStatus === 'done';
+        onUpdateResult(index, {
+            imageOptions: Object.keys(overrides).length > 0 ? overrides : undefined,
+            ...(regenerate ? { imageUrl: '', candidates: undefined, editStatus: 'pending', jobStatus: undefined } : {}),
+        });
+    };
+    
+    const isReadyToFinalize = results.every(isResultReady);
+    const isAllDone = results.length > 0 && results.every(r => r.editStatus === 'done' && !!r.imageUrl);
+    const failedCount = results.filter(r => r.jobStatus === 'failed').length;
 
     return (
         <div className="bg-gray-800/50 rounded-xl shadow-2xl p-6 mb-12 backdrop-blur-sm border border-gray-700">
-            <h2 className="text-2xl font-bold text-center mb-2">3. 이미지 설정하기</h2>
-            <p className="text-center text-gray-400 mb-8">{isUploadingMode ? "각 단락에 사용할 이미지를 업로드하고 수정 옵션을 선택하세요." : "각 단락에 어울리는 이미지를 AI가 생성합니다."}</p>
+            <h2 className="text-2xl font-bold text-center mb-2">4. 이미지 설정하기</h2>
+            <p className="text-center text-gray-400 mb-8">각 단락마다 이미지를 AI로 만들지, 내 사진을 쓸지, AI로 수정할지 선택하세요.</p>
+
+            <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700 mb-8">
+                <h3 className="font-semibold text-gray-200 mb-3">AI 이미지 옵션 (글 전체)</h3>
+                <ImageOptionsFields
+                    value={imageOptions}
+                    onChange={(value) => onChangeImageOptions({ ...imageOptions, ...value })}
+                    disabled={isLoading}
+                />
+            </div>
 
             <div className="space-y-8">
                 {results.map((result, index) => (
                     <div key={index} className="bg-gray-900/50 p-4 rounded-lg border border-gray-700">
-                        <p className="text-gray-300 leading-relaxed mb-4 p-3 bg-black/20 rounded-md">
-                            <strong className="text-purple-400">단락 {index + 1}:</strong> {result.paragraph}
-                        </p>
-                        
-                        {isUploadingMode ? (
-                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-center">
-                                <div>
-                                    {result.originalImageUrl ? (
-                                        <img src={result.originalImageUrl} alt="Uploaded preview" className="rounded-lg max-h-48 w-auto mx-auto"/>
-                                    ) : (
-                                        <div className="flex items-center justify-center h-48 bg-gray-700/50 rounded-lg">
+                        <div className="text-gray-300 leading-relaxed mb-4 p-3 bg-black/20 rounded-md">
+                            <p className="mb-2">
+                                <strong className="text-purple-400">단락 {index + 1}:</strong>
+                                <JobStatusBadge result={result} />
+                            </p>
+                            <MarkdownView text={result.paragraph} />
+                        </div>
+                        {result.jobError && result.jobStatus !== 'done' && (
+                            <p className="text-sm text-red-300 mb-4">{result.jobError}</p>
+                        )}
+
+                        <div className="flex flex-wrap gap-4 mb-4">
+                            {(Object.keys(IMAGE_SOURCE_LABELS) as ImageSource[]).map(source => (
+                                <label key={source} className="flex items-center gap-2 cursor-pointer">
+                                    <input
+                                        type="radio"
+                                        name={`image-source-${index}`}
+                                        value={source}
+                                        checked={result.imageSource === source}
+                                        onChange={() => handleSourceChange(index, source)}
+                                        className="w-4 h-4 text-purple-600 bg-gray-700 border-gray-500"
+                                        disabled={isLoading}
+                                    />
+                                    <span className="text-sm text-gray-200">{IMAGE_SOURCE_LABELS[source]}</span>
+                                </label>
+                            ))}
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-center">
+                            <div>
+                                {result.editStatus === 'done' && result.imageUrl && result.candidates && result.candidates.length > 1 ? (
+                                    <div>
+                                        <p className="text-xs text-gray-400 mb-2">사용할 이미지를 고르세요.</p>
+                                        <div className="grid grid-cols-2 gap-2">
+                                            {result.candidates.map((candidate, candidateIndex) => (
+                                                <button
+                                                    key={candidateIndex}
+                                                    type="button"
+                                                    onClick={() => onUpdateResult(index, { imageUrl: candidate, altText: undefined, caption: undefined })}
+                                                    disabled={isLoading}
+                                                    className={`rounded-lg overflow-hidden border-2 transition-colors ${candidate === result.imageUrl ? 'border-purple-500' : 'border-transparent hover:border-gray-500'}`}
+                                                    aria-label={`후보 ${candidateIndex + 1} 선택`}
+                                                    aria-pressed={candidate === result.imageUrl}
+                                                >
+                                                    <img src={candidate} alt={`${result.prompt} (후보 ${candidateIndex + 1})`} className="w-full h-auto" />
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                ) : result.editStatus === 'done' && result.imageUrl ? (
+                                    <img src={result.imageUrl} alt={result.prompt} className="rounded-lg max-h-48 w-auto mx-auto" />
+                                ) : usesUpload(result.imageSource) ? (
+                                    <div className="space-y-2 text-center">
+                                        {result.originalImageUrl && (
+                                            <img src={result.originalImageUrl} alt="Uploaded preview" className="rounded-lg max-h-48 w-auto mx-auto"/>
+                                        )}
+                                        <div className="flex items-center justify-center p-3 bg-gray-700/50 rounded-lg">
                                             <input
                                                 type="file"
-                                                accept="image/png, image/jpeg, image/webp"
+                                                accept="image/png, image/jpeg, image/webp, image/heic, image/heif, .heic, .heif"
                                                 onChange={(e) => handleFileChange(e, index)}
                                                 className="text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-purple-600 file:text-white hover:file:bg-purple-700"
+                                                disabled={isLoading}
                                             />
                                         </div>
-                                    )}
-                                </div>
-                                
-                                {result.editStatus !== 'pending' && result.editStatus !== 'error' && (
-                                     <div>
-                                         <div className="flex gap-4 mb-3">
-                                            <label className="flex items-center gap-2 cursor-pointer">
-                                              <input type="radio" name={`edit-option-${index}`} value="asis" checked={result.editStatus === 'asis'} onChange={() => onUpdateResult(index, { editStatus: 'asis' })} className="w-4 h-4 text-purple-600 bg-gray-700 border-gray-500" />
-                                              <span>원본 그대로 사용</span>
-                                            </label>
-                                            <label className="flex items-center gap-2 cursor-pointer">
-                                              <input type="radio" name={`edit-option-${index}`} value="editing" checked={result.editStatus === 'editing'} onChange={() => onUpdateResult(index, { editStatus: 'editing' })} className="w-4 h-4 text-purple-600 bg-gray-700 border-gray-500" />
-                                              <span>AI로 수정하기</span>
-                                            </label>
-                                         </div>
-                                         {/* FIX: Show this block when editing or translating to prevent UI flicker and fix type errors. */}
-                                         {(result.editStatus === 'editing' || result.editStatus === 'translating') && (
-                                             <div className="space-y-2">
-                                                 <textarea
-                                                    value={result.editPrompt || ''}
-                                                    onChange={(e) => onUpdateResult(index, { editPrompt: e.target.value })}
-                                                    placeholder="수정할 내용을 한글로 입력하세요. (예: 하늘을 더 파랗게 만들어줘)"
-                                                    rows={3}
-                                                    className="w-full bg-gray-800 border border-gray-600 rounded-md p-2 text-gray-200 focus:ring-purple-500 focus:border-purple-500"
-                                                    disabled={result.editStatus === 'translating'}
-                                                 />
-                                                 <button
-                                                    onClick={() => onTranslate(index, result.editPrompt || '')}
-                                                    disabled={!result.editPrompt || result.editStatus === 'translating'}
-                                                    className="inline-flex items-center gap-1.5 px-3 py-1.5 border border-gray-600 text-xs font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
-                                                 >
-                                                    <LanguageIcon className="w-4 h-4"/>
-                                                    {result.editStatus === 'translating' ? '번역 중...' : '영어로 번역'}
-                                                 </button>
-                                             </div>
-                                         )}
-                                     </div>
+                                    </div>
+                                ) : (
+                                    <div className="text-center text-gray-400 p-4 bg-gray-700/50 rounded-lg">
+                                        AI가 위 단락 내용에 맞춰 이미지를 생성할 예정입니다.
+                                    </div>
                                 )}
-                             </div>
-                        ) : (
-                            <div className="text-center text-gray-400 p-4 bg-gray-700/50 rounded-lg">
-                                AI가 위 단락 내용에 맞춰 이미지를 생성할 예정입니다.
                             </div>
+
+                            {usesEdit(result.imageSource) && (
+                                <div className="space-y-2">
+                                    <textarea
+                                        value={result.editPrompt || ''}
+                                        onChange={(e) => onUpdateResult(index, { editPrompt: e.target.value })}
+                                        placeholder={result.imageSource === 'upload-edit'
+                                            ? "수정할 내용을 한글로 입력하세요. (예: 하늘을 더 파랗게 만들어줘)"
+                                            : "생성된 이미지에 적용할 수정 내용을 입력하세요. (예: 오른쪽 아래에 로고 자리를 비워줘)"}
+                                        rows={3}
+                                        className="w-full bg-gray-800 border border-gray-600 rounded-md p-2 text-gray-200 focus:ring-purple-500 focus:border-purple-500"
+                                        disabled={result.editStatus === 'translating' || isLoading}
+                                    />
+                                    <button
+                                        onClick={() => onTranslate(index, result.editPrompt || '')}
+                                        disabled={!result.editPrompt || result.editStatus === 'translating' || isLoading}
+                                        className="inline-flex items-center gap-1.5 px-3 py-1.5 border border-gray-600 text-xs font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+                                    >
+                                        <LanguageIcon className="w-4 h-4"/>
+                                        {result.editStatus === 'translating' ? '번역 중...' : '영어로 번역'}
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+
+                        {!usesUpload(result.imageSource) && (
+                            <details className="mt-4 text-sm text-gray-400" open={!!result.imageOptions}>
+                                <summary className="cursor-pointer">이 단락만 다른 이미지 옵션 사용</summary>
+                                <div className="mt-3">
+                                    <ImageOptionsFields
+                                        value={result.imageOptions ?? {}}
+                                        onChange={(overrides) => handleOptionsChange(index, overrides)}
+                                        inherited={imageOptions}
+                                        disabled={isLoading}
+                                    />
+                                </div>
+                            </details>
                         )}
                     </div>
                 ))}
             </div>
 
-            <div className="mt-8 flex justify-end">
+            <div className="mt-8 flex justify-end gap-3">
+                {failedCount > 0 && (
+                    <button
+                        onClick={onRetryFailed}
+                        disabled={isLoading}
+                        className="inline-flex items-center gap-2 px-6 py-3 border border-red-700 text-base font-medium rounded-md shadow-sm text-red-200 bg-red-900/50 hover:bg-red-900 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                    >
+                        실패한 {failedCount}개 항목만 다시 시도
+                    </button>
+                )}
+                {isAllDone && (
+                    <button
+                        onClick={onShowResults}
+                        disabled={isLoading}
+                        className="inline-flex items-center gap-2 px-6 py-3 border border-gray-600 text-base font-medium rounded-md shadow-sm text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                    >
+                        결과 보기
+                    </button>
+                )}
                 <button
                     onClick={onFinalize}
-                    disabled={isLoading || (isUploadingMode && !isReadyToFinalize)}
+                    disabled={isLoading || !isReadyToFinalize || isAllDone}
                     className="inline-flex items-center gap-2 px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all"
                 >
                     <MagicWandIcon className="w-5 h-5" />
@@ -136,4 +259,4 @@ const ImageCustomization: React.FC<ImageCustomizationProps> = ({ results, onUpda
     );
 };
 
-export default ImageCustomization;
\ No newline at end of file
+export default ImageCustomization;
@@ -0,0 +1,65 @@
+import React from 'react';
+import type { ImageDescription, Result } from '../types';
+import { ALT_TEXT_MAX_CHARS, CAPTION_MAX_CHARS } from '../services/altTextService';
+
+interface ImageDescriptionFieldsProps {
+  result: Result;
+  isGenerating: boolean;
+  onChange: (patch: Partial<ImageDescription>) => void;
+  onGenerate: () => void;
+}
+
+const inputClassName = "w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200 focus:ring-purple-500 focus:border-purple-500";
+const labelClassName = "flex justify-between text-xs font-medium text-gray-400 mb-1";
+
+const CharCount: React.FC<{ length: number; max: number }> = ({ length, max }) => (
+  <span className={length > max ? 'text-yellow-400' : 'text-gray-500'}>{length}/{max}</span>
+);
+
+const ImageDescriptionFields: React.FC<ImageDescriptionFieldsProps> = ({ result, isGenerating, onChange, onGenerate }) => {
+  const altText = result.altText ?? '';
+  const caption = result.caption ?? '';
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div>
+        <label className={labelClassName}>
+          <span>대체 텍스트 (alt)</span>
+          <CharCount length={altText.length} max={ALT_TEXT_MAX_CHARS} />
+        </label>
+        <textarea
+          value={altText}
+          onChange={(e) => onChange({ altText: e.target.value })}
+          placeholder="이미지에 보이는 내용을 설명하세요. 화면 낭독기와 이미지 검색에 쓰입니다."
+          rows={2}
+          className={inputClassName}
+          disabled={isGenerating}
+        />
+      </div>
+      <div>
+        <label className={labelClassName}>
+          <span>캡션</span>
+          <CharCount length={caption.length} max={CAPTION_MAX_CHARS} />
+        </label>
+        <input
+          type="text"
+          value={caption}
+          onChange={(e) => onChange({ caption: e.target.value })}
+          placeholder="이미지 아래에 표시할 짧은 설명"
+          className={inputClassName}
+          disabled={isGenerating}
+        />
+      </div>
+      <button
+        type="button"
+        onClick={onGenerate}
+        disabled={isGenerating}
+        className="px-3 py-1.5 border border-gray-600 text-xs font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+      >
+        {isGenerating ? '이미지 분석 중...' : altText || caption ? 'AI로 다시 만들기' : 'AI로 만들기'}
+      </button>
+    </div>
+  );
+};
+
+export default ImageDescriptionFields;
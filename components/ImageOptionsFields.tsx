@@ -0,0 +1,83 @@
+import React from 'react';
+import type { ImageAspectRatio, ImageGenerationOptions, ImageStylePreset } from '../types';
+import { ASPECT_RATIO_LABELS, IMAGE_STYLE_LABELS, MAX_IMAGE_CANDIDATES } from '../services/imageOptions';
+
+interface ImageOptionsFieldsProps {
+  value: Partial<ImageGenerationOptions>;
+  onChange: (value: Partial<ImageGenerationOptions>) => void;
+  // The post's options. When given, every field can be left empty to follow them.
+  inherited?: ImageGenerationOptions;
+  disabled?: boolean;
+}
+
+const inputClassName = "w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200 focus:ring-purple-500 focus:border-purple-500";
+const labelClassName = "block text-xs font-medium text-gray-400 mb-1";
+const INHERIT = '';
+
+const ImageOptionsFields: React.FC<ImageOptionsFieldsProps> = ({ value, onChange, inherited, disabled }) => {
+  // Removes a field instead of storing an empty override, so the post's value applies.
+  const update = <K extends keyof ImageGenerationOptions>(key: K, next: ImageGenerationOptions[K] | undefined) => {
+    const { [key]: _removed, ...rest } = value;
+    onChange(next === undefined ? rest : { ...rest, [key]: next });
+  };
+
+  const candidateCounts = Array.from({ length: MAX_IMAGE_CANDIDATES }, (_, i) => i + 1);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+      <div>
+        <label className={labelClassName}>비율</label>
+        <select
+          value={value.aspectRatio ?? INHERIT}
+          onChange={(e) => update('aspectRatio', (e.target.value || undefined) as ImageAspectRatio | undefined)}
+          className={inputClassName}
+          disabled={disabled}
+        >
+          {inherited && <option value={INHERIT}>글 설정 따름 ({inherited.aspectRatio})</option>}
+          {(Object.keys(ASPECT_RATIO_LABELS) as ImageAspectRatio[]).map(ratio => (
+            <option key={ratio} value={ratio}>{ASPECT_RATIO_LABELS[ratio]}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className={labelClassName}>스타일</label>
+        <select
+          value={value.style ?? INHERIT}
+          onChange={(e) => update('style', (e.target.value || undefined) as ImageStylePreset | undefined)}
+          className={inputClassName}
+          disabled={disabled}
+        >
+          {inherited && <option value={INHERIT}>글 설정 따름 ({IMAGE_STYLE_LABELS[inherited.style]})</option>}
+          {(Object.keys(IMAGE_STYLE_LABELS) as ImageStylePreset[]).map(style => (
+            <option key={style} value={style}>{IMAGE_STYLE_LABELS[style]}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className={labelClassName}>후보 이미지 수</label>
+        <select
+          value={value.candidates ?? INHERIT}
+          onChange={(e) => update('candidates', e.target.value ? Number(e.target.value) : undefined)}
+          className={inputClassName}
+          disabled={disabled}
+        >
+          {inherited && <option value={INHERIT}>글 설정 따름 ({inherited.candidates}장)</option>}
+          {candidateCounts.map(count => <option key={count} value={count}>{count}장</option>)}
+        </select>
+      </div>
+      <div className="sm:col-span-3">
+        <label className={labelClassName}>제외할 요소 (네거티브 프롬프트, 영어 권장)</label>
+        <input
+          type="text"
+          value={value.negativePrompt ?? ''}
+          onChange={(e) => update('negativePrompt', inherited && !e.target.value ? undefined : e.target.value)}
+          placeholder={inherited?.negativePrompt ? `글 설정: ${inherited.negativePrompt}` : '예: text, watermark, blurry'}
+          className={inputClassName}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ImageOptionsFields;
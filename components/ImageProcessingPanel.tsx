@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import type { ImageOutputFormat, ImageProcessingOptions, WatermarkMode, WatermarkPosition } from '../types';
+import {
+  OUTPUT_FORMAT_LABELS,
+  WATERMARK_POSITION_LABELS,
+  formatBytes,
+  readUploadedImage,
+} from '../services/imageService';
+
+export interface ImageSizeInfo {
+  original: number;
+  processed: number | null; // null while processing has not finished
+}
+
+interface ImageProcessingPanelProps {
+  options: ImageProcessingOptions;
+  onChange: (options: ImageProcessingOptions) => void;
+  sizes: ImageSizeInfo[];
+  isProcessing: boolean;
+  error: string | null;
+  blogName: string;
+}
+
+const inputClassName = "w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200 focus:ring-purple-500 focus:border-purple-500";
+const labelClassName = "block text-xs font-medium text-gray-400 mb-1";
+
+const WATERMARK_MODE_LABELS: Record<WatermarkMode, string> = {
+  none: '사용 안 함',
+  text: '텍스트',
+  logo: '로고 이미지',
+};
+
+const ImageProcessingPanel: React.FC<ImageProcessingPanelProps> = ({ options, onChange, sizes, isProcessing, error, blogName }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+
+  const update = (patch: Partial<ImageProcessingOptions>) => onChange({ ...options, ...patch });
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      update({ watermarkLogo: await readUploadedImage(file), watermark: 'logo' });
+    } catch (err) {
+      console.error("Error reading logo", err);
+      alert(err instanceof Error && err.message ? err.message : '로고 이미지를 읽지 못했습니다.');
+    }
+  };
+
+  const totalOriginal = sizes.reduce((sum, size) => sum + size.original, 0);
+  const isReady = sizes.every(size => size.processed !== null);
+  const totalProcessed = sizes.reduce((sum, size) => sum + (size.processed ?? 0), 0);
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg border border-gray-700">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex justify-between items-center p-4 text-left text-sm text-gray-300 hover:text-white"
+      >
+        <span>
+          <span className="font-semibold">이미지 후처리</span>
+          <span className="text-gray-500 ml-2">
+            {!options.enabled
+              ? `사용 안 함 · 원본 ${formatBytes(totalOriginal)}`
+              : isProcessing || !isReady
+                ? '용량 계산 중...'
+                : `원본 ${formatBytes(totalOriginal)} → ${formatBytes(totalProcessed)}`}
+          </span>
+        </span>
+        <span>{isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="p-4 pt-0 space-y-4">
+          <label className="inline-flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={options.enabled} onChange={() => update({ enabled: !options.enabled })} className="accent-purple-500" />
+            내보내기와 AI 수정 전에 이미지를 처리합니다
+          </label>
+
+          <div className={`grid grid-cols-1 sm:grid-cols-2 gap-4 ${options.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+            <div>
+              <label className={labelClassName}>최대 너비 (px, 0이면 원본 유지)</label>
+              <input type="number" min={0} step={100} value={options.maxWidth} onChange={(e) => update({ maxWidth: Math.max(0, Number(e.target.value) || 0) })} className={inputClassName} />
+            </div>
+            <div>
+              <label className={labelClassName}>형식</label>
+              <select value={options.format} onChange={(e) => update({ format: e.target.value as ImageOutputFormat })} className={inputClassName}>
+                {(Object.keys(OUTPUT_FORMAT_LABELS) as ImageOutputFormat[]).map(format => (
+                  <option key={format} value={format}>{OUTPUT_FORMAT_LABELS[format]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClassName}>품질 ({Math.round(options.quality * 100)}%)</label>
+              <input
+                type="range"
+                min={0.3}
+                max={1}
+                step={0.05}
+                value={options.quality}
+                onChange={(e) => update({ quality: Number(e.target.value) })}
+                disabled={options.format === 'image/png'}
+                className="w-full accent-purple-500"
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>이미지당 목표 용량 (KB, 0이면 제한 없음)</label>
+              <input type="number" min={0} step={50} value={options.targetSizeKb} onChange={(e) => update({ targetSizeKb: Math.max(0, Number(e.target.value) || 0) })} className={inputClassName} />
+            </div>
+
+            <div className="sm:col-span-2">
+              <label className={labelClassName}>워터마크</label>
+              <div className="flex flex-wrap gap-4">
+                {(Object.keys(WATERMARK_MODE_LABELS) as WatermarkMode[]).map(mode => (
+                  <label key={mode} className="inline-flex items-center gap-1.5 text-sm text-gray-300">
+                    <input type="radio" name="watermark-mode" checked={options.watermark === mode} onChange={() => update({ watermark: mode })} className="accent-purple-500" />
+                    {WATERMARK_MODE_LABELS[mode]}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {options.watermark === 'text' && (
+              <div>
+                <label className={labelClassName}>워터마크 문구</label>
+                <input
+                  type="text"
+                  value={options.watermarkText}
+                  onChange={(e) => update({ watermarkText: e.target.value })}
+                  placeholder={blogName ? `비워 두면 '${blogName}'` : '예: © 내 블로그'}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+            {options.watermark === 'logo' && (
+              <div>
+                <label className={labelClassName}>로고 이미지</label>
+                <div className="flex items-center gap-3">
+                  {options.watermarkLogo && <img src={options.watermarkLogo} alt="워터마크 로고" className="h-10 w-auto rounded bg-gray-700 p-1" />}
+                  <input type="file" accept="image/png, image/jpeg, image/webp" onChange={handleLogoChange} className="text-sm text-gray-400 file:mr-3 file:py-1.5 file:px-3 file:rounded-full file:border-0 file:text-xs file:font-semibold file:bg-purple-600 file:text-white hover:file:bg-purple-700" />
+                </div>
+              </div>
+            )}
+            {options.watermark !== 'none' && (
+              <>
+                <div>
+                  <label className={labelClassName}>위치</label>
+                  <select value={options.watermarkPosition} onChange={(e) => update({ watermarkPosition: e.target.value as WatermarkPosition })} className={inputClassName}>
+                    {(Object.keys(WATERMARK_POSITION_LABELS) as WatermarkPosition[]).map(position => (
+                      <option key={position} value={position}>{WATERMARK_POSITION_LABELS[position]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClassName}>투명도 ({Math.round(options.watermarkOpacity * 100)}%)</label>
+                  <input type="range" min={0.1} max={1} step={0.05} value={options.watermarkOpacity} onChange={(e) => update({ watermarkOpacity: Number(e.target.value) })} className="w-full accent-purple-500" />
+                </div>
+              </>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-red-300">{error}</p>}
+
+          {sizes.length > 0 && (
+            <table className="w-full text-sm text-gray-300">
+              <thead>
+                <tr className="text-xs text-gray-500 text-left">
+                  <th className="font-medium py-1">이미지</th>
+                  <th className="font-medium py-1 text-right">원본</th>
+                  <th className="font-medium py-1 text-right">내보낼 크기</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sizes.map((size, index) => (
+                  <tr key={index} className="border-t border-gray-800">
+                    <td className="py-1">이미지 {index + 1}</td>
+                    <td className="py-1 text-right">{formatBytes(size.original)}</td>
+                    <td className="py-1 text-right">{size.processed === null ? '...' : formatBytes(size.processed)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageProcessingPanel;
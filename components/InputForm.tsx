@@ -1,23 +1,78 @@
-import React, { useState, useEffect } from 'react';
-import type { FormState } from '../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import type { FormState, ImageSource, NaverBlogItem, OutlineSection } from '../types';
+import { IMAGE_SOURCE_LABELS } from '../services/imagePipeline';
+import { splitPostByOutline } from '../services/outlineService';
+import { applyMarkdownFormat } from '../services/markdown';
+import type { MarkdownFormat } from '../services/markdown';
 import { MagicWandIcon } from './icons';
+import SeoLintPanel from './SeoLintPanel';
+import OriginalityPanel from './OriginalityPanel';
+import MarkdownView from './MarkdownView';
+
+type EditorView = 'edit' | 'split' | 'preview';
+
+const EDITOR_VIEW_LABELS: Record<EditorView, string> = {
+  edit: '편집',
+  split: '나란히 보기',
+  preview: '미리보기',
+};
+
+const FORMAT_BUTTONS: { format: MarkdownFormat; label: string; title: string }[] = [
+  { format: 'bold', label: '굵게', title: '선택한 글자를 **굵게**' },
+  { format: 'heading', label: '소제목', title: '선택한 줄을 ## 소제목으로' },
+  { format: 'bullet', label: '• 목록', title: '선택한 줄을 - 글머리 기호 목록으로' },
+  { format: 'numbered', label: '1. 번호 목록', title: '선택한 줄을 번호 목록으로' },
+];
+
+const toggleButtonClassName = "px-2.5 py-1 text-xs font-medium rounded-md border transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
 
 interface VisualizePostFormProps {
   onSubmit: (formState: FormState) => void;
+  // Reports every change to the post, labelled when it is not a manual edit, so it can be versioned.
+  onTextChange?: (text: string, label?: string) => void;
   isLoading: boolean;
   initialText?: string;
+  initialBlogName?: string;
+  title?: string;
+  mainKeyword?: string;
+  naverItems?: NaverBlogItem[];
+  outline?: OutlineSection[];
+  onRewriteSentences: (sentences: string[]) => Promise<string[] | null>;
 }
 
-const VisualizePostForm: React.FC<VisualizePostFormProps> = ({ onSubmit, isLoading, initialText = '' }) => {
+const VisualizePostForm: React.FC<VisualizePostFormProps> = ({ onSubmit, onTextChange, isLoading, initialText = '', initialBlogName = '', title = '', mainKeyword = '', naverItems = [], outline = [], onRewriteSentences }) => {
   const [blogText, setBlogText] = useState<string>(initialText);
   const [numParagraphs, setNumParagraphs] = useState<number>(3);
-  const [blogName, setBlogName] = useState<string>('');
-  const [imageSource, setImageSource] = useState<'generate' | 'upload'>('generate');
+  const [blogName, setBlogName] = useState<string>(initialBlogName);
+  const [imageSource, setImageSource] = useState<ImageSource>('generate');
+  const [view, setView] = useState<EditorView>('split');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   useEffect(() => {
     setBlogText(initialText);
   }, [initialText]);
 
+  const changeText = (text: string, label?: string) => {
+    setBlogText(text);
+    onTextChange?.(text, label);
+  };
+
+  const handleFormat = (format: MarkdownFormat) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const next = applyMarkdownFormat(blogText, textarea.selectionStart, textarea.selectionEnd, format);
+    changeText(next.text);
+    // Keep the formatted text selected, once React has put the new value in.
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(next.selectionStart, next.selectionEnd);
+    });
+  };
+
+  // Posts written from an outline are split at their section boundaries, so the count follows the text.
+  const outlineParagraphCount = useMemo(() => splitPostByOutline(blogText, outline).length, [blogText, outline]);
+  const imageCount = outlineParagraphCount || numParagraphs;
+
   const handleFormSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!blogText.trim() || numParagraphs <= 0) {
@@ -42,23 +97,74 @@ const VisualizePostForm: React.FC<VisualizePostFormProps> = ({ onSubmit, isLoadi
           className="w-full bg-gray-900 border border-gray-600 rounded-md shadow-sm p-3 text-gray-200 focus:ring-purple-500 focus:border-purple-500 transition-colors duration-200"
           disabled={isLoading}
         />
-         <p className="text-xs text-gray-500 mt-2">입력 시 AI가 생성하는 글에 자연스럽게 포함됩니다.</p>
+         <p className="text-xs text-gray-500 mt-2">입력 시 AI가 글의 나머지는 그대로 두고 이름만 자연스럽게 넣습니다. 적용 전에 바뀐 부분을 확인할 수 있습니다.</p>
       </div>
 
       <div>
-        <label htmlFor="blog-text" className="block text-sm font-medium text-gray-300 mb-2">
-          블로그 포스트
-        </label>
-        <textarea
-          id="blog-text"
-          value={blogText}
-          onChange={(e) => setBlogText(e.target.value)}
-          placeholder="블로그 포스트 전체 내용을 여기에 붙여넣으세요..."
-          rows={12}
-          className="w-full bg-gray-900 border border-gray-600 rounded-md shadow-sm p-4 text-gray-200 focus:ring-purple-500 focus:border-purple-500 transition-colors duration-200"
-          disabled={isLoading}
-        />
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+          <label htmlFor="blog-text" className="block text-sm font-medium text-gray-300">
+            블로그 포스트 <span className="text-xs text-gray-500">(Markdown)</span>
+          </label>
+          <div className="flex gap-1">
+            {(Object.keys(EDITOR_VIEW_LABELS) as EditorView[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                className={`${toggleButtonClassName} ${view === option ? 'border-purple-500 text-white bg-purple-700' : 'border-gray-600 text-gray-300 bg-gray-700 hover:bg-gray-600'}`}
+              >
+                {EDITOR_VIEW_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+        {view !== 'preview' && (
+          <div className="flex flex-wrap gap-1 mb-2">
+            {FORMAT_BUTTONS.map(({ format, label, title: buttonTitle }) => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => handleFormat(format)}
+                title={buttonTitle}
+                disabled={isLoading}
+                className={`${toggleButtonClassName} border-gray-600 text-gray-300 bg-gray-700 hover:bg-gray-600`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+        <div className={view === 'split' ? 'grid grid-cols-1 lg:grid-cols-2 gap-4' : ''}>
+          {view !== 'preview' && (
+            <textarea
+              id="blog-text"
+              ref={textareaRef}
+              value={blogText}
+              onChange={(e) => changeText(e.target.value)}
+              placeholder="블로그 포스트 전체 내용을 여기에 붙여넣으세요..."
+              rows={view === 'split' ? 20 : 12}
+              className="w-full bg-gray-900 border border-gray-600 rounded-md shadow-sm p-4 text-gray-200 focus:ring-purple-500 focus:border-purple-500 transition-colors duration-200"
+              disabled={isLoading}
+            />
+          )}
+          {view !== 'edit' && (
+            <div className="bg-gray-900/60 border border-gray-700 rounded-md p-4 max-h-[32rem] overflow-y-auto">
+              {blogText.trim()
+                ? <MarkdownView text={blogText} className="text-gray-300 leading-relaxed" />
+                : <p className="text-sm text-gray-500">미리 볼 내용이 없습니다.</p>}
+            </div>
+          )}
+        </div>
       </div>
+      <SeoLintPanel input={{ title, text: blogText, mainKeyword, imageCount }} />
+      <OriginalityPanel
+        post={blogText}
+        titles={title ? [title] : []}
+        naverItems={naverItems}
+        isLoading={isLoading}
+        onRewrite={onRewriteSentences}
+        onApply={(text) => changeText(text, '겹치는 문장 다시 쓰기')}
+      />
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
         <div>
           <label htmlFor="num-paragraphs" className="block text-sm font-medium text-gray-300 mb-2">
@@ -67,44 +173,33 @@ const VisualizePostForm: React.FC<VisualizePostFormProps> = ({ onSubmit, isLoadi
           <input
             type="number"
             id="num-paragraphs"
-            value={numParagraphs}
+            value={imageCount}
             onChange={(e) => setNumParagraphs(Number(e.target.value))}
             min="1"
             max="10"
             className="w-full bg-gray-900 border border-gray-600 rounded-md shadow-sm p-3 text-gray-200 focus:ring-purple-500 focus:border-purple-500 transition-colors duration-200"
-            disabled={isLoading}
+            disabled={isLoading || outlineParagraphCount > 0}
           />
+          {outlineParagraphCount > 0 && (
+            <p className="text-xs text-gray-500 mt-2">개요에서 이미지를 지정한 섹션마다 단락이 나뉩니다.</p>
+          )}
         </div>
         <div>
-           <label className="block text-sm font-medium text-gray-300 mb-2">
-            이미지 소스
+          <label htmlFor="image-source" className="block text-sm font-medium text-gray-300 mb-2">
+            기본 이미지 소스
           </label>
-          <div className="flex gap-4 items-center h-full">
-            <label className="flex items-center gap-2 cursor-pointer">
-              <input 
-                type="radio" 
-                name="imageSource" 
-                value="generate"
-                checked={imageSource === 'generate'} 
-                onChange={() => setImageSource('generate')}
-                className="w-4 h-4 text-purple-600 bg-gray-700 border-gray-500 focus:ring-purple-500"
-                disabled={isLoading}
-              />
-              <span className="text-gray-200">AI로 이미지 생성</span>
-            </label>
-             <label className="flex items-center gap-2 cursor-pointer">
-              <input 
-                type="radio" 
-                name="imageSource" 
-                value="upload"
-                checked={imageSource === 'upload'} 
-                onChange={() => setImageSource('upload')}
-                className="w-4 h-4 text-purple-600 bg-gray-700 border-gray-500 focus:ring-purple-500"
-                disabled={isLoading}
-              />
-              <span className="text-gray-200">내 이미지 사용</span>
-            </label>
-          </div>
+          <select
+            id="image-source"
+            value={imageSource}
+            onChange={(e) => setImageSource(e.target.value as ImageSource)}
+            className="w-full bg-gray-900 border border-gray-600 rounded-md shadow-sm p-3 text-gray-200 focus:ring-purple-500 focus:border-purple-500 transition-colors duration-200"
+            disabled={isLoading}
+          >
+            {(Object.keys(IMAGE_SOURCE_LABELS) as ImageSource[]).map(source => (
+              <option key={source} value={source}>{IMAGE_SOURCE_LABELS[source]}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-2">다음 단계에서 단락별로 바꿀 수 있습니다.</p>
         </div>
       </div>
       <div className="flex justify-end">
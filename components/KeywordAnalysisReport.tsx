@@ -0,0 +1,73 @@
+import React from 'react';
+import type { KeywordAnalysis, SaturationLevel } from '../types';
+import { SATURATION_LABELS } from '../services/keywordAnalysis';
+
+interface KeywordAnalysisReportProps {
+  analysis: KeywordAnalysis;
+}
+
+export const SATURATION_COLORS: Record<SaturationLevel, string> = {
+  'low': 'text-green-300 bg-green-900/40 border-green-700',
+  'medium': 'text-yellow-300 bg-yellow-900/40 border-yellow-700',
+  'high': 'text-orange-300 bg-orange-900/40 border-orange-700',
+  'very-high': 'text-red-300 bg-red-900/40 border-red-700',
+};
+
+const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const formatPostDate = (postdate?: string) =>
+  postdate && postdate.length === 8 ? `${postdate.slice(0, 4)}.${postdate.slice(4, 6)}.${postdate.slice(6)}` : '-';
+
+const Stat: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-gray-900/60 border border-gray-700 rounded-md p-3">
+    <p className="text-xs text-gray-400">{label}</p>
+    <p className="text-lg font-semibold text-gray-100">{value}</p>
+    {hint && <p className="text-xs text-gray-500 mt-1">{hint}</p>}
+  </div>
+);
+
+const KeywordAnalysisReport: React.FC<KeywordAnalysisReportProps> = ({ analysis }) => {
+  const { titleLength, recency, saturation } = analysis;
+
+  return (
+    <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-600 space-y-4 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="font-semibold text-gray-200">키워드 경쟁도 분석</h4>
+        <span className={`px-3 py-1 text-sm font-medium rounded-full border ${SATURATION_COLORS[saturation.level]}`}>
+          포화도 {SATURATION_LABELS[saturation.level]} · {saturation.score}/100
+        </span>
+      </div>
+      {saturation.reasons.length > 0 && (
+        <ul className="list-disc list-inside text-sm text-gray-400 space-y-1">
+          {saturation.reasons.map(reason => <li key={reason}>{reason}</li>)}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <Stat label="전체 게시물 수" value={analysis.totalResults.toLocaleString('ko-KR')} hint={`분석 표본 ${analysis.sampleSize}개`} />
+        <Stat label="상위 글 제목 길이 (중앙값)" value={`${titleLength.median}자`} hint={`${titleLength.min}~${titleLength.max}자, 평균 ${titleLength.average}자`} />
+        <Stat label="상위 제목 키워드 포함" value={formatPercent(analysis.keywordInTitleRate)} hint={`앞부분 배치 ${formatPercent(analysis.keywordAtStartRate)}`} />
+        <Stat label="키워드 밀도" value={`${analysis.keywordDensity}%`} hint="제목·요약 100단어당" />
+        <Stat label="최근 7일" value={`${recency.within7Days}개`} hint={`30일 이내 ${recency.within30Days}개`} />
+        <Stat label="90일 이내 / 이전" value={`${recency.within90Days}개 / ${recency.older}개`} />
+        <Stat label="하루 평균 새 글" value={`${recency.postsPerDay}개`} />
+        <Stat label="가장 최근 글" value={formatPostDate(recency.newestPostDate)} />
+      </div>
+
+      {analysis.coOccurringTerms.length > 0 && (
+        <div>
+          <p className="text-sm text-gray-400 mb-2">함께 자주 쓰이는 단어</p>
+          <div className="flex flex-wrap gap-2">
+            {analysis.coOccurringTerms.map(({ term, count }) => (
+              <span key={term} className="px-2 py-1 text-xs rounded-md bg-gray-800 border border-gray-700 text-gray-300">
+                {term} <span className="text-gray-500">{count}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KeywordAnalysisReport;
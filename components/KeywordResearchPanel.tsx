@@ -0,0 +1,84 @@
+import React from 'react';
+import type { KeywordSuggestion, KeywordSuggestionKind } from '../types';
+import { SATURATION_LABELS } from '../services/keywordAnalysis';
+import { SATURATION_COLORS } from './KeywordAnalysisReport';
+
+interface KeywordResearchPanelProps {
+  suggestions: KeywordSuggestion[];
+  selectedKeywords: string[];
+  isLoading: boolean;
+  canResearch: boolean;
+  onResearch: () => void;
+  onAdd: (keyword: string) => void;
+}
+
+const KIND_LABELS: Record<KeywordSuggestionKind, string> = {
+  'related': '연관 키워드',
+  'long-tail': '롱테일 키워드',
+};
+
+const SOURCE_LABELS = { naver: '네이버', ai: 'AI' };
+
+const KeywordResearchPanel: React.FC<KeywordResearchPanelProps> = ({
+  suggestions,
+  selectedKeywords,
+  isLoading,
+  canResearch,
+  onResearch,
+  onAdd,
+}) => {
+  const renderGroup = (kind: KeywordSuggestionKind) => {
+    const group = suggestions.filter(suggestion => suggestion.kind === kind);
+    if (group.length === 0) return null;
+    return (
+      <div>
+        <p className="text-sm text-gray-400 mb-2">{KIND_LABELS[kind]}</p>
+        <div className="flex flex-wrap gap-2">
+          {group.map(suggestion => {
+            const isAdded = selectedKeywords.includes(suggestion.keyword);
+            return (
+              <button
+                key={suggestion.keyword}
+                type="button"
+                onClick={() => onAdd(suggestion.keyword)}
+                disabled={isAdded || isLoading}
+                title={`출처: ${suggestion.sources.map(source => SOURCE_LABELS[source]).join(', ')}`}
+                className="inline-flex items-center gap-2 px-3 py-1.5 text-sm rounded-md border border-gray-600 bg-gray-800 text-gray-200 hover:border-purple-500 hover:bg-purple-900/40 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <span>{isAdded ? '✓' : '+'} {suggestion.keyword}</span>
+                {suggestion.competition && suggestion.totalResults !== undefined && (
+                  <span className={`px-1.5 py-0.5 text-xs rounded border ${SATURATION_COLORS[suggestion.competition]}`}>
+                    경쟁 {SATURATION_LABELS[suggestion.competition]} · {suggestion.totalResults.toLocaleString('ko-KR')}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-gray-400">네이버 검색 결과와 AI로 연관·롱테일 키워드를 찾아 추가 키워드에 넣을 수 있습니다.</p>
+        <button
+          type="button"
+          onClick={onResearch}
+          disabled={isLoading || !canResearch}
+          className="px-4 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {suggestions.length > 0 ? '키워드 다시 찾기' : '연관 키워드 찾기'}
+        </button>
+      </div>
+      {renderGroup('long-tail')}
+      {renderGroup('related')}
+      {suggestions.length > 0 && (
+        <p className="text-xs text-gray-500">경쟁 표시는 네이버 블로그 검색 결과 수 기준입니다. 결과 수가 적을수록 상위 노출이 쉽습니다.</p>
+      )}
+    </div>
+  );
+};
+
+export default KeywordResearchPanel;
@@ -3,13 +3,22 @@ import React from 'react';
 
 interface LoaderProps {
   message: string;
+  onCancel?: () => void;
 }
 
-const Loader: React.FC<LoaderProps> = ({ message }) => {
+const Loader: React.FC<LoaderProps> = ({ message, onCancel }) => {
   return (
     <div className="flex flex-col items-center justify-center gap-4 my-12 text-center">
       <div className="w-12 h-12 rounded-full animate-spin border-4 border-solid border-purple-500 border-t-transparent"></div>
       <p className="text-lg text-gray-300 font-medium">{message}</p>
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 transition-colors"
+        >
+          취소
+        </button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,83 @@
+import React, { useMemo } from 'react';
+import { parseMarkdown } from '../services/markdown';
+import type { MarkdownBlock, MarkdownInline, MarkdownList } from '../services/markdown';
+
+interface MarkdownViewProps {
+  text: string;
+  className?: string;
+}
+
+const HEADING_CLASS_NAMES = ['text-2xl', 'text-xl', 'text-lg', 'text-base', 'text-base', 'text-base'];
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode => nodes.map((node, index) => {
+  switch (node.type) {
+    case 'text': return <React.Fragment key={index}>{node.text}</React.Fragment>;
+    case 'strong': return <strong key={index} className="font-semibold text-gray-100">{renderInline(node.children)}</strong>;
+    case 'em': return <em key={index}>{renderInline(node.children)}</em>;
+    case 'del': return <del key={index}>{renderInline(node.children)}</del>;
+    case 'code': return <code key={index} className="bg-gray-900 rounded px-1 text-sm text-pink-300">{node.text}</code>;
+    case 'link': return <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="text-purple-300 underline">{renderInline(node.children)}</a>;
+  }
+});
+
+const renderLines = (lines: MarkdownInline[][]) =>
+  lines.map((line, index) => <React.Fragment key={index}>{index > 0 && <br />}{renderInline(line)}</React.Fragment>);
+
+const renderList = (list: MarkdownList, key?: React.Key) => {
+  const items = list.items.map((item, index) => (
+    <li key={index}>
+      {renderInline(item.children)}
+      {item.sublist && renderList(item.sublist)}
+    </li>
+  ));
+  return list.ordered
+    ? <ol key={key} start={list.start} className="list-decimal pl-6 space-y-1">{items}</ol>
+    : <ul key={key} className="list-disc pl-6 space-y-1">{items}</ul>;
+};
+
+const renderBlock = (block: MarkdownBlock, index: number) => {
+  switch (block.type) {
+    case 'heading': {
+      const Tag = `h${block.level}` as 'h1';
+      return <Tag key={index} className={`${HEADING_CLASS_NAMES[block.level - 1]} font-bold text-gray-100`}>{renderInline(block.children)}</Tag>;
+    }
+    case 'paragraph': return <p key={index}>{renderLines(block.lines)}</p>;
+    case 'quote': return <blockquote key={index} className="border-l-4 border-gray-600 pl-3 text-gray-400">{renderLines(block.lines)}</blockquote>;
+    case 'code': return <pre key={index} className="bg-gray-900 rounded-md p-3 text-sm overflow-x-auto"><code>{block.text}</code></pre>;
+    case 'rule': return <hr key={index} className="border-gray-600" />;
+    case 'list': return renderList(block, index);
+    case 'table':
+      return (
+        <div key={index} className="overflow-x-auto">
+          <table className="border-collapse text-sm">
+            <thead>
+              <tr>
+                {block.header.map((cell, column) => (
+                  <th key={column} style={{ textAlign: block.align[column] ?? undefined }} className="border border-gray-600 bg-gray-900/60 px-3 py-1.5 font-semibold">{renderInline(cell)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((cell, column) => (
+                    <td key={column} style={{ textAlign: block.align[column] ?? undefined }} className="border border-gray-600 px-3 py-1.5">{renderInline(cell)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+  }
+};
+
+/**
+ * Renders the Markdown the AI writes (headings, lists, tables, bold) instead of showing its syntax.
+ */
+const MarkdownView: React.FC<MarkdownViewProps> = ({ text, className = '' }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className={`space-y-3 ${className}`}>{blocks.map(renderBlock)}</div>;
+};
+
+export default MarkdownView;
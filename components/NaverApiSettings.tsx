@@ -1,21 +1,24 @@
 import React, { useState } from 'react';
+import type { NaverProxyMode } from '../types';
 import { InfoCircleIcon } from './icons';
 
 interface NaverApiSettingsProps {
-    onSave: (clientId: string, clientSecret: string) => void;
+    onSave: (clientId: string, clientSecret: string, proxyMode: NaverProxyMode) => void;
     initialClientId: string;
     initialClientSecret: string;
+    initialProxyMode: NaverProxyMode;
     onClose: () => void;
 }
 
-const NaverApiSettings: React.FC<NaverApiSettingsProps> = ({ onSave, initialClientId, initialClientSecret, onClose }) => {
+const NaverApiSettings: React.FC<NaverApiSettingsProps> = ({ onSave, initialClientId, initialClientSecret, initialProxyMode, onClose }) => {
+    const [proxyMode, setProxyMode] = useState<NaverProxyMode>(initialProxyMode);
     const [clientId, setClientId] = useState(initialClientId);
     const [clientSecret, setClientSecret] = useState(initialClientSecret);
     const [saved, setSaved] = useState(false);
 
     const handleSave = (e: React.FormEvent) => {
         e.preventDefault();
-        onSave(clientId, clientSecret);
+        onSave(clientId, clientSecret, proxyMode);
         setSaved(true);
         setTimeout(() => {
             setSaved(false);
@@ -27,6 +30,35 @@ const NaverApiSettings: React.FC<NaverApiSettingsProps> = ({ onSave, initialClie
         <div className="p-4 mb-6 bg-gray-900/70 border border-gray-700 rounded-lg">
             <h3 className="text-lg font-semibold text-gray-200 mb-3">Naver API 설정</h3>
             <form onSubmit={handleSave} className="space-y-4">
+                <div>
+                    <span className="block text-sm font-medium text-gray-300 mb-1">연결 방식</span>
+                    <div className="flex gap-4">
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                                type="radio"
+                                name="naverProxyMode"
+                                value="server"
+                                checked={proxyMode === 'server'}
+                                onChange={() => setProxyMode('server')}
+                                className="w-4 h-4 text-purple-600 bg-gray-700 border-gray-500 focus:ring-purple-500"
+                            />
+                            <span className="text-gray-200">자체 프록시 서버 (권장)</span>
+                        </label>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                                type="radio"
+                                name="naverProxyMode"
+                                value="public"
+                                checked={proxyMode === 'public'}
+                                onChange={() => setProxyMode('public')}
+                                className="w-4 h-4 text-purple-600 bg-gray-700 border-gray-500 focus:ring-purple-500"
+                            />
+                            <span className="text-gray-200">공개 프록시 + 내 API 키</span>
+                        </label>
+                    </div>
+                </div>
+                {proxyMode === 'public' && (
+                <>
                 <div>
                     <label htmlFor="naver-client-id" className="block text-sm font-medium text-gray-300 mb-1">
                         Client ID
@@ -53,17 +85,30 @@ const NaverApiSettings: React.FC<NaverApiSettingsProps> = ({ onSave, initialClie
                         placeholder="네이버 Client Secret을 입력하세요"
                     />
                 </div>
+                </>
+                )}
 
                 <div className="flex items-start p-3 bg-blue-900/50 border border-blue-700 text-blue-200 text-sm rounded-md">
                     <InfoCircleIcon className="w-5 h-5 mr-2 mt-0.5 flex-shrink-0" />
-                    <div>
-                        <p>
-                           API 키는 브라우저의 로컬 스토리지에 저장되며 외부로 전송되지 않습니다.
-                        </p>
-                         <p className="mt-2 font-semibold">
-                           참고: 이 앱은 브라우저의 CORS 정책을 우회하기 위해 공개 프록시 서버를 사용합니다. 이 방법은 개발 환경에서의 편의를 위한 것이며, 공개 프록시는 불안정하거나 예고 없이 변경될 수 있습니다. 실제 서비스에서는 자체 프록시 서버를 구축하는 것을 권장합니다.
-                        </p>
-                    </div>
+                    {proxyMode === 'server' ? (
+                        <div>
+                            <p>
+                               API 키는 서버의 환경 변수(NAVER_CLIENT_ID, NAVER_CLIENT_SECRET)로 설정되며 브라우저로 전달되지 않습니다.
+                            </p>
+                            <p className="mt-2">
+                               앱과 함께 실행되는 자체 프록시 서버가 네이버 API 요청을 대신 전달합니다.
+                            </p>
+                        </div>
+                    ) : (
+                        <div>
+                            <p>
+                               API 키는 브라우저의 로컬 스토리지에 저장되며, 요청 시 공개 프록시를 거쳐 네이버로 전송됩니다.
+                            </p>
+                             <p className="mt-2 font-semibold">
+                               참고: 공개 프록시는 불안정하거나 예고 없이 변경될 수 있으며, 제3자 서버를 통해 API 키가 전달됩니다. 가능하면 자체 프록시 서버를 사용하세요.
+                            </p>
+                        </div>
+                    )}
                 </div>
 
                 <div className="flex justify-end gap-3">
@@ -72,7 +117,7 @@ const NaverApiSettings: React.FC<NaverApiSettingsProps> = ({ onSave, initialClie
                     </button>
                     <button
                         type="submit"
-                        disabled={!clientId || !clientSecret}
+                        disabled={proxyMode === 'public' && (!clientId || !clientSecret)}
                         className="px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 disabled:cursor-not-allowed"
                     >
                         {saved ? '저장 완료!' : '설정 저장'}
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import type { NaverBlogItem } from '../types';
+import { checkSimilarity, sourcesFromNaverItems, TITLE_FLAG_THRESHOLD } from '../services/similarityCheck';
+import type { SentenceMatch, SimilarityReport, SimilaritySource } from '../services/similarityCheck';
+
+interface OriginalityPanelProps {
+  post: string;
+  titles: string[];
+  naverItems: NaverBlogItem[];
+  isLoading: boolean;
+  onRewrite: (sentences: string[]) => Promise<string[] | null>;
+  onApply: (text: string) => void;
+}
+
+const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const percentClassName = (rate: number) =>
+  rate >= 0.5 ? 'text-red-300' : rate >= 0.2 ? 'text-yellow-300' : 'text-green-300';
+
+const HighlightedSentence: React.FC<{ match: SentenceMatch }> = ({ match }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  match.overlaps.forEach(([start, end], index) => {
+    if (start > cursor) parts.push(match.sentence.slice(cursor, start));
+    parts.push(<mark key={index} className="bg-red-900/60 text-red-200 rounded px-0.5">{match.sentence.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  if (cursor < match.sentence.length) parts.push(match.sentence.slice(cursor));
+  return <>{parts}</>;
+};
+
+const OriginalityPanel: React.FC<OriginalityPanelProps> = ({ post, titles, naverItems, isLoading, onRewrite, onApply }) => {
+  const [competitorText, setCompetitorText] = useState<string>('');
+  const [report, setReport] = useState<SimilarityReport | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const buildSources = (): SimilaritySource[] => [
+    ...sourcesFromNaverItems(naverItems),
+    ...(competitorText.trim() ? [{ id: 'pasted', title: '붙여넣은 경쟁 글', text: competitorText }] : []),
+  ];
+
+  const runCheck = (text: string) => {
+    const next = checkSimilarity(text, titles, buildSources());
+    setReport(next);
+    setSelected(next.sentences.map(match => match.sentence));
+  };
+
+  const toggleSentence = (sentence: string) => {
+    setSelected(prev => prev.includes(sentence) ? prev.filter(s => s !== sentence) : [...prev, sentence]);
+  };
+
+  const handleRewrite = async () => {
+    const rewritten = await onRewrite(selected);
+    if (!rewritten) return;
+    let text = post;
+    selected.forEach((sentence, index) => {
+      // A replacer function, so a `$` in the rewrite is inserted as is rather than read as a pattern.
+      text = text.replace(sentence, () => rewritten[index]);
+    });
+    onApply(text);
+    runCheck(text);
+  };
+
+  const hasSources = naverItems.length > 0 || !!competitorText.trim();
+
+  return (
+    <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h4 className="font-semibold text-gray-200">유사 문서 검사</h4>
+          <p className="text-xs text-gray-400">
+            상위 노출 글 {naverItems.length}개의 제목·요약{competitorText.trim() ? '과 붙여넣은 경쟁 글' : ''}과 겹치는 문장을 찾습니다.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => runCheck(post)}
+          disabled={isLoading || !post.trim() || !hasSources}
+          className="px-4 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {report ? '다시 검사' : '유사도 검사'}
+        </button>
+      </div>
+
+      <details className="text-sm text-gray-400">
+        <summary className="cursor-pointer">경쟁 글 본문 붙여넣기 (선택 사항)</summary>
+        <textarea
+          value={competitorText}
+          onChange={(e) => setCompetitorText(e.target.value)}
+          rows={5}
+          placeholder="비교하고 싶은 상위 노출 글의 본문을 붙여넣으세요."
+          className="mt-2 w-full bg-gray-800 border border-gray-600 rounded-md p-2 text-sm text-gray-200 focus:ring-purple-500 focus:border-purple-500"
+          disabled={isLoading}
+        />
+      </details>
+
+      {report && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-300">
+            전체 유사도 <span className={`font-bold ${percentClassName(report.overall)}`}>{formatPercent(report.overall)}</span>
+            {report.sources[0] && report.sources[0].similarity > 0 && (
+              <> · 가장 비슷한 글: {report.sources[0].link
+                ? <a href={report.sources[0].link} target="_blank" rel="noopener noreferrer" className="text-purple-400 hover:underline">{report.sources[0].title}</a>
+                : report.sources[0].title} ({formatPercent(report.sources[0].similarity)})</>
+            )}
+          </p>
+
+          {report.titles.filter(match => match.similarity >= TITLE_FLAG_THRESHOLD).map(match => (
+            <p key={match.title} className="text-sm text-yellow-300">
+              제목 '{match.title}'이(가) 상위 글 제목 '{match.matchedTitle}'과(와) {formatPercent(match.similarity)} 비슷합니다.
+            </p>
+          ))}
+
+          {report.sentences.length === 0 ? (
+            <p className="text-sm text-green-300">경쟁 글과 많이 겹치는 문장이 없습니다.</p>
+          ) : (
+            <div className="space-y-2">
+              {report.sentences.map(match => (
+                <label key={match.sentence} className="flex gap-2 text-sm text-gray-300 bg-gray-800/60 rounded-md p-2">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(match.sentence)}
+                    onChange={() => toggleSentence(match.sentence)}
+                    disabled={isLoading}
+                    className="mt-1 accent-purple-500"
+                  />
+                  <span className="flex-1"><HighlightedSentence match={match} /></span>
+                  <span className={`shrink-0 font-semibold ${percentClassName(match.similarity)}`}>{formatPercent(match.similarity)}</span>
+                </label>
+              ))}
+              <button
+                type="button"
+                onClick={handleRewrite}
+                disabled={isLoading || selected.length === 0}
+                className="px-4 py-2 text-sm font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+              >
+                선택한 문장 {selected.length}개 AI로 다시 쓰기
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OriginalityPanel;
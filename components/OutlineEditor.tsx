@@ -0,0 +1,194 @@
+import React from 'react';
+import type { OutlineSection } from '../types';
+import { createOutlineSection } from '../services/outlineService';
+import { countCharacters } from '../services/seoLint';
+
+interface OutlineEditorProps {
+  sections: OutlineSection[];
+  isLoading: boolean;
+  onChange: (sections: OutlineSection[]) => void;
+  onWriteSections: (ids: string[]) => void;
+  onFinish: () => void;
+  onRegenerate: () => void;
+  onSkipOutline: () => void;
+}
+
+const inputClassName = "w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200 focus:ring-purple-500 focus:border-purple-500";
+const smallButtonClassName = "px-2 py-1 text-xs font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors";
+
+const STATUS_LABELS: Record<NonNullable<OutlineSection['jobStatus']>, string> = {
+  queued: '대기 중',
+  running: '작성 중...',
+  failed: '실패',
+  done: '작성 완료',
+};
+
+const OutlineEditor: React.FC<OutlineEditorProps> = ({
+  sections,
+  isLoading,
+  onChange,
+  onWriteSections,
+  onFinish,
+  onRegenerate,
+  onSkipOutline,
+}) => {
+  const update = (id: string, patch: Partial<OutlineSection>) =>
+    onChange(sections.map(section => section.id === id ? { ...section, ...patch } : section));
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= sections.length) return;
+    const next = [...sections];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const remove = (id: string) => onChange(sections.filter(section => section.id !== id));
+
+  const insertAfter = (index: number) => {
+    const next = [...sections];
+    next.splice(index + 1, 0, createOutlineSection({ heading: '새 섹션' }));
+    onChange(next);
+  };
+
+  const unwritten = sections.filter(section => !section.content?.trim());
+  const canFinish = sections.length > 0 && unwritten.length === 0 && sections.every(section => section.heading.trim());
+  const totalChars = sections.reduce((sum, section) => sum + countCharacters(section.content ?? ''), 0);
+  const imageCount = sections.filter(section => section.hasImage).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-400">
+        <span>섹션 {sections.length}개 · 이미지 {imageCount}장 · 작성 {sections.length - unwritten.length}/{sections.length} · 공백 제외 {totalChars.toLocaleString('ko-KR')}자</span>
+        <div className="flex gap-2">
+          <button type="button" onClick={onRegenerate} disabled={isLoading} className={smallButtonClassName}>
+            개요 다시 만들기
+          </button>
+          <button type="button" onClick={onSkipOutline} disabled={isLoading} className={smallButtonClassName}>
+            개요 없이 전체 글 바로 쓰기
+          </button>
+        </div>
+      </div>
+
+      {sections.map((section, index) => (
+        <div key={section.id} className={`bg-gray-900/50 rounded-lg border border-gray-700 p-4 space-y-3 ${section.level === 3 ? 'ml-6' : ''}`}>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={section.level}
+              onChange={(e) => update(section.id, { level: Number(e.target.value) as 2 | 3 })}
+              className="bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200"
+              disabled={isLoading}
+              aria-label="소제목 단계"
+            >
+              <option value={2}>H2</option>
+              <option value={3}>H3</option>
+            </select>
+            <input
+              type="text"
+              value={section.heading}
+              onChange={(e) => update(section.id, { heading: e.target.value })}
+              placeholder="소제목"
+              className={`${inputClassName} flex-1 min-w-[12rem] font-semibold`}
+              disabled={isLoading}
+            />
+            <button type="button" onClick={() => move(index, -1)} disabled={isLoading || index === 0} className={smallButtonClassName} aria-label="위로 이동">↑</button>
+            <button type="button" onClick={() => move(index, 1)} disabled={isLoading || index === sections.length - 1} className={smallButtonClassName} aria-label="아래로 이동">↓</button>
+            <button type="button" onClick={() => remove(section.id)} disabled={isLoading} className={`${smallButtonClassName} hover:text-red-300`}>삭제</button>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">핵심 내용 (한 줄에 하나)</label>
+            <textarea
+              value={section.keyPoints.join('\n')}
+              onChange={(e) => update(section.id, { keyPoints: e.target.value.split('\n') })}
+              onBlur={() => update(section.id, { keyPoints: section.keyPoints.map(point => point.trim()).filter(Boolean) })}
+              rows={Math.max(2, section.keyPoints.length)}
+              className={inputClassName}
+              disabled={isLoading}
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="inline-flex items-center gap-1.5 text-sm text-gray-300 shrink-0">
+              <input
+                type="checkbox"
+                checked={section.hasImage}
+                onChange={() => update(section.id, { hasImage: !section.hasImage })}
+                disabled={isLoading}
+                className="accent-purple-500"
+              />
+              이 섹션부터 새 이미지
+            </label>
+            {section.hasImage && (
+              <input
+                type="text"
+                value={section.imageHint ?? ''}
+                onChange={(e) => update(section.id, { imageHint: e.target.value })}
+                placeholder="어떤 이미지가 어울릴까요? (메모)"
+                className={`${inputClassName} flex-1 min-w-[12rem]`}
+                disabled={isLoading}
+              />
+            )}
+          </div>
+
+          {section.content !== undefined && (
+            <textarea
+              value={section.content}
+              onChange={(e) => update(section.id, { content: e.target.value })}
+              rows={6}
+              className={inputClassName}
+              disabled={isLoading}
+            />
+          )}
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className={`text-xs ${section.jobStatus === 'failed' ? 'text-red-300' : 'text-gray-500'}`}>
+              {section.jobStatus ? STATUS_LABELS[section.jobStatus] : section.content?.trim() ? `공백 제외 ${countCharacters(section.content).toLocaleString('ko-KR')}자` : '아직 작성하지 않았습니다.'}
+              {section.jobStatus === 'failed' && section.jobError ? ` · ${section.jobError}` : ''}
+            </span>
+            <div className="flex gap-2">
+              <button type="button" onClick={() => insertAfter(index)} disabled={isLoading} className={smallButtonClassName}>
+                + 아래에 섹션 추가
+              </button>
+              <button
+                type="button"
+                onClick={() => onWriteSections([section.id])}
+                disabled={isLoading || !section.heading.trim()}
+                className="px-3 py-1 text-xs font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+              >
+                {section.content?.trim() ? '다시 쓰기' : '이 섹션 쓰기'}
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {sections.length === 0 && (
+        <button type="button" onClick={() => insertAfter(-1)} disabled={isLoading} className={smallButtonClassName}>
+          + 섹션 추가
+        </button>
+      )}
+
+      <div className="flex flex-wrap justify-end gap-3 pt-2">
+        <button
+          type="button"
+          onClick={() => onWriteSections(unwritten.map(section => section.id))}
+          disabled={isLoading || unwritten.length === 0}
+          className="px-4 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          작성하지 않은 섹션 모두 쓰기 ({unwritten.length})
+        </button>
+        <button
+          type="button"
+          onClick={onFinish}
+          disabled={isLoading || !canFinish}
+          className="px-6 py-2 text-sm font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+        >
+          초안 완성하기
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default OutlineEditor;
@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react';
+import { countChanges, diffWords } from '../services/textDiff';
+
+interface PersonalizationReviewProps {
+  blogName: string;
+  original: string;
+  personalized: string;
+  onAccept: () => void;
+  onReject: () => void;
+  onBack: () => void;
+}
+
+const PersonalizationReview: React.FC<PersonalizationReviewProps> = ({
+  blogName,
+  original,
+  personalized,
+  onAccept,
+  onReject,
+  onBack,
+}) => {
+  const segments = useMemo(() => diffWords(original, personalized), [original, personalized]);
+  const changeCount = countChanges(segments);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-xl font-semibold text-gray-200">'{blogName}' 반영 내용 확인</h3>
+        <p className="text-sm text-gray-400 mt-1">
+          {changeCount > 0
+            ? <>AI가 바꾼 부분 {changeCount}곳입니다. <span className="text-green-300">추가된 부분</span>과 <span className="text-red-300 line-through">삭제된 부분</span>을 확인하세요.</>
+            : '변경된 내용이 없습니다.'}
+        </p>
+      </div>
+      <div className="bg-gray-900 border border-gray-600 rounded-md p-4 max-h-[28rem] overflow-y-auto whitespace-pre-wrap text-gray-300 leading-relaxed">
+        {segments.map((segment, index) => {
+          if (segment.type === 'added') {
+            return <ins key={index} className="no-underline bg-green-900/60 text-green-200 rounded px-0.5">{segment.text}</ins>;
+          }
+          if (segment.type === 'removed') {
+            return <del key={index} className="bg-red-900/50 text-red-300 rounded px-0.5">{segment.text}</del>;
+          }
+          return <span key={index}>{segment.text}</span>;
+        })}
+      </div>
+      <div className="flex flex-wrap justify-end gap-3">
+        <button
+          onClick={onBack}
+          className="px-4 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 transition-colors"
+        >
+          다시 편집하기
+        </button>
+        <button
+          onClick={onReject}
+          className="px-4 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 transition-colors"
+        >
+          원문 그대로 진행
+        </button>
+        <button
+          onClick={onAccept}
+          className="px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 transition-colors"
+        >
+          변경 사항 적용 후 진행
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PersonalizationReview;
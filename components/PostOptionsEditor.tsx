@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import type { OutputLanguage, PostGenerationOptions, PostOptionsPreset, PostSection, PostTone } from '../types';
+import { SECTION_LABELS, TONE_LABELS } from '../services/postOptions';
+import { OUTPUT_LANGUAGE_LABELS } from '../services/languages';
+
+interface PostOptionsEditorProps {
+  options: PostGenerationOptions;
+  presets: PostOptionsPreset[];
+  isLoading: boolean;
+  onChange: (options: PostGenerationOptions) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+}
+
+const inputClassName = "w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200 focus:ring-purple-500 focus:border-purple-500";
+const labelClassName = "block text-xs font-medium text-gray-400 mb-1";
+
+const PostOptionsEditor: React.FC<PostOptionsEditorProps> = ({
+  options,
+  presets,
+  isLoading,
+  onChange,
+  onSavePreset,
+  onDeletePreset,
+}) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [presetName, setPresetName] = useState<string>('');
+  const [bannedDraft, setBannedDraft] = useState<string>(options.bannedPhrases.join(', '));
+
+  const update = (patch: Partial<PostGenerationOptions>) => onChange({ ...options, ...patch });
+
+  const toggleSection = (section: PostSection) => {
+    update({
+      sections: options.sections.includes(section)
+        ? options.sections.filter(s => s !== section)
+        : [...options.sections, section],
+    });
+  };
+
+  const applyPreset = (preset: PostOptionsPreset) => {
+    onChange(preset.options);
+    setBannedDraft(preset.options.bannedPhrases.join(', '));
+  };
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return;
+    onSavePreset(presetName.trim());
+    setPresetName('');
+  };
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg border border-gray-700 mb-6">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex justify-between items-center p-4 text-left text-sm text-gray-300 hover:text-white"
+      >
+        <span>
+          <span className="font-semibold">글 작성 옵션</span>
+          <span className="text-gray-500 ml-2">
+            {OUTPUT_LANGUAGE_LABELS[options.language]} · {TONE_LABELS[options.tone]} · {options.minLength.toLocaleString('ko-KR')}~{options.maxLength.toLocaleString('ko-KR')}자
+            {options.audience.trim() ? ` · ${options.audience.trim()}` : ''}
+          </span>
+        </span>
+        <span>{isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="p-4 pt-0 space-y-4">
+          {presets.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {presets.map(preset => (
+                <span key={preset.id} className="inline-flex items-center rounded-md border border-gray-600 bg-gray-800 text-xs text-gray-300">
+                  <button type="button" onClick={() => applyPreset(preset)} disabled={isLoading} className="px-2 py-1 hover:text-white">
+                    {preset.name}
+                  </button>
+                  <button type="button" onClick={() => onDeletePreset(preset.id)} className="px-1.5 py-1 text-gray-500 hover:text-red-300" aria-label={`${preset.name} 프리셋 삭제`}>
+                    ✕
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClassName}>작성 언어</label>
+              <select value={options.language} onChange={(e) => update({ language: e.target.value as OutputLanguage })} className={inputClassName} disabled={isLoading}>
+                {(Object.keys(OUTPUT_LANGUAGE_LABELS) as OutputLanguage[]).map(language => <option key={language} value={language}>{OUTPUT_LANGUAGE_LABELS[language]}</option>)}
+              </select>
+              {options.language !== 'ko' && (
+                <p className="text-xs text-gray-500 mt-1">주제, 글, 대체 텍스트가 이 언어로 작성됩니다. 말투는 가장 가까운 표현으로 바뀝니다.</p>
+              )}
+            </div>
+            <div>
+              <label className={labelClassName}>말투</label>
+              <select value={options.tone} onChange={(e) => update({ tone: e.target.value as PostTone })} className={inputClassName} disabled={isLoading}>
+                {(Object.keys(TONE_LABELS) as PostTone[]).map(tone => <option key={tone} value={tone}>{TONE_LABELS[tone]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClassName}>대상 독자</label>
+              <input
+                type="text"
+                value={options.audience}
+                onChange={(e) => update({ audience: e.target.value })}
+                placeholder="예: 아이와 여행하는 30대 부모"
+                className={inputClassName}
+                disabled={isLoading}
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>목표 분량 (공백 제외 글자 수)</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={300}
+                  step={100}
+                  value={options.minLength}
+                  onChange={(e) => update({ minLength: Number(e.target.value) || 0 })}
+                  className={inputClassName}
+                  disabled={isLoading}
+                />
+                <span className="text-gray-500">~</span>
+                <input
+                  type="number"
+                  min={300}
+                  step={100}
+                  value={options.maxLength}
+                  onChange={(e) => update({ maxLength: Number(e.target.value) || 0 })}
+                  className={inputClassName}
+                  disabled={isLoading}
+                />
+              </div>
+            </div>
+            <div>
+              <label className={labelClassName}>서식</label>
+              <div className="flex gap-4 pt-2">
+                <label className="inline-flex items-center gap-1.5 text-sm text-gray-300">
+                  <input type="checkbox" checked={options.useLists} onChange={() => update({ useLists: !options.useLists })} disabled={isLoading} className="accent-purple-500" />
+                  목록 사용
+                </label>
+                <label className="inline-flex items-center gap-1.5 text-sm text-gray-300">
+                  <input type="checkbox" checked={options.useTables} onChange={() => update({ useTables: !options.useTables })} disabled={isLoading} className="accent-purple-500" />
+                  표 사용
+                </label>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClassName}>반드시 포함할 섹션</label>
+            <div className="flex flex-wrap gap-4">
+              {(Object.keys(SECTION_LABELS) as PostSection[]).map(section => (
+                <label key={section} className="inline-flex items-center gap-1.5 text-sm text-gray-300">
+                  <input type="checkbox" checked={options.sections.includes(section)} onChange={() => toggleSection(section)} disabled={isLoading} className="accent-purple-500" />
+                  {SECTION_LABELS[section]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClassName}>금지 표현 (쉼표로 구분)</label>
+            <input
+              type="text"
+              value={bannedDraft}
+              onChange={(e) => setBannedDraft(e.target.value)}
+              onBlur={() => update({ bannedPhrases: bannedDraft.split(',').map(p => p.trim()).filter(Boolean) })}
+              placeholder="예: 강력 추천, 무조건, 최고의"
+              className={inputClassName}
+              disabled={isLoading}
+            />
+          </div>
+
+          {options.minLength > options.maxLength && (
+            <p className="text-xs text-red-300">최소 분량이 최대 분량보다 큽니다.</p>
+          )}
+
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="프리셋 이름"
+              className={inputClassName}
+              disabled={isLoading}
+            />
+            <button
+              type="button"
+              onClick={handleSavePreset}
+              disabled={isLoading || !presetName.trim()}
+              className="shrink-0 px-3 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              현재 옵션을 프리셋으로 저장
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PostOptionsEditor;
@@ -0,0 +1,150 @@
+import React, { useRef } from 'react';
+import type { AppStep, BlogProject } from '../types';
+import { DownloadIcon } from './icons';
+
+interface ProjectManagerProps {
+    projects: BlogProject[];
+    currentProjectId: string | null;
+    currentProjectName: string;
+    lastSavedAt: number | null;
+    onRename: (name: string) => void;
+    onOpen: (project: BlogProject) => void;
+    onDelete: (id: string) => void;
+    onExport: (project: BlogProject) => void;
+    onImport: (file: File) => void;
+    onNew: () => void;
+    onClose: () => void;
+    isLoading: boolean;
+    busyProjectIds: string[]; // Projects a running batch is writing to; they cannot be opened or deleted until it stops
+}
+
+const STEP_LABELS: Record<AppStep, string> = {
+    GENERATE_TOPIC: '1. 주제 정하기',
+    EDIT_OUTLINE: '2. 개요 편집',
+    VISUALIZE_POST: '3. 글 시각화 준비',
+    CUSTOMIZE_IMAGES: '4. 이미지 설정',
+    VIEW_RESULTS: '완료',
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString('ko-KR');
+
+const ProjectManager: React.FC<ProjectManagerProps> = ({
+    projects,
+    currentProjectId,
+    currentProjectName,
+    lastSavedAt,
+    onRename,
+    onOpen,
+    onDelete,
+    onExport,
+    onImport,
+    onNew,
+    onClose,
+    isLoading,
+    busyProjectIds,
+}) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) {
+            onImport(file);
+        }
+        e.target.value = '';
+    };
+
+    const handleDelete = (project: BlogProject) => {
+        if (confirm(`'${project.name}' 프로젝트를 삭제할까요? 이 작업은 되돌릴 수 없습니다.`)) {
+            onDelete(project.id);
+        }
+    };
+
+    return (
+        <div className="p-4 mb-6 bg-gray-900/70 border border-gray-700 rounded-lg text-left">
+            <div className="flex justify-between items-center mb-3">
+                <h3 className="text-lg font-semibold text-gray-200">프로젝트</h3>
+                <button onClick={onClose} className="text-sm text-gray-400 hover:text-white transition-colors">닫기</button>
+            </div>
+
+            <div className="mb-4">
+                <label htmlFor="project-name" className="block text-sm font-medium text-gray-300 mb-1">
+                    현재 프로젝트 이름
+                </label>
+                <input
+                    type="text"
+                    id="project-name"
+                    value={currentProjectName}
+                    onChange={(e) => onRename(e.target.value)}
+                    placeholder="키워드 분석을 시작하면 자동으로 저장됩니다"
+                    className="w-full bg-gray-800 border border-gray-600 rounded-md shadow-sm p-2 text-gray-200 focus:ring-purple-500 focus:border-purple-500"
+                    disabled={!currentProjectId}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                    {lastSavedAt ? `자동 저장됨: ${formatTime(lastSavedAt)}` : '아직 저장되지 않았습니다.'}
+                </p>
+            </div>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+                <button
+                    onClick={onNew}
+                    disabled={isLoading}
+                    className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500"
+                >
+                    새 프로젝트
+                </button>
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isLoading}
+                    className="px-3 py-1.5 text-sm font-medium rounded-md border border-gray-600 text-gray-300 bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+                >
+                    JSON 파일 가져오기
+                </button>
+                <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImportChange} className="hidden" />
+            </div>
+
+            {projects.length === 0 ? (
+                <p className="text-sm text-gray-400">저장된 프로젝트가 없습니다.</p>
+            ) : (
+                <ul className="divide-y divide-gray-700 max-h-80 overflow-y-auto">
+                    {projects.map(project => (
+                        <li key={project.id} className="py-2 flex items-center gap-3">
+                            <div className="flex-grow min-w-0">
+                                <p className={`truncate ${project.id === currentProjectId ? 'text-purple-300 font-semibold' : 'text-gray-200'}`}>
+                                    {project.name}
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                    {STEP_LABELS[project.step]} · {formatTime(project.updatedAt)}
+                                    {busyProjectIds.includes(project.id) && <span className="ml-2 text-blue-300">일괄 생성 중</span>}
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => onOpen(project)}
+                                disabled={isLoading || project.id === currentProjectId || busyProjectIds.includes(project.id)}
+                                className="px-3 py-1 text-xs font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:bg-gray-500"
+                            >
+                                열기
+                            </button>
+                            <button
+                                onClick={() => onExport(project)}
+                                className="p-1 text-gray-400 hover:text-white"
+                                aria-label="JSON으로 내보내기"
+                                title="JSON으로 내보내기"
+                            >
+                                <DownloadIcon className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => handleDelete(project)}
+                                disabled={isLoading || busyProjectIds.includes(project.id)}
+                                className="px-2 py-1 text-xs text-red-400 hover:text-red-300 disabled:opacity-50"
+                            >
+                                삭제
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default ProjectManager;
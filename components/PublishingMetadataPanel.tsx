@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import type { PublishingMetadata } from '../types';
+import {
+  EMPTY_PUBLISHING_METADATA,
+  MAX_HASHTAGS,
+  MIN_HASHTAGS,
+  NAVER_BLOG_CATEGORIES,
+  SUMMARY_MAX_CHARS,
+  formatHashtags,
+  formatMetadataBlock,
+  hasPublishingMetadata,
+  parseHashtags,
+} from '../services/publishingMetadata';
+import { ClipboardIcon, CheckIcon } from './icons';
+
+interface PublishingMetadataPanelProps {
+  metadata: PublishingMetadata | null;
+  onGenerate: () => Promise<void>;
+  onChange: (metadata: PublishingMetadata) => void;
+}
+
+const inputClassName = "w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200 focus:ring-purple-500 focus:border-purple-500";
+const labelClassName = "block text-xs font-medium text-gray-400 mb-1";
+
+const PublishingMetadataPanel: React.FC<PublishingMetadataPanelProps> = ({ metadata, onGenerate, onChange }) => {
+  const [isGenerating, setIsGenerating] = useState<boolean>(false);
+  const [isCopied, setIsCopied] = useState<boolean>(false);
+  const current = metadata ?? EMPTY_PUBLISHING_METADATA;
+  const [hashtagDraft, setHashtagDraft] = useState<string>(formatHashtags(current.hashtags));
+
+  useEffect(() => {
+    setHashtagDraft(formatHashtags(metadata?.hashtags ?? []));
+  }, [metadata?.hashtags]);
+
+  const update = (patch: Partial<PublishingMetadata>) => onChange({ ...current, ...patch });
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      await onGenerate();
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatMetadataBlock(current));
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2500);
+    } catch (err) {
+      console.error('발행 정보 복사 실패:', err);
+      alert('클립보드에 발행 정보를 복사하지 못했습니다.');
+    }
+  };
+
+  const tagCount = current.hashtags.length;
+
+  return (
+    <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h4 className="font-semibold text-gray-200">발행 정보</h4>
+          <p className="text-xs text-gray-400">해시태그, 검색 요약, 다른 제목, 카테고리를 글과 키워드 분석에서 만듭니다. 모든 내보내기에 포함됩니다.</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={handleGenerate}
+            disabled={isGenerating}
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+          >
+            {isGenerating ? '만드는 중...' : hasPublishingMetadata(metadata) ? '다시 만들기' : 'AI로 만들기'}
+          </button>
+          <button
+            type="button"
+            onClick={handleCopy}
+            disabled={!hasPublishingMetadata(metadata)}
+            className="inline-flex items-center gap-2 px-4 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isCopied ? <CheckIcon className="w-4 h-4 text-green-400" /> : <ClipboardIcon className="w-4 h-4" />}
+            {isCopied ? '복사 완료!' : '한 번에 복사'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className={labelClassName}>다른 제목 후보</label>
+          <input type="text" value={current.altTitle} onChange={(e) => update({ altTitle: e.target.value })} className={inputClassName} disabled={isGenerating} />
+        </div>
+        <div>
+          <label className={labelClassName}>카테고리 (블로그 주제)</label>
+          <input
+            type="text"
+            list="naver-blog-categories"
+            value={current.category}
+            onChange={(e) => update({ category: e.target.value })}
+            className={inputClassName}
+            disabled={isGenerating}
+          />
+          <datalist id="naver-blog-categories">
+            {NAVER_BLOG_CATEGORIES.map(category => <option key={category} value={category} />)}
+          </datalist>
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClassName}>
+          검색 요약 <span className={current.summary.length > SUMMARY_MAX_CHARS ? 'text-yellow-300' : ''}>({current.summary.length}/{SUMMARY_MAX_CHARS}자)</span>
+        </label>
+        <textarea value={current.summary} onChange={(e) => update({ summary: e.target.value })} rows={2} className={inputClassName} disabled={isGenerating} />
+      </div>
+
+      <div>
+        <label className={labelClassName}>
+          해시태그 <span className={tagCount < MIN_HASHTAGS ? 'text-yellow-300' : ''}>({tagCount}개, {MIN_HASHTAGS}~{MAX_HASHTAGS}개 권장)</span>
+        </label>
+        <textarea
+          value={hashtagDraft}
+          onChange={(e) => setHashtagDraft(e.target.value)}
+          onBlur={() => update({ hashtags: parseHashtags(hashtagDraft) })}
+          rows={3}
+          placeholder="#제주맛집 #제주여행"
+          className={inputClassName}
+          disabled={isGenerating}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default PublishingMetadataPanel;
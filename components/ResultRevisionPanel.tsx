@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import type { Result } from '../types';
+import { readUploadedImage } from '../services/imageService';
+import { getResultHistory, listVersions, snapshotResult } from '../services/versionHistory';
+import VersionHistoryPanel from './VersionHistoryPanel';
+
+interface ResultRevisionPanelProps {
+    result: Result;
+    onRegenerateImage: (prompt: string) => void;
+    onImageVariation: () => void;
+    onReplaceImage: (imageUrl: string) => void;
+    onRewriteParagraph: (instruction: string) => void;
+    onEditParagraph: (paragraph: string) => void;
+    onMoveVersion: (offset: number) => void;
+}
+
+type RevisionMode = 'prompt' | 'rewrite' | 'edit' | null;
+
+const buttonClassName = "px-3 py-1.5 border border-gray-600 text-xs font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+const activeButtonClassName = "px-3 py-1.5 border border-purple-500 text-xs font-medium rounded-md text-white bg-purple-700 transition-colors";
+
+const ResultRevisionPanel: React.FC<ResultRevisionPanelProps> = ({
+    result,
+    onRegenerateImage,
+    onImageVariation,
+    onReplaceImage,
+    onRewriteParagraph,
+    onEditParagraph,
+    onMoveVersion,
+}) => {
+    const [mode, setMode] = useState<RevisionMode>(null);
+    const [promptDraft, setPromptDraft] = useState<string>(result.prompt);
+    const [paragraphDraft, setParagraphDraft] = useState<string>(result.paragraph);
+    const [instruction, setInstruction] = useState<string>('');
+    const isBusy = result.jobStatus === 'running';
+    // The alt text and caption are compared along with the paragraph.
+    const versions = listVersions(getResultHistory(result), snapshotResult(result, '')).map(({ version, label, offset }) => ({
+        label,
+        offset,
+        createdAt: version.createdAt,
+        imageUrl: version.imageUrl,
+        text: [version.paragraph, version.altText && `대체 텍스트: ${version.altText}`, version.caption && `캡션: ${version.caption}`].filter(Boolean).join('\n\n'),
+    }));
+
+    const toggleMode = (next: RevisionMode) => {
+        if (next === 'prompt') setPromptDraft(result.prompt);
+        if (next === 'edit') setParagraphDraft(result.paragraph);
+        setMode(mode === next ? null : next);
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            onReplaceImage(await readUploadedImage(file));
+        } catch (error) {
+            console.error("Error converting file to base64", error);
+            alert(error instanceof Error && error.message ? error.message : '이미지 파일을 읽지 못했습니다.');
+        }
+    };
+
+    return (
+        <div className="mt-4 pt-4 border-t border-gray-700 w-full">
+            <div className="flex flex-wrap gap-2">
+                <button onClick={() => toggleMode('prompt')} disabled={isBusy} className={mode === 'prompt' ? activeButtonClassName : buttonClassName}>
+                    프롬프트 수정 후 재생성
+                </button>
+                <button onClick={onImageVariation} disabled={isBusy} className={buttonClassName}>
+                    다른 버전으로 다시 뽑기
+                </button>
+                <label className={`${buttonClassName} cursor-pointer ${isBusy ? 'pointer-events-none opacity-50' : ''}`}>
+                    이미지 교체
+                    <input type="file" accept="image/png, image/jpeg, image/webp, image/heic, image/heif, .heic, .heif" onChange={handleFileChange} className="hidden" disabled={isBusy} />
+                </label>
+                <button onClick={() => toggleMode('rewrite')} disabled={isBusy} className={mode === 'rewrite' ? activeButtonClassName : buttonClassName}>
+                    단락 다시 쓰기
+                </button>
+                <button onClick={() => toggleMode('edit')} disabled={isBusy} className={mode === 'edit' ? activeButtonClassName : buttonClassName}>
+                    단락 직접 수정
+                </button>
+            </div>
+
+            {isBusy && <p className="mt-3 text-sm text-blue-300 animate-pulse">AI가 작업 중입니다...</p>}
+            {result.jobStatus === 'failed' && result.jobError && (
+                <p className="mt-3 text-sm text-red-300">{result.jobError}</p>
+            )}
+
+            {/* Drafts are not versioned until they are applied, so the browser's own undo works in them. */}
+            {mode === 'prompt' && (
+                <div className="mt-3 space-y-2" onKeyDown={(e) => e.stopPropagation()}>
+                    <textarea
+                        value={promptDraft}
+                        onChange={(e) => setPromptDraft(e.target.value)}
+                        rows={3}
+                        placeholder="이미지 생성 프롬프트 (영어 권장)"
+                        className="w-full bg-gray-800 border border-gray-600 rounded-md p-2 text-sm text-gray-200 focus:ring-purple-500 focus:border-purple-500"
+                        disabled={isBusy}
+                    />
+                    <button
+                        onClick={() => { onRegenerateImage(promptDraft); setMode(null); }}
+                        disabled={isBusy || !promptDraft.trim()}
+                        className="px-3 py-1.5 text-xs font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500"
+                    >
+                        이 프롬프트로 이미지 재생성
+                    </button>
+                </div>
+            )}
+
+            {mode === 'rewrite' && (
+                <div className="mt-3 space-y-2" onKeyDown={(e) => e.stopPropagation()}>
+                    <input
+                        type="text"
+                        value={instruction}
+                        onChange={(e) => setInstruction(e.target.value)}
+                        placeholder="예: 더 간결하게, 가격 정보를 강조해줘"
+                        className="w-full bg-gray-800 border border-gray-600 rounded-md p-2 text-sm text-gray-200 focus:ring-purple-500 focus:border-purple-500"
+                        disabled={isBusy}
+                    />
+                    <button
+                        onClick={() => { onRewriteParagraph(instruction); setInstruction(''); setMode(null); }}
+                        disabled={isBusy || !instruction.trim()}
+                        className="px-3 py-1.5 text-xs font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500"
+                    >
+                        지시대로 다시 쓰기
+                    </button>
+                </div>
+            )}
+
+            {mode === 'edit' && (
+                <div className="mt-3 space-y-2" onKeyDown={(e) => e.stopPropagation()}>
+                    <textarea
+                        value={paragraphDraft}
+                        onChange={(e) => setParagraphDraft(e.target.value)}
+                        rows={6}
+                        className="w-full bg-gray-800 border border-gray-600 rounded-md p-2 text-sm text-gray-200 focus:ring-purple-500 focus:border-purple-500"
+                        disabled={isBusy}
+                    />
+                    <button
+                        onClick={() => { onEditParagraph(paragraphDraft); setMode(null); }}
+                        disabled={isBusy || !paragraphDraft.trim() || paragraphDraft === result.paragraph}
+                        className="px-3 py-1.5 text-xs font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500"
+                    >
+                        수정 내용 저장
+                    </button>
+                </div>
+            )}
+
+            <div className="mt-3">
+                <VersionHistoryPanel versions={versions} onMove={onMoveVersion} disabled={isBusy} />
+            </div>
+        </div>
+    );
+};
+
+export default ResultRevisionPanel;
@@ -1,19 +1,193 @@
-import React, { useState } from 'react';
-import type { Result } from '../types';
+import React, { useEffect, useState } from 'react';
+import type { ImageDescription, ImageProcessingOptions, OutputLanguage, PublishingMetadata, Result } from '../types';
+import {
+  buildExportZip,
+  buildMarkdown,
+  copyHtmlToClipboard,
+  copyMarkdownToClipboard,
+  copyPlainTextToClipboard,
+  downloadFile,
+  getImageFileName,
+  toSafeFileName,
+} from '../services/exportService';
+import type { CopyFormat, ExportDocument } from '../services/exportService';
+import { dataUrlByteSize, processImage } from '../services/imageService';
+import { getHistoryShortcut } from '../services/versionHistory';
+import { OUTPUT_LANGUAGE_LABELS } from '../services/languages';
+import ResultRevisionPanel from './ResultRevisionPanel';
+import SeoLintPanel from './SeoLintPanel';
+import PublishingMetadataPanel from './PublishingMetadataPanel';
+import ImageProcessingPanel from './ImageProcessingPanel';
+import ImageDescriptionFields from './ImageDescriptionFields';
+import MarkdownView from './MarkdownView';
 import { LightBulbIcon, ClipboardIcon, CheckIcon, DownloadIcon } from './icons';
 
 interface ResultsDisplayProps {
   results: Result[];
+  title?: string;
+  mainKeyword?: string;
+  blogName?: string;
+  language: OutputLanguage; // The language the post is written in
+  metadata: PublishingMetadata | null;
+  imageProcessing: ImageProcessingOptions;
+  onChangeImageProcessing: (options: ImageProcessingOptions) => void;
+  onGenerateMetadata: () => Promise<void>;
+  onChangeMetadata: (metadata: PublishingMetadata) => void;
+  onChangeResult: (index: number, patch: Partial<ImageDescription>) => void;
+  onGenerateImageDescriptions: (indices: number[]) => Promise<void>;
+  onRegenerateImage: (index: number, prompt: string) => void;
+  onImageVariation: (index: number) => void;
+  onReplaceImage: (index: number, imageUrl: string) => void;
+  onRewriteParagraph: (index: number, instruction: string) => void;
+  onEditParagraph: (index: number, paragraph: string) => void;
+  onMoveVersion: (index: number, offset: number) => void;
+  onCreateTranslatedEdition: (language: OutputLanguage) => void;
 }
 
-const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ results }) => {
-  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
+  results,
+  title,
+  mainKeyword = '',
+  blogName = '',
+  language,
+  metadata,
+  imageProcessing,
+  onChangeImageProcessing,
+  onGenerateMetadata,
+  onChangeMetadata,
+  onChangeResult,
+  onGenerateImageDescriptions,
+  onRegenerateImage,
+  onImageVariation,
+  onReplaceImage,
+  onRewriteParagraph,
+  onEditParagraph,
+  onMoveVersion,
+  onCreateTranslatedEdition,
+}) => {
+  const [copied, setCopied] = useState<{ index: number; format: CopyFormat } | null>(null);
+  const [copiedAll, setCopiedAll] = useState<CopyFormat | null>(null);
+  // Indices into `results` whose alt text and caption are being written.
+  const [describing, setDescribing] = useState<number[]>([]);
+  const editionLanguages = (Object.keys(OUTPUT_LANGUAGE_LABELS) as OutputLanguage[]).filter(option => option !== language);
+  const [editionLanguageChoice, setEditionLanguage] = useState<OutputLanguage>(editionLanguages[0]);
+  // Opening an edition keeps this view mounted, so the choice may now be the post's own language.
+  const editionLanguage = editionLanguages.includes(editionLanguageChoice) ? editionLanguageChoice : editionLanguages[0];
 
-  const handleCopyParagraph = async (text: string, index: number) => {
+  // Keep each card's index into `results` so revisions update the right item.
+  const doneEntries = results
+    .map((result, resultIndex) => ({ result, resultIndex }))
+    .filter(({ result }) => result.editStatus === 'done' && result.imageUrl);
+  const doneResults = doneEntries.map(({ result }) => result);
+  const exportBaseName = toSafeFileName(title || '', 'blog_post');
+
+  // Processed images, kept together with what they were produced from so stale ones are never exported.
+  const [processed, setProcessed] = useState<{ sources: string[]; options: ImageProcessingOptions; blogName: string; urls: string[] } | null>(null);
+  const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const [processingError, setProcessingError] = useState<string | null>(null);
+  const sources = doneResults.map(result => result.imageUrl);
+  const isProcessedCurrent = !!processed
+    && processed.options === imageProcessing
+    && processed.blogName === blogName
+    && processed.sources.length === sources.length
+    && processed.sources.every((source, i) => source === sources[i]);
+  const exportUrls = !imageProcessing.enabled ? sources : isProcessedCurrent ? processed!.urls : null;
+
+  // One image at a time: decoding several large images at once can exhaust memory on phones.
+  const processAll = async (): Promise<string[]> => {
+    const urls: string[] = [];
+    for (const source of sources) {
+      urls.push(await processImage(source, imageProcessing, blogName));
+    }
+    return urls;
+  };
+
+  // Re-process shortly after the options or the images change, so the sizes shown match the download.
+  useEffect(() => {
+    if (!imageProcessing.enabled || isProcessedCurrent) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsProcessing(true);
+      setProcessingError(null);
+      try {
+        const urls = await processAll();
+        if (!cancelled) setProcessed({ sources, options: imageProcessing, blogName, urls });
+      } catch (err) {
+        console.error('이미지 후처리 실패:', err);
+        if (!cancelled) setProcessingError(err instanceof Error ? err.message : '이미지를 처리하지 못했습니다.');
+      } finally {
+        if (!cancelled) setIsProcessing(false);
+      }
+    }, 500);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      // The cancelled run skips its own reset, and the next run may return before starting one.
+      setIsProcessing(false);
+    };
+  }, [imageProcessing, blogName, results]);
+
+  // Falls back to the originals when processing failed, so an export is never blocked.
+  const getExportDoc = async (): Promise<ExportDocument> => {
+    let urls = exportUrls;
+    if (!urls) {
+      try {
+        urls = await processAll();
+      } catch (err) {
+        console.error('이미지 후처리 실패:', err);
+        urls = sources;
+      }
+    }
+    const images = urls;
+    return { title, results: doneResults.map((result, i) => ({ ...result, imageUrl: images[i] })), metadata: metadata ?? undefined, language };
+  };
+
+  const handleCopyAll = async (format: CopyFormat) => {
+    try {
+      if (format === 'rich') {
+        await copyHtmlToClipboard(await getExportDoc());
+      } else {
+        await copyPlainTextToClipboard({ title, results: doneResults, metadata: metadata ?? undefined });
+      }
+      setCopiedAll(format);
+      setTimeout(() => setCopiedAll(null), 2500);
+    } catch (err) {
+      console.error('전체 복사 실패:', err);
+      alert(format === 'rich' ? '클립보드에 HTML을 복사하지 못했습니다.' : '클립보드에 텍스트를 복사하지 못했습니다.');
+    }
+  };
+
+  const handleDownloadMarkdown = async () => {
+    // Images are embedded as data URLs so the single .md file stays self-contained.
+    const markdown = buildMarkdown(await getExportDoc(), result => result.imageUrl);
+    downloadFile(new Blob([markdown], { type: 'text/markdown' }), `${exportBaseName}.md`);
+  };
+
+  const handleDownloadZip = async () => {
     try {
-      await navigator.clipboard.writeText(text);
-      setCopiedIndex(index);
-      setTimeout(() => setCopiedIndex(null), 2500);
+      downloadFile(buildExportZip(await getExportDoc()), `${exportBaseName}.zip`);
+    } catch (err) {
+      console.error('ZIP 생성 실패:', err);
+      alert('ZIP 파일을 만들지 못했습니다.');
+    }
+  };
+
+  const missingDescriptions = doneEntries.filter(({ result }) => !result.altText).map(({ resultIndex }) => resultIndex);
+
+  const handleGenerateDescriptions = async (indices: number[]) => {
+    setDescribing(prev => [...prev, ...indices]);
+    try {
+      await onGenerateImageDescriptions(indices);
+    } finally {
+      setDescribing(prev => prev.filter(i => !indices.includes(i)));
+    }
+  };
+
+  const handleCopyParagraph = async (text: string, index: number, format: CopyFormat) => {
+    try {
+      await copyMarkdownToClipboard(text, format);
+      setCopied({ index, format });
+      setTimeout(() => setCopied(null), 2500);
     } catch (err) {
       console.error('텍스트 복사 실패:', err);
       alert('클립보드에 텍스트를 복사하지 못했습니다.');
@@ -21,8 +195,9 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ results }) => {
   };
   
   const getPromptText = (result: Result) => {
-    if (result.editStatus === 'done' && result.originalImageUrl) {
-        return result.editPrompt ? `AI 수정: ${result.editPrompt}` : '업로드한 원본 이미지';
+    // Legacy projects stored uploaded images with an empty or generic prompt.
+    if (result.imageSource === 'upload-edit' && result.editPrompt && !result.prompt) {
+        return `AI 수정: ${result.editPrompt}`;
     }
     return result.prompt;
   };
@@ -32,32 +207,138 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ results }) => {
       <h2 className="text-3xl font-bold text-center mb-4 bg-gradient-to-r from-purple-400 to-pink-500 text-transparent bg-clip-text">
         생성된 콘텐츠
       </h2>
+      {title && <p className="text-center text-xl font-semibold text-gray-100 mb-2">{title}</p>}
        <p className="text-center text-gray-400 mb-10 max-w-3xl mx-auto">
         각 단락과 이미지를 개별적으로 복사하고 다운로드하여 네이버 블로그 편집기에 쉽게 붙여넣을 수 있습니다.
       </p>
+      <div className="flex flex-wrap justify-center gap-3 mb-10">
+        <button
+          onClick={() => handleCopyAll('rich')}
+          className="inline-flex items-center gap-2 px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 transition-colors"
+        >
+          {copiedAll === 'rich' ? <CheckIcon className="w-4 h-4" /> : <ClipboardIcon className="w-4 h-4" />}
+          {copiedAll === 'rich' ? '복사 완료!' : '스마트에디터용 전체 복사'}
+        </button>
+        <button
+          onClick={() => handleCopyAll('plain')}
+          className="inline-flex items-center gap-2 px-4 py-2 border border-gray-600 text-sm font-medium rounded-md shadow-sm text-gray-300 bg-gray-700 hover:bg-gray-600 transition-colors"
+        >
+          {copiedAll === 'plain' ? <CheckIcon className="w-4 h-4 text-green-400" /> : <ClipboardIcon className="w-4 h-4" />}
+          {copiedAll === 'plain' ? '복사 완료!' : '텍스트만 전체 복사'}
+        </button>
+        <button
+          onClick={handleDownloadMarkdown}
+          className="inline-flex items-center gap-2 px-4 py-2 border border-gray-600 text-sm font-medium rounded-md shadow-sm text-gray-300 bg-gray-700 hover:bg-gray-600 transition-colors"
+        >
+          <DownloadIcon className="w-4 h-4" />
+          Markdown 다운로드
+        </button>
+        <button
+          onClick={handleDownloadZip}
+          className="inline-flex items-center gap-2 px-4 py-2 border border-gray-600 text-sm font-medium rounded-md shadow-sm text-gray-300 bg-gray-700 hover:bg-gray-600 transition-colors"
+        >
+          <DownloadIcon className="w-4 h-4" />
+          ZIP 다운로드 (HTML · Markdown · 이미지)
+        </button>
+      </div>
+      <div className="max-w-4xl mx-auto mb-10 space-y-6">
+        <PublishingMetadataPanel metadata={metadata} onGenerate={onGenerateMetadata} onChange={onChangeMetadata} />
+        {missingDescriptions.length > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-3 bg-gray-900/50 p-4 rounded-lg border border-gray-700">
+            <p className="text-sm text-gray-400">
+              대체 텍스트가 없는 이미지가 {missingDescriptions.length}개 있습니다. 접근성과 이미지 검색을 위해 AI가 이미지를 보고 대체 텍스트와 캡션을 작성합니다.
+            </p>
+            <button
+              onClick={() => handleGenerateDescriptions(missingDescriptions.filter(i => !describing.includes(i)))}
+              disabled={missingDescriptions.every(i => describing.includes(i))}
+              className="px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+            >
+              {missingDescriptions.every(i => describing.includes(i)) ? '작성 중...' : '대체 텍스트·캡션 만들기'}
+            </button>
+          </div>
+        )}
+        <div className="flex flex-wrap items-center justify-between gap-3 bg-gray-900/50 p-4 rounded-lg border border-gray-700">
+          <p className="text-sm text-gray-400">
+            이 글을 다른 언어로 옮긴 번역본을 새 프로젝트로 만듭니다. 이미지는 그대로 쓰고 본문, 대체 텍스트, 캡션, 발행 정보를 번역합니다.
+          </p>
+          <div className="flex gap-2">
+            <select
+              value={editionLanguage}
+              onChange={(e) => setEditionLanguage(e.target.value as OutputLanguage)}
+              className="bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200 focus:ring-purple-500 focus:border-purple-500"
+            >
+              {editionLanguages.map(option => <option key={option} value={option}>{OUTPUT_LANGUAGE_LABELS[option]}</option>)}
+            </select>
+            <button
+              onClick={() => onCreateTranslatedEdition(editionLanguage)}
+              className="px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 transition-colors"
+            >
+              번역본 만들기
+            </button>
+          </div>
+        </div>
+        <ImageProcessingPanel
+          options={imageProcessing}
+          onChange={onChangeImageProcessing}
+          sizes={sources.map((source, i) => ({
+            original: dataUrlByteSize(source),
+            processed: exportUrls ? dataUrlByteSize(exportUrls[i]) : null,
+          }))}
+          isProcessing={isProcessing}
+          error={processingError}
+          blogName={blogName}
+        />
+        <SeoLintPanel
+          input={{
+            title: title || '',
+            text: doneResults.map(result => result.paragraph).join('\n\n'),
+            mainKeyword,
+            imageCount: doneResults.length,
+          }}
+        />
+      </div>
       <div className="space-y-12">
-        {results.filter(r => r.editStatus === 'done' && r.imageUrl).map((result, index) => (
+        {doneEntries.map(({ result, resultIndex }, index) => (
           <div
-            key={index}
-            className={`relative flex flex-col md:flex-row gap-8 items-center bg-gray-800/50 p-6 rounded-xl shadow-lg border border-gray-700 overflow-hidden ${
+            key={resultIndex}
+            // Focusable, so Ctrl+Z and Ctrl+Y undo and redo the card that was last clicked.
+            tabIndex={-1}
+            onKeyDown={(e) => {
+              const shortcut = getHistoryShortcut(e);
+              if (!shortcut || e.nativeEvent.isComposing) return;
+              e.preventDefault();
+              onMoveVersion(resultIndex, shortcut === 'undo' ? -1 : 1);
+            }}
+            className={`relative flex flex-col md:flex-row gap-8 items-center bg-gray-800/50 p-6 rounded-xl shadow-lg border border-gray-700 overflow-hidden focus:outline-none ${
               index % 2 !== 0 ? 'md:flex-row-reverse' : ''
             }`}
           >
-            <div className="md:w-1/2 w-full flex-shrink-0 relative group">
-              <img
-                src={result.imageUrl}
-                alt={result.prompt}
-                className="w-full h-auto object-cover rounded-lg shadow-md aspect-video"
+            <div className="md:w-1/2 w-full flex-shrink-0">
+              <figure>
+                <div className="relative group">
+                  <img
+                    src={result.imageUrl}
+                    alt={result.altText || result.prompt}
+                    className="w-full h-auto object-cover rounded-lg shadow-md"
+                  />
+                  <a
+                    href={exportUrls?.[index] ?? result.imageUrl}
+                    download={getImageFileName(index, exportUrls?.[index] ?? result.imageUrl)}
+                    className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-50 flex items-center justify-center transition-all duration-300 opacity-0 group-hover:opacity-100 cursor-pointer"
+                    aria-label="이미지 다운로드"
+                    title="이미지 다운로드"
+                  >
+                    <DownloadIcon className="w-12 h-12 text-white" />
+                  </a>
+                </div>
+                {result.caption && <figcaption className="mt-2 text-center text-sm text-gray-400">{result.caption}</figcaption>}
+              </figure>
+              <ImageDescriptionFields
+                result={result}
+                isGenerating={describing.includes(resultIndex)}
+                onChange={(patch) => onChangeResult(resultIndex, patch)}
+                onGenerate={() => handleGenerateDescriptions([resultIndex])}
               />
-              <a
-                href={result.imageUrl}
-                download={`blog_image_${index + 1}.jpeg`}
-                className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-50 flex items-center justify-center transition-all duration-300 opacity-0 group-hover:opacity-100 cursor-pointer"
-                aria-label="이미지 다운로드"
-                title="이미지 다운로드"
-              >
-                <DownloadIcon className="w-12 h-12 text-white" />
-              </a>
             </div>
             <div className="md:w-1/2 w-full flex flex-col self-stretch">
                 <div className="flex items-start gap-3 bg-gray-900/50 p-3 rounded-md border border-gray-600 mb-4">
@@ -66,26 +347,38 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ results }) => {
                         <strong>정보:</strong> {getPromptText(result)}
                     </p>
                 </div>
-              <p className="text-gray-300 leading-relaxed text-lg mb-4 flex-grow">
-                {result.paragraph}
-              </p>
-               <button
-                  onClick={() => handleCopyParagraph(result.paragraph, index)}
-                  className="mt-auto ml-auto inline-flex items-center gap-2 px-4 py-2 border border-gray-600 text-sm font-medium rounded-md shadow-sm text-gray-300 bg-gray-700 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 focus:ring-offset-gray-800 transition-colors"
-                  aria-label="단락 복사"
-                >
-                  {copiedIndex === index ? (
-                    <>
-                      <CheckIcon className="w-4 h-4 text-green-400" />
-                      복사 완료!
-                    </>
-                  ) : (
-                    <>
-                      <ClipboardIcon className="w-4 h-4" />
-                      단락 복사
-                    </>
-                  )}
-                </button>
+              <MarkdownView text={result.paragraph} className="text-gray-300 leading-relaxed text-lg mb-4 flex-grow" />
+              {/* Rich text keeps headings, lists and tables in the SmartEditor; plain text drops the Markdown syntax. */}
+              <div className="mt-auto ml-auto flex flex-wrap justify-end gap-2">
+                {(['rich', 'plain'] as const).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => handleCopyParagraph(result.paragraph, index, format)}
+                    className="inline-flex items-center gap-2 px-4 py-2 border border-gray-600 text-sm font-medium rounded-md shadow-sm text-gray-300 bg-gray-700 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 focus:ring-offset-gray-800 transition-colors"
+                  >
+                    {copied?.index === index && copied.format === format ? (
+                      <>
+                        <CheckIcon className="w-4 h-4 text-green-400" />
+                        복사 완료!
+                      </>
+                    ) : (
+                      <>
+                        <ClipboardIcon className="w-4 h-4" />
+                        {format === 'rich' ? '서식 복사' : '텍스트만 복사'}
+                      </>
+                    )}
+                  </button>
+                ))}
+              </div>
+                <ResultRevisionPanel
+                  result={result}
+                  onRegenerateImage={(prompt) => onRegenerateImage(resultIndex, prompt)}
+                  onImageVariation={() => onImageVariation(resultIndex)}
+                  onReplaceImage={(imageUrl) => onReplaceImage(resultIndex, imageUrl)}
+                  onRewriteParagraph={(instruction) => onRewriteParagraph(resultIndex, instruction)}
+                  onEditParagraph={(paragraph) => onEditParagraph(resultIndex, paragraph)}
+                  onMoveVersion={(offset) => onMoveVersion(resultIndex, offset)}
+                />
             </div>
           </div>
         ))}
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import type { DataLabAgeGroup, DataLabDevice, DataLabGender, DataLabTimeUnit, SearchTrendOptions, SearchTrendReport } from '../types';
+import { MAX_TREND_KEYWORDS, TREND_DIRECTION_LABELS } from '../services/trendAnalysis';
+import TrendChart from './TrendChart';
+
+interface SearchTrendPanelProps {
+  report: SearchTrendReport | null;
+  isLoading: boolean;
+  canFetch: boolean;
+  onFetch: (options: SearchTrendOptions) => void;
+}
+
+const PERIOD_OPTIONS: { months: number; label: string }[] = [
+  { months: 1, label: '1개월' },
+  { months: 3, label: '3개월' },
+  { months: 12, label: '1년' },
+  { months: 36, label: '3년' },
+];
+
+const TIME_UNIT_LABELS: Record<DataLabTimeUnit, string> = { date: '일간', week: '주간', month: '월간' };
+
+const AGE_LABELS: Record<DataLabAgeGroup, string> = {
+  '1': '0-12세', '2': '13-18세', '3': '19-24세', '4': '25-29세', '5': '30-34세', '6': '35-39세',
+  '7': '40-44세', '8': '45-49세', '9': '50-54세', '10': '55-59세', '11': '60세 이상',
+};
+
+const DIRECTION_COLORS = { rising: 'text-green-300', falling: 'text-red-300', stable: 'text-gray-300' };
+
+const selectClassName = "bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200 focus:ring-purple-500 focus:border-purple-500";
+
+const SearchTrendPanel: React.FC<SearchTrendPanelProps> = ({ report, isLoading, canFetch, onFetch }) => {
+  const [months, setMonths] = useState<number>(12);
+  const [timeUnit, setTimeUnit] = useState<DataLabTimeUnit>('month');
+  const [device, setDevice] = useState<DataLabDevice | ''>('');
+  const [gender, setGender] = useState<DataLabGender | ''>('');
+  const [ages, setAges] = useState<DataLabAgeGroup[]>([]);
+
+  const toggleAge = (age: DataLabAgeGroup) => {
+    setAges(prev => prev.includes(age) ? prev.filter(a => a !== age) : [...prev, age]);
+  };
+
+  const handleFetch = () => {
+    onFetch({
+      months,
+      timeUnit,
+      device: device || undefined,
+      gender: gender || undefined,
+      ages: ages.length > 0 ? ages : undefined,
+    });
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t border-gray-700">
+      <h3 className="text-xl font-semibold text-center mb-2 text-gray-200">검색 트렌드 (네이버 데이터랩)</h3>
+      <p className="text-center text-sm text-gray-400 mb-4">
+        메인 키워드와 추가 키워드(최대 {MAX_TREND_KEYWORDS}개)의 검색량 추이를 비교합니다.
+      </p>
+
+      <div className="flex flex-wrap items-end justify-center gap-3 mb-3">
+        <label className="text-xs text-gray-400 flex flex-col gap-1">
+          기간
+          <select value={months} onChange={(e) => setMonths(Number(e.target.value))} className={selectClassName} disabled={isLoading}>
+            {PERIOD_OPTIONS.map(option => <option key={option.months} value={option.months}>{option.label}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 flex flex-col gap-1">
+          단위
+          <select value={timeUnit} onChange={(e) => setTimeUnit(e.target.value as DataLabTimeUnit)} className={selectClassName} disabled={isLoading}>
+            {(Object.keys(TIME_UNIT_LABELS) as DataLabTimeUnit[]).map(unit => <option key={unit} value={unit}>{TIME_UNIT_LABELS[unit]}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 flex flex-col gap-1">
+          기기
+          <select value={device} onChange={(e) => setDevice(e.target.value as DataLabDevice | '')} className={selectClassName} disabled={isLoading}>
+            <option value="">전체</option>
+            <option value="pc">PC</option>
+            <option value="mo">모바일</option>
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 flex flex-col gap-1">
+          성별
+          <select value={gender} onChange={(e) => setGender(e.target.value as DataLabGender | '')} className={selectClassName} disabled={isLoading}>
+            <option value="">전체</option>
+            <option value="m">남성</option>
+            <option value="f">여성</option>
+          </select>
+        </label>
+        <button
+          onClick={handleFetch}
+          disabled={isLoading || !canFetch}
+          className="px-4 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          트렌드 조회
+        </button>
+      </div>
+      <div className="flex flex-wrap justify-center gap-2 mb-4">
+        {(Object.keys(AGE_LABELS) as DataLabAgeGroup[]).map(age => (
+          <label key={age} className="inline-flex items-center gap-1 text-xs text-gray-400">
+            <input type="checkbox" checked={ages.includes(age)} onChange={() => toggleAge(age)} disabled={isLoading} className="accent-purple-500" />
+            {AGE_LABELS[age]}
+          </label>
+        ))}
+        <span className="text-xs text-gray-500">(선택하지 않으면 전체 연령)</span>
+      </div>
+
+      {report && (
+        <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-600 space-y-4">
+          <p className="text-xs text-gray-500 text-center">
+            {report.request.startDate} ~ {report.request.endDate} · {TIME_UNIT_LABELS[report.request.timeUnit]} · 가장 많이 검색된 시점을 100으로 한 상대값
+          </p>
+          <TrendChart series={report.series} />
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
+            {report.summaries.map(summary => (
+              <div key={summary.title} className="bg-gray-900/60 border border-gray-700 rounded-md p-3 text-sm">
+                <p className="font-semibold text-gray-200">{summary.title}</p>
+                <p className={DIRECTION_COLORS[summary.direction]}>
+                  {TREND_DIRECTION_LABELS[summary.direction]} ({summary.changeRate >= 0 ? '+' : ''}{Math.round(summary.changeRate * 100)}%)
+                </p>
+                <p className="text-xs text-gray-400">평균 검색량 {summary.averageRatio}</p>
+                {summary.peakMonth && <p className="text-xs text-gray-400">검색 성수기: {summary.peakMonth}월</p>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchTrendPanel;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import type { SeoLintConfig, SeoRuleId, SeoRuleStatus } from '../types';
+import {
+  DEFAULT_SEO_LINT_CONFIG,
+  SEO_RULE_LABELS,
+  lintPost,
+  loadSeoLintConfig,
+  saveSeoLintConfig,
+} from '../services/seoLint';
+import type { SeoLintInput } from '../services/seoLint';
+
+interface SeoLintPanelProps {
+  input: SeoLintInput;
+}
+
+const STATUS_STYLES: Record<SeoRuleStatus, { icon: string; className: string }> = {
+  pass: { icon: '✓', className: 'text-green-300' },
+  warn: { icon: '!', className: 'text-yellow-300' },
+  fail: { icon: '✕', className: 'text-red-300' },
+};
+
+const THRESHOLD_FIELDS: { key: Exclude<keyof SeoLintConfig, 'enabledRules'>; label: string }[] = [
+  { key: 'minChars', label: '최소 글자 수' },
+  { key: 'minKeywordCount', label: '키워드 최소 횟수' },
+  { key: 'maxKeywordCount', label: '키워드 최대 횟수' },
+  { key: 'minHeadings', label: '최소 소제목 수' },
+  { key: 'maxParagraphChars', label: '문단 최대 글자 수' },
+  { key: 'charsPerImage', label: '이미지 1개당 글자 수' },
+  { key: 'maxPhraseRepeats', label: '표현 반복 허용 횟수' },
+];
+
+const scoreClassName = (score: number) =>
+  score >= 80 ? 'text-green-300 border-green-600' : score >= 50 ? 'text-yellow-300 border-yellow-600' : 'text-red-300 border-red-600';
+
+const SeoLintPanel: React.FC<SeoLintPanelProps> = ({ input }) => {
+  const [config, setConfig] = useState<SeoLintConfig>(() => loadSeoLintConfig());
+  const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  // Cheap enough to recompute on every keystroke.
+  const report = lintPost(input, config);
+
+  const updateConfig = (next: SeoLintConfig) => {
+    setConfig(next);
+    saveSeoLintConfig(next);
+  };
+
+  const toggleRule = (id: SeoRuleId) => {
+    updateConfig({ ...config, enabledRules: { ...config.enabledRules, [id]: !config.enabledRules[id] } });
+  };
+
+  return (
+    <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700">
+      <div className="flex items-center justify-between gap-4 mb-3">
+        <div className="flex items-center gap-3">
+          <span className={`w-14 h-14 flex items-center justify-center rounded-full border-2 text-lg font-bold ${scoreClassName(report.score)}`}>
+            {report.score}
+          </span>
+          <div>
+            <h4 className="font-semibold text-gray-200">SEO 점검</h4>
+            <p className="text-xs text-gray-400">
+              {input.mainKeyword ? `'${input.mainKeyword}' 기준` : '메인 키워드 없이 일부 규칙만 적용'} · 글을 고치면 바로 다시 계산됩니다.
+            </p>
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsSettingsOpen(!isSettingsOpen)}
+          className="text-xs text-gray-400 hover:text-white transition-colors"
+        >
+          {isSettingsOpen ? '설정 닫기' : '규칙 설정'}
+        </button>
+      </div>
+
+      <ul className="space-y-1.5">
+        {report.results.map(result => (
+          <li key={result.id} className="flex gap-2 text-sm">
+            <span className={`w-4 font-bold ${STATUS_STYLES[result.status].className}`}>{STATUS_STYLES[result.status].icon}</span>
+            <span className="text-gray-300 font-medium shrink-0">{result.label}</span>
+            <span className="text-gray-400">{result.message}</span>
+          </li>
+        ))}
+      </ul>
+
+      {isSettingsOpen && (
+        <div className="mt-4 pt-4 border-t border-gray-700 space-y-3">
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {(Object.keys(SEO_RULE_LABELS) as SeoRuleId[]).map(id => (
+              <label key={id} className="inline-flex items-center gap-1.5 text-xs text-gray-300">
+                <input type="checkbox" checked={config.enabledRules[id]} onChange={() => toggleRule(id)} className="accent-purple-500" />
+                {SEO_RULE_LABELS[id]}
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {THRESHOLD_FIELDS.map(({ key, label }) => (
+              <label key={key} className="text-xs text-gray-400 flex flex-col gap-1">
+                {label}
+                <input
+                  type="number"
+                  min={1}
+                  value={config[key]}
+                  onChange={(e) => updateConfig({ ...config, [key]: Math.max(1, Number(e.target.value) || 1) })}
+                  className="bg-gray-800 border border-gray-600 rounded-md p-1.5 text-sm text-gray-200 focus:ring-purple-500 focus:border-purple-500"
+                />
+              </label>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => updateConfig(DEFAULT_SEO_LINT_CONFIG)}
+            className="text-xs text-gray-400 hover:text-white transition-colors"
+          >
+            기본값으로 되돌리기
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SeoLintPanel;
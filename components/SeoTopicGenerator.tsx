@@ -1,33 +1,65 @@
 import React, { useState } from 'react';
-import type { NaverBlogItem } from '../types';
+import type { KeywordAnalysis, KeywordSuggestion, NaverBlogItem, NaverProxyMode, PostGenerationOptions, PostOptionsPreset, SearchTrendOptions, SearchTrendReport } from '../types';
+import { parseKeywordList } from '../services/trendAnalysis';
+import { findClosestTitle, TITLE_FLAG_THRESHOLD } from '../services/similarityCheck';
 import { MagicWandIcon, CogIcon, ExternalLinkIcon } from './icons';
 import NaverApiSettings from './NaverApiSettings';
+import KeywordAnalysisReport from './KeywordAnalysisReport';
+import SearchTrendPanel from './SearchTrendPanel';
+import KeywordResearchPanel from './KeywordResearchPanel';
+import PostOptionsEditor from './PostOptionsEditor';
 
 interface SeoTopicGeneratorProps {
   onAnalyzeNaver: (mainKeyword: string) => void;
   onGenerateTopics: (mainKeyword: string, additionalKeywords: string) => void;
+  onFetchTrend: (mainKeyword: string, additionalKeywords: string, options: SearchTrendOptions) => void;
+  onResearchKeywords: (mainKeyword: string) => void;
   onTopicSelected: (topic: string) => void;
   isLoading: boolean;
   topicIdeas: string[];
   naverSearchResults: NaverBlogItem[];
-  onSaveApiKeys: (clientId: string, clientSecret: string) => void;
+  keywordAnalysis: KeywordAnalysis | null;
+  searchTrend: SearchTrendReport | null;
+  keywordSuggestions: KeywordSuggestion[];
+  postOptions: PostGenerationOptions;
+  postOptionPresets: PostOptionsPreset[];
+  onChangePostOptions: (options: PostGenerationOptions) => void;
+  onSavePostOptionPreset: (name: string) => void;
+  onDeletePostOptionPreset: (id: string) => void;
+  onSaveApiKeys: (clientId: string, clientSecret: string, proxyMode: NaverProxyMode) => void;
   initialApiClientId: string;
   initialApiClientSecret: string;
+  initialProxyMode: NaverProxyMode;
+  initialMainKeyword?: string;
+  initialAdditionalKeywords?: string;
 }
 
 const SeoTopicGenerator: React.FC<SeoTopicGeneratorProps> = ({ 
   onAnalyzeNaver,
   onGenerateTopics,
+  onFetchTrend,
+  onResearchKeywords,
   onTopicSelected, 
   isLoading, 
   topicIdeas,
   naverSearchResults,
+  keywordAnalysis,
+  searchTrend,
+  keywordSuggestions,
+  postOptions,
+  postOptionPresets,
+  onChangePostOptions,
+  onSavePostOptionPreset,
+  onDeletePostOptionPreset,
   onSaveApiKeys,
   initialApiClientId,
-  initialApiClientSecret
+  initialApiClientSecret,
+  initialProxyMode,
+  initialMainKeyword = '',
+  initialAdditionalKeywords = ''
 }) => {
-  const [mainKeyword, setMainKeyword] = useState('');
-  const [additionalKeywords, setAdditionalKeywords] = useState('');
+  const [mainKeyword, setMainKeyword] = useState(initialMainKeyword);
+  const [additionalKeywords, setAdditionalKeywords] = useState(initialAdditionalKeywords);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
   const handleAnalyzeSubmit = (e: React.FormEvent) => {
@@ -39,6 +71,12 @@ const SeoTopicGenerator: React.FC<SeoTopicGeneratorProps> = ({
     onAnalyzeNaver(mainKeyword);
   };
 
+  const handleAddKeyword = (keyword: string) => {
+    const keywords = parseKeywordList(additionalKeywords);
+    if (keywords.includes(keyword)) return;
+    setAdditionalKeywords([...keywords, keyword].join(', '));
+  };
+
   const cleanHtml = (html: string) => {
     return html.replace(/<[^>]*>/g, '');
   };
@@ -64,6 +102,7 @@ const SeoTopicGenerator: React.FC<SeoTopicGeneratorProps> = ({
           onSave={onSaveApiKeys}
           initialClientId={initialApiClientId}
           initialClientSecret={initialApiClientSecret}
+          initialProxyMode={initialProxyMode}
           onClose={() => setIsSettingsOpen(false)}
         />
       )}
@@ -98,6 +137,14 @@ const SeoTopicGenerator: React.FC<SeoTopicGeneratorProps> = ({
             disabled={isLoading}
           />
         </div>
+        <KeywordResearchPanel
+          suggestions={keywordSuggestions}
+          selectedKeywords={parseKeywordList(additionalKeywords)}
+          isLoading={isLoading}
+          canResearch={!!mainKeyword.trim()}
+          onResearch={() => onResearchKeywords(mainKeyword)}
+          onAdd={handleAddKeyword}
+        />
         <div className="flex justify-end">
           <button
             type="submit"
@@ -109,6 +156,13 @@ const SeoTopicGenerator: React.FC<SeoTopicGeneratorProps> = ({
           </button>
         </div>
       </form>
+
+      <SearchTrendPanel
+        report={searchTrend}
+        isLoading={isLoading}
+        canFetch={!!mainKeyword.trim()}
+        onFetch={(options) => onFetchTrend(mainKeyword, additionalKeywords, options)}
+      />
       
       {naverSearchResults.length > 0 && !isLoading && (
         <div className="mt-8 pt-6 border-t border-gray-700">
@@ -132,6 +186,7 @@ const SeoTopicGenerator: React.FC<SeoTopicGeneratorProps> = ({
                     ))}
                 </ol>
             </div>
+            {keywordAnalysis && <KeywordAnalysisReport analysis={keywordAnalysis} />}
              <div className="flex justify-center">
               <button
                 onClick={() => onGenerateTopics(mainKeyword, additionalKeywords)}
@@ -149,8 +204,19 @@ const SeoTopicGenerator: React.FC<SeoTopicGeneratorProps> = ({
         <div className="mt-8 pt-6 border-t border-gray-700">
             <h3 className="text-xl font-semibold text-center mb-2 text-gray-200">AI 추천 블로그 주제</h3>
             <p className="text-center text-gray-400 mb-6">마음에 드는 주제를 선택하여 블로그 글을 생성하세요.</p>
+            <PostOptionsEditor
+              options={postOptions}
+              presets={postOptionPresets}
+              isLoading={isLoading}
+              onChange={onChangePostOptions}
+              onSavePreset={onSavePostOptionPreset}
+              onDeletePreset={onDeletePostOptionPreset}
+            />
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                {topicIdeas.map((topic, index) => (
+                {topicIdeas.map((topic, index) => {
+                    // Naver penalizes near-duplicates, so flag titles that copy a ranking post.
+                    const closest = findClosestTitle(topic, naverSearchResults.map(result => cleanHtml(result.title)));
+                    return (
                     <button
                         key={index}
                         onClick={() => onTopicSelected(topic)}
@@ -160,8 +226,12 @@ const SeoTopicGenerator: React.FC<SeoTopicGeneratorProps> = ({
                              <p className="font-semibold text-purple-400 group-hover:text-purple-300 mb-2">추천 주제 {index + 1}</p>
                              <p className="text-gray-300 group-hover:text-white">{topic}</p>
                          </div>
+                         {closest.similarity >= TITLE_FLAG_THRESHOLD && (
+                             <p className="mt-2 text-xs text-yellow-300">상위 글 제목과 {Math.round(closest.similarity * 100)}% 비슷합니다: {closest.matchedTitle}</p>
+                         )}
                     </button>
-                ))}
+                    );
+                })}
             </div>
         </div>
       )}
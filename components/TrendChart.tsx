@@ -0,0 +1,67 @@
+import React from 'react';
+import type { DataLabTrendSeries } from '../types';
+
+interface TrendChartProps {
+  series: DataLabTrendSeries[];
+}
+
+const TREND_COLORS = ['#a78bfa', '#f472b6', '#34d399', '#fbbf24', '#60a5fa'];
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 32 };
+
+/**
+ * A dependency-free SVG line chart of DataLab relative search volumes (0-100).
+ */
+const TrendChart: React.FC<TrendChartProps> = ({ series }) => {
+  const periods = series[0]?.data.map(point => point.period) ?? [];
+  if (periods.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-6">표시할 트렌드 데이터가 없습니다.</p>;
+  }
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const indexOf = new Map<string, number>(periods.map((period, index) => [period, index]));
+  const x = (index: number) => PADDING.left + (periods.length > 1 ? (index / (periods.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (ratio: number) => PADDING.top + plotHeight - (ratio / 100) * plotHeight;
+  const labelIndices = [...new Set([0, Math.floor((periods.length - 1) / 2), periods.length - 1])];
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="검색 트렌드 차트">
+        {[0, 50, 100].map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#374151" strokeDasharray="4 4" />
+            <text x={PADDING.left - 6} y={y(tick) + 4} textAnchor="end" fontSize="11" fill="#9ca3af">{tick}</text>
+          </g>
+        ))}
+        {labelIndices.map(index => (
+          <text key={index} x={x(index)} y={HEIGHT - 6} textAnchor={index === 0 ? 'start' : index === periods.length - 1 ? 'end' : 'middle'} fontSize="11" fill="#9ca3af">
+            {periods[index]}
+          </text>
+        ))}
+        {series.map((s, seriesIndex) => (
+          <polyline
+            key={s.title}
+            fill="none"
+            stroke={TREND_COLORS[seriesIndex % TREND_COLORS.length]}
+            strokeWidth={2}
+            strokeLinejoin="round"
+            points={s.data.map(point => `${x(indexOf.get(point.period) ?? 0)},${y(point.ratio)}`).join(' ')}
+          />
+        ))}
+      </svg>
+      <div className="flex flex-wrap justify-center gap-4 mt-2">
+        {series.map((s, seriesIndex) => (
+          <span key={s.title} className="inline-flex items-center gap-1.5 text-sm text-gray-300">
+            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: TREND_COLORS[seriesIndex % TREND_COLORS.length] }} />
+            {s.title}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TrendChart;
@@ -0,0 +1,141 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { countChanges, diffWords } from '../services/textDiff';
+
+export interface VersionItem {
+  label: string; // The change that produced this version; empty for the first one
+  createdAt: number;
+  text: string;
+  imageUrl?: string;
+  offset: number; // Relative to the current version, which is 0
+}
+
+interface VersionHistoryPanelProps {
+  versions: VersionItem[]; // Oldest first
+  onMove: (offset: number) => void;
+  disabled?: boolean;
+}
+
+const buttonClassName = "px-3 py-1.5 border border-gray-600 text-xs font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+const activeButtonClassName = "px-3 py-1.5 border border-purple-500 text-xs font-medium rounded-md text-white bg-purple-700 transition-colors";
+const selectClassName = "bg-gray-800 border border-gray-600 rounded-md p-1.5 text-xs text-gray-200 focus:ring-purple-500 focus:border-purple-500";
+
+const describeVersion = (version: VersionItem, index: number) =>
+  `${index + 1}. ${version.label || '처음 버전'}${version.offset === 0 ? ' (현재)' : ''}`;
+
+/**
+ * Undo/redo buttons and a list of every version, with a side-by-side diff between any two of them.
+ */
+const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ versions, onMove, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  // Indices into `versions`; null compares the current version with the one before it.
+  const [compare, setCompare] = useState<{ from: number; to: number } | null>(null);
+  // The current version as it was when the comparison was opened. It can be a post still being typed or streamed,
+  // so the diff uses this copy instead of working itself out again on every change.
+  const [snapshot, setSnapshot] = useState<string | null>(null);
+
+  const currentIndex = versions.findIndex(version => version.offset === 0);
+  const clamp = (index: number) => Math.min(Math.max(index, 0), versions.length - 1);
+  const fromIndex = clamp(compare?.from ?? currentIndex - 1);
+  const toIndex = clamp(compare?.to ?? currentIndex);
+  const liveText = versions[currentIndex]?.text ?? '';
+  const textOf = (version: VersionItem | undefined) => version && (version.offset === 0 ? snapshot ?? version.text : version.text);
+  const from = versions[fromIndex];
+  const to = versions[toIndex];
+  const fromText = textOf(from);
+  const toText = textOf(to);
+  const isComparing = isOpen && versions.length > 1;
+  const isSnapshotStale = snapshot !== null && snapshot !== liveText && (from?.offset === 0 || to?.offset === 0);
+  // Worked out only while it is shown.
+  const segments = useMemo(() => isComparing && fromText !== undefined && toText !== undefined ? diffWords(fromText, toText) : [], [isComparing, fromText, toText]);
+
+  // Undo, redo or a new version changes which text is current, so the comparison starts again from it.
+  useEffect(() => {
+    setSnapshot(liveText);
+  }, [currentIndex, versions.length]);
+
+  const handleMove = (offset: number) => {
+    setCompare(null);
+    onMove(offset);
+  };
+
+  const handleToggle = () => {
+    if (!isOpen) setSnapshot(liveText);
+    setIsOpen(!isOpen);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <button onClick={() => handleMove(-1)} disabled={disabled || currentIndex <= 0} className={buttonClassName} title="Ctrl+Z">
+          실행 취소
+        </button>
+        <button onClick={() => handleMove(1)} disabled={disabled || currentIndex >= versions.length - 1} className={buttonClassName} title="Ctrl+Y">
+          다시 실행
+        </button>
+        {versions.length > 1 && (
+          <button onClick={handleToggle} className={isOpen ? activeButtonClassName : buttonClassName}>
+            버전 기록 ({versions.length})
+          </button>
+        )}
+      </div>
+
+      {isComparing && (
+        <div className="space-y-3 bg-gray-900/60 border border-gray-700 rounded-md p-3">
+          <ol className="space-y-1 max-h-48 overflow-y-auto text-xs text-gray-400">
+            {versions.map((version, index) => (
+              <li key={index} className="flex items-center justify-between gap-2">
+                <span className={version.offset === 0 ? 'text-purple-300 font-medium' : ''}>
+                  {describeVersion(version, index)}
+                  <span className="ml-2 text-gray-500">{new Date(version.createdAt).toLocaleString('ko-KR')}</span>
+                </span>
+                {version.offset !== 0 && (
+                  <button onClick={() => handleMove(version.offset)} disabled={disabled} className={buttonClassName}>
+                    이 버전으로 복원
+                  </button>
+                )}
+              </li>
+            ))}
+          </ol>
+
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+            <span>비교</span>
+            <select value={fromIndex} onChange={(e) => setCompare({ from: Number(e.target.value), to: toIndex })} className={selectClassName}>
+              {versions.map((version, index) => <option key={index} value={index}>{describeVersion(version, index)}</option>)}
+            </select>
+            <span>→</span>
+            <select value={toIndex} onChange={(e) => setCompare({ from: fromIndex, to: Number(e.target.value) })} className={selectClassName}>
+              {versions.map((version, index) => <option key={index} value={index}>{describeVersion(version, index)}</option>)}
+            </select>
+            <span>{countChanges(segments) > 0 ? `바뀐 부분 ${countChanges(segments)}곳` : '글 내용은 같습니다'}</span>
+            {isSnapshotStale && (
+              <button onClick={() => setSnapshot(liveText)} className={buttonClassName}>
+                지금 내용으로 다시 비교
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {[{ version: from, side: 'removed' as const }, { version: to, side: 'added' as const }].map(({ version, side }) => version && (
+              <div key={side} className="bg-gray-900 border border-gray-600 rounded-md p-3 max-h-80 overflow-y-auto">
+                {version.imageUrl && <img src={version.imageUrl} alt="" className="w-full rounded mb-2" />}
+                <p className="whitespace-pre-wrap text-sm text-gray-300 leading-relaxed">
+                  {segments.filter(segment => segment.type === 'equal' || segment.type === side).map((segment, index) => {
+                    if (segment.type === 'added') {
+                      return <ins key={index} className="no-underline bg-green-900/60 text-green-200 rounded px-0.5">{segment.text}</ins>;
+                    }
+                    if (segment.type === 'removed') {
+                      return <del key={index} className="bg-red-900/50 text-red-300 rounded px-0.5">{segment.text}</del>;
+                    }
+                    return <span key={index}>{segment.text}</span>;
+                  })}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersionHistoryPanel;
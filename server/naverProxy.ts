@@ -0,0 +1,197 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin } from 'vite';
+import type { NaverProxyErrorBody, NaverProxyErrorCode, NaverSearchType } from '../types';
+
+export interface NaverProxyOptions {
+    clientId?: string;
+    clientSecret?: string;
+    // Base URL of the Naver Open API. Point it at a local fake server for testing.
+    apiBaseUrl?: string;
+}
+
+const DEFAULT_API_BASE_URL = 'https://openapi.naver.com';
+const SEARCH_TYPES: NaverSearchType[] = ['blog', 'news', 'cafearticle'];
+// Only these query parameters are forwarded to Naver.
+const SEARCH_PARAMS = ['query', 'display', 'start', 'sort'];
+// DataLab request bodies are small JSON documents; anything larger is rejected.
+const MAX_BODY_BYTES = 64 * 1024;
+// A Naver request taking longer than this is given up, so the client is never left waiting.
+const UPSTREAM_TIMEOUT_MS = 15_000;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, code: NaverProxyErrorCode, message: string) => {
+    const body: NaverProxyErrorBody = { error: { code, message, status } };
+    sendJson(res, status, body);
+};
+
+/**
+ * Reads the request body as text.
+ * @returns The body, or null once it grows past MAX_BODY_BYTES.
+ */
+const readBody = (req: IncomingMessage): Promise<string | null> => new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    const onData = (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            // The rest is drained rather than the socket destroyed, so the error response still reaches the client.
+            req.off('data', onData);
+            req.resume();
+            resolve(null);
+            return;
+        }
+        chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+});
+
+/**
+ * Forwards a request to the Naver Open API with the server-side credentials attached,
+ * and relays the response. Upstream and network failures are turned into typed error bodies.
+ */
+const forwardToNaver = async (res: ServerResponse, url: string, init: RequestInit, options: NaverProxyOptions) => {
+    let upstream: Response;
+    let text: string;
+    try {
+        upstream = await fetch(url, {
+            ...init,
+            headers: {
+                ...init.headers,
+                'X-Naver-Client-Id': options.clientId!,
+                'X-Naver-Client-Secret': options.clientSecret!,
+            },
+            signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+        });
+        // The body is read here too: the connection can drop or time out halfway through it.
+        text = await upstream.text();
+    } catch (error) {
+        console.error('[naver-proxy] Upstream request failed:', error);
+        sendError(res, 502, 'UPSTREAM_UNAVAILABLE', 'Naver API에 연결할 수 없습니다.');
+        return;
+    }
+
+    if (!upstream.ok) {
+        let message = upstream.statusText || `Naver API responded with status ${upstream.status}`;
+        try {
+            const data = JSON.parse(text);
+            if (data.errorMessage) message = data.errorMessage;
+        } catch {
+            // Non-JSON error body; keep the status text.
+        }
+        sendError(res, upstream.status, 'UPSTREAM_ERROR', message);
+        return;
+    }
+
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(text);
+};
+
+/**
+ * Creates a Connect-style request handler that serves the Naver proxy routes:
+ *   GET /search/:type?query=...&display=...&start=...&sort=...   (type: blog | news | cafearticle)
+ *   POST /datalab/search   (JSON body as defined by the DataLab Search Trend API)
+ * The handler expects to be mounted under a prefix such as `/api/naver`.
+ * @param options The Naver credentials and the upstream API base URL.
+ * @returns A request handler for use with Vite's (Connect) middleware stack or a plain http server.
+ */
+export const createNaverProxyHandler = (options: NaverProxyOptions) => {
+    const apiBaseUrl = (options.apiBaseUrl || DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+
+    return async (req: IncomingMessage, res: ServerResponse) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        const segments = url.pathname.split('/').filter(Boolean);
+
+        if (!options.clientId || !options.clientSecret) {
+            sendError(res, 500, 'MISSING_CREDENTIALS', '서버에 NAVER_CLIENT_ID / NAVER_CLIENT_SECRET이 설정되지 않았습니다.');
+            return;
+        }
+
+        if (segments[0] === 'search' && segments.length === 2) {
+            if (req.method !== 'GET') {
+                sendError(res, 405, 'INVALID_REQUEST', '검색 요청은 GET만 지원합니다.');
+                return;
+            }
+            const type = segments[1] as NaverSearchType;
+            if (!SEARCH_TYPES.includes(type)) {
+                sendError(res, 404, 'NOT_FOUND', `지원하지 않는 검색 유형입니다: ${segments[1]}`);
+                return;
+            }
+            if (!url.searchParams.get('query')?.trim()) {
+                sendError(res, 400, 'INVALID_REQUEST', 'query 파라미터가 필요합니다.');
+                return;
+            }
+
+            const params = new URLSearchParams();
+            for (const key of SEARCH_PARAMS) {
+                const value = url.searchParams.get(key);
+                if (value !== null) params.set(key, value);
+            }
+            await forwardToNaver(res, `${apiBaseUrl}/v1/search/${type}.json?${params.toString()}`, { method: 'GET' }, options);
+            return;
+        }
+
+        if (segments[0] === 'datalab' && segments[1] === 'search' && segments.length === 2) {
+            if (req.method !== 'POST') {
+                sendError(res, 405, 'INVALID_REQUEST', '트렌드 요청은 POST만 지원합니다.');
+                return;
+            }
+            let body: string | null;
+            try {
+                body = await readBody(req);
+            } catch {
+                sendError(res, 400, 'INVALID_REQUEST', '요청 본문을 읽을 수 없습니다.');
+                return;
+            }
+            if (body === null) {
+                res.setHeader('Connection', 'close');
+                sendError(res, 413, 'INVALID_REQUEST', `요청 본문이 너무 큽니다. (최대 ${MAX_BODY_BYTES / 1024}KB)`);
+                return;
+            }
+            try {
+                const parsed = JSON.parse(body);
+                if (!Array.isArray(parsed.keywordGroups) || parsed.keywordGroups.length === 0) {
+                    sendError(res, 400, 'INVALID_REQUEST', 'keywordGroups가 필요합니다.');
+                    return;
+                }
+            } catch {
+                sendError(res, 400, 'INVALID_REQUEST', '요청 본문이 올바른 JSON이 아닙니다.');
+                return;
+            }
+            await forwardToNaver(res, `${apiBaseUrl}/v1/datalab/search`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body,
+            }, options);
+            return;
+        }
+
+        sendError(res, 404, 'NOT_FOUND', `알 수 없는 경로입니다: ${url.pathname}`);
+    };
+};
+
+/**
+ * Vite plugin that mounts the Naver proxy on the dev and preview servers,
+ * so the proxy starts alongside the app and the credentials never reach the browser.
+ * @param basePath The path prefix the proxy is served under (e.g. '/api/naver').
+ * @param options The Naver credentials and the upstream API base URL.
+ */
+export const naverProxyPlugin = (basePath: string, options: NaverProxyOptions): Plugin => {
+    const handler = createNaverProxyHandler(options);
+    return {
+        name: 'naver-proxy',
+        configureServer(server) {
+            server.middlewares.use(basePath, handler);
+        },
+        configurePreviewServer(server) {
+            server.middlewares.use(basePath, handler);
+        },
+    };
+};
@@ -0,0 +1,6 @@
+/**
+ * Returns true when an error was caused by aborting a request through an AbortSignal.
+ * Services rethrow these untouched so callers can tell a cancellation from a failure.
+ */
+export const isAbortError = (error: unknown): boolean =>
+    typeof error === 'object' && error !== null && (error as { name?: string }).name === 'AbortError';
@@ -0,0 +1,73 @@
+import type { ImageDescription, OutputLanguage } from "../types";
+import { getAiProvider, getModelFor } from "./providers";
+import { isAbortError } from "./abort";
+import { DEFAULT_IMAGE_PROCESSING, processImage } from "./imageService";
+import { DEFAULT_OUTPUT_LANGUAGE, LANGUAGE_PROMPT_NAMES } from "./languages";
+
+// Screen readers read about this much comfortably; longer alt text belongs in the caption or body.
+export const ALT_TEXT_MAX_CHARS = 100;
+export const CAPTION_MAX_CHARS = 40;
+// The model only needs to recognise what is shown, so large images are shrunk before sending.
+const DESCRIBE_MAX_WIDTH = 1024;
+
+/**
+ * Writes an alt text and a short caption for a finished image by showing the image
+ * itself to a multimodal model, so uploaded photos are described as they are.
+ * @param imageUrl The final image as a data URL.
+ * @param paragraph The paragraph the image accompanies.
+ * @param mainKeyword The primary keyword; used where it fits naturally.
+ * @param language The language of the post, which the descriptions are written in.
+ * @param signal An optional AbortSignal to cancel the request.
+ * @returns A promise that resolves to the alt text and caption.
+ */
+export const generateImageDescription = async (
+    imageUrl: string,
+    paragraph: string,
+    mainKeyword: string,
+    language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE,
+    signal?: AbortSignal,
+): Promise<ImageDescription> => {
+    const languageName = LANGUAGE_PROMPT_NAMES[language];
+    try {
+        const resized = await processImage(imageUrl, { ...DEFAULT_IMAGE_PROCESSING, enabled: true, maxWidth: DESCRIBE_MAX_WIDTH, watermark: 'none' });
+        const [header, data] = resized.split(',');
+        const mimeType = header.replace(/^data:|;base64$/g, '');
+
+        const prompt = `
+        Look at the attached image. It illustrates the following paragraph of a ${languageName} Naver blog post${mainKeyword ? ` about "${mainKeyword}"` : ''}.
+
+        PARAGRAPH: "${paragraph}"
+
+        Write in ${languageName}:
+        - altText: an alt text of at most ${ALT_TEXT_MAX_CHARS} characters describing what is actually visible in the image
+          (subjects, setting, notable details), for screen reader users and image search. Do not start with a word for "image" or "photo" (such as "이미지" or "사진").
+        - caption: a short caption of at most ${CAPTION_MAX_CHARS} characters to show under the image, tying it to the paragraph.
+        ${mainKeyword ? `Include "${mainKeyword}" in the alt text or caption only where it reads naturally; never force it in.` : ''}
+        `;
+
+        const jsonResponse = await getAiProvider().generateJson<{ altText?: string; caption?: string }>({
+            model: getModelFor('vision'),
+            prompt,
+            images: [{ data, mimeType }],
+            signal,
+            schema: {
+                type: 'object',
+                properties: {
+                    altText: { type: 'string', description: `The ${languageName} alt text.` },
+                    caption: { type: 'string', description: `The ${languageName} caption.` },
+                },
+                required: ['altText', 'caption'],
+            },
+        });
+
+        const altText = jsonResponse.altText?.trim() ?? '';
+        if (!altText) {
+            throw new Error("Empty response");
+        }
+        return { altText, caption: jsonResponse.caption?.trim() ?? '' };
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error("Error in generateImageDescription:", error);
+        throw new Error("AI 모델을 사용하여 이미지 대체 텍스트와 캡션을 만드는 데 실패했습니다.");
+    }
+};
@@ -0,0 +1,303 @@
+import type {
+    BatchQueue,
+    BatchRow,
+    BatchStage,
+    BatchTopicPick,
+    BlogProject,
+    ImageGenerationOptions,
+    ImageProcessingOptions,
+    NaverApiConfig,
+    PostGenerationOptions,
+    Result,
+} from "../types";
+import { fetchNaverBlogResults, NaverApiError } from "./naverService";
+import { analyzeKeywordCompetition, stripNaverHtml } from "./keywordAnalysis";
+import { generateBlogPost, generateSeoTopics, splitTextIntoParagraphs } from "./geminiService";
+import { finalizeResultImage } from "./imagePipeline";
+import { processImage } from "./imageService";
+import { findClosestTitle } from "./similarityCheck";
+import { createProject, getProject, saveProject } from "./projectService";
+import { buildExportEntries, toSafeFileName } from "./exportService";
+import { createZip } from "./zip";
+import type { ZipEntry } from "./zip";
+import { isAbortError } from "./abort";
+
+const STORAGE_KEY = 'batchQueue';
+
+export const DEFAULT_BATCH_PARAGRAPHS = 3;
+export const MAX_BATCH_PARAGRAPHS = 10;
+// Same sample as the interactive analysis, so batch posts see the same competition data.
+const ANALYSIS_SAMPLE_SIZE = 100;
+const TOP_RESULTS_COUNT = 10;
+
+export const BATCH_STAGE_LABELS: Record<BatchStage, string> = {
+    analysis: '키워드 분석',
+    topic: '주제 선택',
+    post: '글 작성',
+    split: '단락 나누기',
+    images: '이미지 생성',
+};
+
+export const BATCH_TOPIC_PICK_LABELS: Record<BatchTopicPick, string> = {
+    best: '가장 적합한 주제 (키워드 포함·상위 글과 덜 비슷한 제목)',
+    first: '첫 번째 추천 주제',
+};
+
+export const BATCH_CSV_TEMPLATE = [
+    '메인 키워드,추가 키워드,블로그명,단락 수',
+    '제주도 여행,"가을 제주, 렌터카",여행하는 곰,4',
+    '강아지 산책,산책 코스;하네스,,3',
+].join('\n') + '\n';
+
+export const EMPTY_BATCH_QUEUE: BatchQueue = { rows: [], topicPick: 'best' };
+
+/**
+ * Loads the batch queue. Rows that were running when the page closed go back to waiting;
+ * nothing runs until the user resumes the queue.
+ */
+export const loadBatchQueue = (): BatchQueue => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            const queue: BatchQueue = { ...EMPTY_BATCH_QUEUE, ...JSON.parse(stored) };
+            return {
+                ...queue,
+                rows: queue.rows.map(row => row.status === 'running' ? { ...row, status: 'queued', progress: undefined } : row),
+            };
+        }
+    } catch (error) {
+        console.warn("Failed to read the batch queue, starting empty:", error);
+    }
+    return EMPTY_BATCH_QUEUE;
+};
+
+// The queue holds only keywords and progress; posts and images live in the saved projects.
+export const saveBatchQueue = (queue: BatchQueue) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+};
+
+/**
+ * Splits CSV text into records, honouring double-quoted fields with commas, quotes ("") and line breaks.
+ */
+const parseCsvRecords = (text: string): string[][] => {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+    return records.filter(r => r.some(cell => cell.trim()));
+};
+
+/**
+ * Parses a keyword CSV into queued batch rows.
+ * Columns: main keyword, additional keywords, blog name, paragraph count. Only the first is required.
+ * A header row is skipped. Additional keywords may be separated by ';' or '|' so they need no quoting.
+ * @param text The CSV file contents (UTF-8, with or without a BOM).
+ * @returns The rows, in file order.
+ */
+export const parseBatchCsv = (text: string): BatchRow[] => {
+    const records = parseCsvRecords(text.replace(/^\uFEFF/, ''));
+    const hasHeader = records.length > 0 && /^(메인\s*)?키워드$|^(main\s*)?keyword$/i.test(records[0][0].trim());
+    if (hasHeader) records.shift();
+
+    const rows = records.map((record, index): BatchRow => {
+        const line = index + (hasHeader ? 2 : 1);
+        const [mainKeyword = '', additionalKeywords = '', blogName = '', count = ''] = record.map(cell => cell.trim());
+        if (!mainKeyword) {
+            throw new Error(`CSV ${line}번째 행에 메인 키워드가 없습니다.`);
+        }
+        const numParagraphs = count ? Number(count) : DEFAULT_BATCH_PARAGRAPHS;
+        if (!Number.isInteger(numParagraphs) || numParagraphs < 1 || numParagraphs > MAX_BATCH_PARAGRAPHS) {
+            throw new Error(`CSV ${line}번째 행의 단락 수는 1~${MAX_BATCH_PARAGRAPHS} 사이의 정수여야 합니다: ${count}`);
+        }
+        return {
+            id: crypto.randomUUID(),
+            mainKeyword,
+            additionalKeywords: additionalKeywords.split(/[;|]/).map(k => k.trim()).filter(Boolean).join(', '),
+            blogName,
+            numParagraphs,
+            status: 'queued',
+        };
+    });
+
+    if (rows.length === 0) {
+        throw new Error("CSV 파일에 키워드가 없습니다.");
+    }
+    return rows;
+};
+
+/**
+ * Picks the title to write about. 'best' prefers titles containing the main keyword,
+ * then those least similar to the ranking posts (Naver penalizes near-duplicates).
+ * @param topics The suggested titles, in the order the AI returned them.
+ * @param mainKeyword The primary keyword.
+ * @param competitorTitles Titles of the current top posts; may be empty.
+ * @param pick The selection rule.
+ */
+export const pickBatchTopic = (topics: string[], mainKeyword: string, competitorTitles: string[], pick: BatchTopicPick): string => {
+    if (pick === 'first') return topics[0];
+    const keyword = mainKeyword.replace(/\s+/g, '').toLowerCase();
+    const score = (topic: string) =>
+        (topic.replace(/\s+/g, '').toLowerCase().includes(keyword) ? 1 : 0) - findClosestTitle(topic, competitorTitles).similarity;
+    // Stable on ties, so the AI's own order breaks them.
+    return topics.reduce((best, topic) => score(topic) > score(best) ? topic : best);
+};
+
+// Everything a row needs besides its own columns; taken from the app's current settings.
+export interface BatchContext {
+    naverConfig: NaverApiConfig | null; // null when no Naver credentials are available
+    postOptions: PostGenerationOptions;
+    imageOptions: ImageGenerationOptions;
+    topicPick: BatchTopicPick;
+}
+
+/**
+ * Runs one row through analysis → topic → post → split → images, saving the project after
+ * every step. A row that already has a project continues from the first unfinished step,
+ * so resuming after a pause, an error or a reload never repeats finished work.
+ * @param row The row to run.
+ * @param context The settings shared by every row.
+ * @param onProgress Receives progress updates for the row, including its project id once created.
+ * @param signal An optional AbortSignal; aborting leaves the project at its last saved step.
+ * @returns A promise that resolves to the finished project.
+ */
+export const runBatchRow = async (
+    row: BatchRow,
+    context: BatchContext,
+    onProgress: (patch: Partial<BatchRow>) => void,
+    signal?: AbortSignal,
+): Promise<BlogProject> => {
+    const existing = row.projectId ? await getProject(row.projectId) : null;
+    let project: BlogProject = existing ?? {
+        ...createProject(`[일괄] ${row.mainKeyword}`),
+        mainKeyword: row.mainKeyword,
+        additionalKeywords: row.additionalKeywords,
+        blogName: row.blogName,
+        imageOptions: { ...context.imageOptions, candidates: 1 }, // Nobody is there to pick a candidate
+    };
+    const update = async (patch: Partial<BlogProject>) => {
+        project = await saveProject({ ...project, ...patch });
+    };
+    if (!existing) {
+        await update({});
+        onProgress({ projectId: project.id });
+    }
+
+    // The analysis only improves the topics, so the row goes on without it.
+    if (context.naverConfig && !project.keywordAnalysis && project.topicIdeas.length === 0) {
+        onProgress({ stage: 'analysis', progress: undefined });
+        try {
+            const relevant = await fetchNaverBlogResults(row.mainKeyword, context.naverConfig, { sort: 'sim', maxResults: ANALYSIS_SAMPLE_SIZE, signal });
+            const recent = await fetchNaverBlogResults(row.mainKeyword, context.naverConfig, { sort: 'date', maxResults: ANALYSIS_SAMPLE_SIZE, signal });
+            await update({
+                naverSearchResults: relevant.items.slice(0, TOP_RESULTS_COUNT),
+                keywordAnalysis: analyzeKeywordCompetition(row.mainKeyword, relevant.items, recent.items, relevant.total),
+            });
+        } catch (naverError) {
+            if (isAbortError(naverError)) throw naverError;
+            console.warn("Naver API call failed in batch:", naverError);
+            const detail = naverError instanceof NaverApiError ? ` (${naverError.code})` : '';
+            onProgress({ warning: `네이버 분석 없이 진행했습니다.${detail}` });
+        }
+    }
+
+    if (!project.selectedTopic) {
+        onProgress({ stage: 'topic', progress: undefined });
+        const topics = project.topicIdeas.length > 0 ? project.topicIdeas : await generateSeoTopics(row.mainKeyword, row.additionalKeywords, {
+            naverBlogs: project.naverSearchResults,
+            analysis: project.keywordAnalysis,
+        }, context.postOptions.language, signal);
+        if (topics.length === 0) {
+            throw new Error("모델이 주제를 반환하지 않았습니다.");
+        }
+        const topic = pickBatchTopic(topics, row.mainKeyword, project.naverSearchResults.map(item => stripNaverHtml(item.title)), context.topicPick);
+        await update({ topicIdeas: topics, selectedTopic: topic, name: topic, language: context.postOptions.language });
+        onProgress({ topic });
+    }
+    const title = project.selectedTopic!;
+
+    if (!project.generatedPost) {
+        onProgress({ stage: 'post', progress: undefined });
+        await update({ generatedPost: await generateBlogPost(title, row.blogName, context.postOptions, signal), step: 'VISUALIZE_POST' });
+    }
+
+    if (project.results.length === 0) {
+        onProgress({ stage: 'split', progress: undefined });
+        const paragraphs = await splitTextIntoParagraphs(project.generatedPost, row.numParagraphs, signal);
+        if (paragraphs.length === 0) {
+            throw new Error("텍스트를 단락으로 나누지 못했습니다.");
+        }
+        const results: Result[] = paragraphs.map(paragraph => ({ paragraph, prompt: '', imageUrl: '', imageSource: 'generate', editStatus: 'pending' }));
+        await update({ results, step: 'CUSTOMIZE_IMAGES' });
+    }
+
+    // One image at a time, each saved as soon as it exists.
+    const total = project.results.length;
+    for (let i = 0; i < total; i++) {
+        const result = project.results[i];
+        if (result.editStatus === 'done' && result.imageUrl) continue;
+        onProgress({ stage: 'images', progress: `이미지 ${i + 1}/${total}` });
+        const patch = await finalizeResultImage(result, project.imageOptions, undefined, signal);
+        await update({ results: project.results.map((r, index) => index === i ? { ...r, ...patch } : r) });
+    }
+
+    await update({ step: 'VIEW_RESULTS' });
+    onProgress({ stage: undefined, progress: undefined });
+    return project;
+};
+
+/**
+ * Bundles the finished projects into one ZIP with a folder per post, in the same layout as
+ * the single-post export, plus a summary CSV of which keyword produced which post.
+ * @param projects The finished projects, in batch order.
+ * @param processing The image post-processing applied to every image.
+ */
+export const buildBatchExportZip = async (projects: BlogProject[], processing: ImageProcessingOptions): Promise<Blob> => {
+    const entries: ZipEntry[] = [];
+    const summary = ['폴더,메인 키워드,제목'];
+    const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+    for (const [index, project] of projects.entries()) {
+        const folder = `${String(index + 1).padStart(2, '0')}_${toSafeFileName(project.mainKeyword, 'post')}`;
+        const results: Result[] = [];
+        // One image at a time, like the single-post export, to keep memory use flat.
+        for (const result of project.results.filter(r => r.editStatus === 'done' && r.imageUrl)) {
+            results.push(processing.enabled ? { ...result, imageUrl: await processImage(result.imageUrl, processing, project.blogName) } : result);
+        }
+        entries.push(...buildExportEntries({ title: project.selectedTopic, results, metadata: project.publishingMetadata, language: project.language }, `${folder}/`));
+        summary.push([folder, project.mainKeyword, project.selectedTopic ?? ''].map(quote).join(','));
+    }
+    // The BOM makes Excel read the Korean text as UTF-8.
+    entries.push({ name: 'summary.csv', data: '\uFEFF' + summary.join('\n') + '\n' });
+    return createZip(entries);
+};
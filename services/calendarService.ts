@@ -0,0 +1,164 @@
+import type { BlogProject, CalendarEntry, CalendarEntryStatus } from "../types";
+
+const STORAGE_KEY = 'contentCalendar';
+
+export const CALENDAR_STATUS_LABELS: Record<CalendarEntryStatus, string> = {
+    'idea': '아이디어',
+    'drafted': '초안 작성',
+    'images-ready': '이미지 완료',
+    'published': '발행됨',
+};
+
+// Statuses in the order a post moves through them.
+const STATUS_ORDER: CalendarEntryStatus[] = ['idea', 'drafted', 'images-ready', 'published'];
+
+export const WEEKDAY_LABELS = ['일', '월', '화', '수', '목', '금', '토'];
+
+/**
+ * Loads the calendar entries from localStorage.
+ */
+export const loadCalendarEntries = (): CalendarEntry[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) return JSON.parse(stored);
+    } catch (error) {
+        console.warn("Failed to read the content calendar, starting empty:", error);
+    }
+    return [];
+};
+
+export const saveCalendarEntries = (entries: CalendarEntry[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+};
+
+export const createCalendarEntry = (date: string, patch: Partial<CalendarEntry> = {}): CalendarEntry => ({
+    id: crypto.randomUUID(),
+    date,
+    keyword: '',
+    status: 'idea',
+    ...patch,
+});
+
+/**
+ * Formats a date as the 'YYYY-MM-DD' key entries use, in local time.
+ */
+export const toDateKey = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const parseDateKey = (key: string): Date => {
+    const [year, month, day] = key.split('-').map(Number);
+    return new Date(year, month - 1, day);
+};
+
+export const addDays = (date: Date, days: number): Date =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/**
+ * Returns the seven days of the week (Sunday first) containing `date`.
+ */
+export const getWeekDays = (date: Date): Date[] => {
+    const sunday = addDays(date, -date.getDay());
+    return Array.from({ length: 7 }, (_, i) => addDays(sunday, i));
+};
+
+/**
+ * Returns the weeks shown for the month containing `date`: whole weeks, Sunday first,
+ * from the week of the 1st to the week of the last day.
+ */
+export const getMonthWeeks = (date: Date): Date[][] => {
+    const first = new Date(date.getFullYear(), date.getMonth(), 1);
+    const last = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+    const weeks: Date[][] = [];
+    for (let start = addDays(first, -first.getDay()); start <= last; start = addDays(start, 7)) {
+        weeks.push(getWeekDays(start));
+    }
+    return weeks;
+};
+
+/**
+ * Works out how far a linked project has come. Publishing cannot be seen from the project,
+ * so 'published' is only ever set by the user.
+ */
+export const statusFromProject = (project: BlogProject): CalendarEntryStatus => {
+    if (project.step === 'VIEW_RESULTS') return 'images-ready';
+    if (project.generatedPost || (project.outline?.some(section => section.content) ?? false)) return 'drafted';
+    return 'idea';
+};
+
+/**
+ * Moves an entry forward to its project's status. Entries never move backwards, so a status
+ * set by hand is kept until the project catches up.
+ */
+export const syncEntryWithProject = (entry: CalendarEntry, project: BlogProject): CalendarEntry => {
+    const projectStatus = statusFromProject(project);
+    const isAhead = STATUS_ORDER.indexOf(projectStatus) > STATUS_ORDER.indexOf(entry.status);
+    const topic = entry.topic || project.selectedTopic;
+    return isAhead || topic !== entry.topic ? { ...entry, status: isAhead ? projectStatus : entry.status, topic } : entry;
+};
+
+// Text values in iCalendar escape backslashes, semicolons, commas and line breaks.
+const escapeIcsText = (text: string) =>
+    text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/**
+ * Folds a content line to at most 75 octets per line, as RFC 5545 requires.
+ * Korean characters take three octets in UTF-8, so the octets are counted, not the characters.
+ */
+const foldIcsLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = encoder.encode(char).length;
+        // Continuation lines start with a space, which counts toward their 75 octets.
+        if (octets + size > (parts.length === 0 ? 75 : 74)) {
+            parts.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+const toIcsDate = (key: string) => key.replace(/-/g, '');
+
+/**
+ * Exports the entries as an iCalendar file of all-day events, for Google Calendar, Outlook and the like.
+ * @param entries The entries to include.
+ * @param now The export time, stamped on every event.
+ */
+export const buildIcs = (entries: CalendarEntry[], now: Date = new Date()): string => {
+    const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//AI Blog Assistant//Content Calendar//KO',
+        'CALSCALE:GREGORIAN',
+        'X-WR-CALNAME:블로그 콘텐츠 캘린더',
+    ];
+    for (const entry of entries) {
+        const description = [
+            `키워드: ${entry.keyword}`,
+            `상태: ${CALENDAR_STATUS_LABELS[entry.status]}`,
+            entry.publishedUrl && `주소: ${entry.publishedUrl}`,
+            entry.note,
+        ].filter(Boolean).join('\n');
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${entry.id}@ai-blog-assistant`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;VALUE=DATE:${toIcsDate(entry.date)}`,
+            `DTEND;VALUE=DATE:${toIcsDate(toDateKey(addDays(parseDateKey(entry.date), 1)))}`,
+            `SUMMARY:${escapeIcsText(`[${CALENDAR_STATUS_LABELS[entry.status]}] ${entry.topic || entry.keyword}`)}`,
+            `DESCRIPTION:${escapeIcsText(description)}`,
+            ...(entry.publishedUrl ? [`URL:${entry.publishedUrl}`] : []),
+            'END:VEVENT',
+        );
+    }
+    lines.push('END:VCALENDAR');
+    return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
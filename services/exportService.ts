@@ -0,0 +1,228 @@
+import type { OutputLanguage, PublishingMetadata, Result } from "../types";
+import { createZip } from "./zip";
+import type { ZipEntry } from "./zip";
+import { formatHashtags, formatMetadataBlock, hasPublishingMetadata } from "./publishingMetadata";
+import { markdownToHtml, stripMarkdown } from "./markdown";
+import { DEFAULT_OUTPUT_LANGUAGE } from "./languages";
+
+// What gets exported: the finished post with its images and publishing metadata.
+export interface ExportDocument {
+    title?: string;
+    results: Result[];
+    metadata?: PublishingMetadata;
+    language?: OutputLanguage; // Korean when missing
+}
+
+// How text is copied: as rich text for the SmartEditor, or as plain text without the Markdown syntax.
+export type CopyFormat = 'rich' | 'plain';
+
+const MIME_EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+};
+
+/**
+ * Splits a base64 data URL into its MIME type and decoded bytes.
+ */
+export const parseDataUrl = (dataUrl: string): { mimeType: string; bytes: Uint8Array } => {
+    const match = dataUrl.match(/^data:([^;,]+)(;base64)?,(.*)$/s);
+    if (!match) {
+        throw new Error("올바른 data URL 형식의 이미지가 아닙니다.");
+    }
+    const [, mimeType, isBase64, payload] = match;
+    const binary = isBase64 ? atob(payload) : decodeURIComponent(payload);
+    return { mimeType, bytes: Uint8Array.from(binary, c => c.charCodeAt(0)) };
+};
+
+/**
+ * Returns the file extension matching a data URL's actual MIME type.
+ */
+export const getImageExtension = (dataUrl: string): string => {
+    const mimeType = dataUrl.match(/^data:([^;,]+)/)?.[1] ?? '';
+    return MIME_EXTENSIONS[mimeType] ?? 'png';
+};
+
+/**
+ * Builds the numbered file name for the image of the paragraph at `index` (0-based).
+ */
+export const getImageFileName = (index: number, dataUrl: string): string =>
+    `image_${String(index + 1).padStart(2, '0')}.${getImageExtension(dataUrl)}`;
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const exportableResults = (doc: ExportDocument) => doc.results.filter(r => r.imageUrl);
+
+// Results from before alt texts existed fall back to the image prompt.
+const getAltText = (result: Result) => result.altText || result.prompt;
+
+/**
+ * Builds HTML with the text and images in order.
+ * With the default `imageSrc`, images are inlined as data URLs so the markup can be pasted
+ * straight into the Naver SmartEditor from the clipboard.
+ * @param doc The post to export.
+ * @param imageSrc Maps a result to the `src` of its image (e.g. a relative file path in a ZIP).
+ */
+export const buildHtml = (doc: ExportDocument, imageSrc: (result: Result, index: number) => string = r => r.imageUrl): string => {
+    const blocks: string[] = [];
+    if (doc.title) {
+        blocks.push(`<h2>${escapeHtml(doc.title)}</h2>`);
+    }
+    exportableResults(doc).forEach((result, index) => {
+        const img = `<img src="${imageSrc(result, index)}" alt="${escapeHtml(getAltText(result))}" style="max-width:100%;" />`;
+        blocks.push(result.caption
+            ? `<figure>${img}<figcaption style="text-align:center;color:#666;font-size:14px;">${escapeHtml(result.caption)}</figcaption></figure>`
+            : `<p>${img}</p>`);
+        blocks.push(markdownToHtml(result.paragraph));
+    });
+    // The SmartEditor turns hashtags at the end of the body into the post's tags.
+    if (doc.metadata?.hashtags.length) {
+        blocks.push(`<p>${escapeHtml(formatHashtags(doc.metadata.hashtags))}</p>`);
+    }
+    return blocks.join('\n');
+};
+
+/**
+ * Builds YAML front matter for the metadata. Strings are written as JSON, which is valid YAML.
+ */
+const buildFrontMatter = (metadata: PublishingMetadata): string => [
+    '---',
+    metadata.altTitle && `altTitle: ${JSON.stringify(metadata.altTitle)}`,
+    metadata.summary && `description: ${JSON.stringify(metadata.summary)}`,
+    metadata.category && `category: ${JSON.stringify(metadata.category)}`,
+    metadata.hashtags.length > 0 && `tags: ${JSON.stringify(metadata.hashtags)}`,
+    '---',
+].filter(Boolean).join('\n');
+
+/**
+ * Builds a Markdown document with image references, with the publishing metadata as front matter.
+ * @param doc The post to export.
+ * @param imagePath Maps a result to the path used in its image reference.
+ */
+export const buildMarkdown = (doc: ExportDocument, imagePath: (result: Result, index: number) => string): string => {
+    const blocks: string[] = [];
+    if (hasPublishingMetadata(doc.metadata)) {
+        blocks.push(buildFrontMatter(doc.metadata));
+    }
+    if (doc.title) {
+        blocks.push(`# ${doc.title}`);
+    }
+    exportableResults(doc).forEach((result, index) => {
+        blocks.push(`![${getAltText(result).replace(/[[\]]/g, '')}](${imagePath(result, index)})`);
+        if (result.caption) {
+            blocks.push(`*${result.caption.replace(/[*_]/g, '')}*`);
+        }
+        blocks.push(result.paragraph);
+    });
+    return blocks.join('\n\n') + '\n';
+};
+
+/**
+ * Builds the post as plain text, with the Markdown syntax removed.
+ */
+export const buildPlainText = (doc: ExportDocument): string => {
+    const hashtags = doc.metadata ? formatHashtags(doc.metadata.hashtags) : '';
+    return [doc.title, ...exportableResults(doc).map(r => stripMarkdown(r.paragraph)), hashtags].filter(Boolean).join('\n\n');
+};
+
+const writeRichText = (html: string, plainText: string) => navigator.clipboard.write([
+    new ClipboardItem({
+        'text/html': new Blob([html], { type: 'text/html' }),
+        'text/plain': new Blob([plainText], { type: 'text/plain' }),
+    }),
+]);
+
+/**
+ * Copies the post to the clipboard as rich HTML (for the SmartEditor) with a plain-text fallback.
+ */
+export const copyHtmlToClipboard = async (doc: ExportDocument): Promise<void> => {
+    await writeRichText(buildHtml(doc), buildPlainText(doc));
+};
+
+/**
+ * Copies the post to the clipboard as plain text only, for editors that would keep the formatting wrong.
+ */
+export const copyPlainTextToClipboard = async (doc: ExportDocument): Promise<void> => {
+    await navigator.clipboard.writeText(buildPlainText(doc));
+};
+
+/**
+ * Copies a piece of Markdown, such as one paragraph, in the given format.
+ */
+export const copyMarkdownToClipboard = async (markdown: string, format: CopyFormat): Promise<void> => {
+    if (format === 'rich') {
+        await writeRichText(markdownToHtml(markdown), stripMarkdown(markdown));
+    } else {
+        await navigator.clipboard.writeText(stripMarkdown(markdown));
+    }
+};
+
+/**
+ * Lists the files of an exported post: an HTML and a Markdown document referencing
+ * numbered image files, the images themselves, a manifest of prompts and metadata,
+ * and the publishing metadata as a text file ready to copy.
+ * @param folder Prefix for every file name (e.g. 'post_1/'), for bundling several posts.
+ */
+export const buildExportEntries = (doc: ExportDocument, folder = ''): ZipEntry[] => {
+    const results = exportableResults(doc);
+    const imagePath = (result: Result, index: number) => `images/${getImageFileName(index, result.imageUrl)}`;
+
+    const entries: ZipEntry[] = results.map((result, index) => ({
+        name: imagePath(result, index),
+        data: parseDataUrl(result.imageUrl).bytes,
+    }));
+
+    const manifest = {
+        title: doc.title ?? null,
+        metadata: doc.metadata ?? null,
+        exportedAt: new Date().toISOString(),
+        images: results.map((result, index) => ({
+            file: imagePath(result, index),
+            mimeType: parseDataUrl(result.imageUrl).mimeType,
+            prompt: result.prompt,
+            altText: result.altText ?? null,
+            caption: result.caption ?? null,
+            editPrompt: result.editPrompt ?? null,
+            source: result.imageSource,
+        })),
+    };
+
+    const htmlBody = buildHtml(doc, imagePath);
+    const description = doc.metadata?.summary ? `<meta name="description" content="${escapeHtml(doc.metadata.summary)}" />` : '';
+    entries.push(
+        { name: 'post.html', data: `<!DOCTYPE html>\n<html lang="${doc.language ?? DEFAULT_OUTPUT_LANGUAGE}">\n<head><meta charset="UTF-8" />${description}<title>${escapeHtml(doc.title ?? '블로그 포스트')}</title></head>\n<body>\n${htmlBody}\n</body>\n</html>\n` },
+        { name: 'post.md', data: buildMarkdown(doc, imagePath) },
+        { name: 'manifest.json', data: JSON.stringify(manifest, null, 2) },
+    );
+    if (hasPublishingMetadata(doc.metadata)) {
+        entries.push({ name: 'metadata.txt', data: formatMetadataBlock(doc.metadata) + '\n' });
+    }
+    return entries.map(entry => ({ ...entry, name: folder + entry.name }));
+};
+
+/**
+ * Bundles the post as a ZIP of the files listed by buildExportEntries.
+ */
+export const buildExportZip = (doc: ExportDocument): Blob => createZip(buildExportEntries(doc));
+
+/**
+ * Replaces characters that are not allowed in file names.
+ */
+export const toSafeFileName = (name: string, fallback: string): string =>
+    name.trim().replace(/[\\/:*?"<>|]/g, '_') || fallback;
+
+/**
+ * Triggers a browser download of a Blob or data URL.
+ */
+export const downloadFile = (data: Blob | string, fileName: string) => {
+    const url = typeof data === 'string' ? data : URL.createObjectURL(data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    if (typeof data !== 'string') {
+        URL.revokeObjectURL(url);
+    }
+};
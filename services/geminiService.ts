@@ -1,32 +1,67 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import type { NaverBlogItem } from "../types";
+import type { ImageGenerationOptions, KeywordAnalysis, KeywordTrendSummary, NaverBlogItem, OutputLanguage, PostGenerationOptions } from "../types";
+import { getAiProvider, getModelFor } from "./providers";
+import { isAbortError } from "./abort";
+import { formatAnalysisForPrompt, stripNaverHtml } from "./keywordAnalysis";
+import { formatTrendForPrompt } from "./trendAnalysis";
+import { buildPostOptionsPrompt, DEFAULT_POST_OPTIONS } from "./postOptions";
+import { applyImageStyle, DEFAULT_IMAGE_OPTIONS } from "./imageOptions";
+import { DEFAULT_OUTPUT_LANGUAGE, LANGUAGE_PROMPT_NAMES } from "./languages";
 
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable is not set.");
+export interface TopicContext {
+    naverBlogs?: NaverBlogItem[]; // Top-ranking Naver blog posts for the keyword
+    analysis?: KeywordAnalysis; // Competition analysis computed from a larger result sample
+    trend?: KeywordTrendSummary[]; // Naver DataLab search trends for the main and additional keywords
 }
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
 /**
  * Generates SEO-optimized blog topic ideas based on keywords and real Naver search results.
  * @param mainKeyword The primary keyword for the blog post.
  * @param additionalKeywords Supporting keywords to include.
- * @param naverBlogs An optional array of top-ranking Naver blog posts for context.
+ * @param context Optional live Naver data: the top-ranking posts and the keyword competition analysis.
+ * @param language The language to write the titles in.
+ * @param signal An optional AbortSignal to cancel the request.
  * @returns A promise that resolves to an array of 3 topic strings.
  */
-export const generateSeoTopics = async (mainKeyword: string, additionalKeywords: string, naverBlogs?: NaverBlogItem[]): Promise<string[]> => {
+export const generateSeoTopics = async (
+    mainKeyword: string,
+    additionalKeywords: string,
+    context: TopicContext = {},
+    language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE,
+    signal?: AbortSignal,
+): Promise<string[]> => {
+    const { naverBlogs, analysis, trend } = context;
+    const languageName = LANGUAGE_PROMPT_NAMES[language];
     try {
+        // The research is Korean either way; for other languages it only informs the angle.
+        const readers = language === 'ko' ? '' : `
+            The post is for ${languageName}-speaking readers, such as tourists visiting Korea or overseas buyers.
+            Write the titles as a native ${languageName} writer would, with the words those readers would search for, rather than translating Korean titles.
+            `;
+        const timing = trend && trend.length > 0 ? `
+            Naver DataLab search trends for these keywords:
+            ${formatTrendForPrompt(trend)}
+            Fit the titles to this timing: lean into rising keywords and upcoming seasonal peaks, and avoid angles whose season has just passed.
+            ` : '';
         let prompt: string;
         // If we have data from the Naver API, create a more detailed prompt.
         if (naverBlogs && naverBlogs.length > 0) {
-            const topTitles = naverBlogs.map(blog => `- "${blog.title.replace(/<[^>]*>/g, '')}"`).join('\n');
+            const topTitles = naverBlogs.map(blog => `- "${stripNaverHtml(blog.title)}"`).join('\n');
+            const findings = analysis ? `
+            A competition analysis of ${analysis.sampleSize} Naver blog posts for this keyword found:
+            ${formatAnalysisForPrompt(analysis)}
+            Use these findings: match the typical title length, use the keyword placement that ranks, work in relevant co-occurring terms,
+            and if competition is high, prefer a more specific long-tail angle that the top posts do not cover.
+            ` : '';
             prompt = `
             You are an expert SEO content strategist specializing in Naver blogs in Korea.
             I have just analyzed the Naver API for the keyword "${mainKeyword}" and these are the titles of the current top 10 ranking blog posts:
             ---
             ${topTitles}
             ---
-            Based on this live analysis and incorporating the following additional keywords "${additionalKeywords}", please generate 3 compelling, SEO-optimized blog post titles in Korean.
+            ${findings}
+            ${timing}
+            ${readers}
+            Based on this live analysis and incorporating the following additional keywords "${additionalKeywords}", please generate 3 compelling, SEO-optimized blog post titles in ${languageName}.
             The titles should be creative, distinct from the list above, and likely to rank high on Naver search.
             Return ONLY a JSON object with a "titles" key containing an array of 3 strings.
             `;
@@ -35,77 +70,131 @@ export const generateSeoTopics = async (mainKeyword: string, additionalKeywords:
             prompt = `
             You are an expert SEO content strategist specializing in Naver blogs in Korea.
             Imagine you have analyzed the top 10 Naver blog posts for the keyword "${mainKeyword}".
-            Based on that analysis and incorporating the following additional keywords "${additionalKeywords}", please generate 3 compelling, SEO-optimized blog post titles in Korean.
+            ${timing}
+            ${readers}
+            Based on that analysis and incorporating the following additional keywords "${additionalKeywords}", please generate 3 compelling, SEO-optimized blog post titles in ${languageName}.
             The titles should be catchy and likely to rank high on Naver search.
             Return ONLY a JSON object with a "titles" key containing an array of 3 strings.
             `;
         }
 
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        titles: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.STRING,
-                                description: 'An SEO-optimized blog post title in Korean.'
-                            }
+        const jsonResponse = await getAiProvider().generateJson<{ titles?: string[] }>({
+            model: getModelFor('topics'),
+            prompt,
+            signal,
+            schema: {
+                type: 'object',
+                properties: {
+                    titles: {
+                        type: 'array',
+                        items: {
+                            type: 'string',
+                            description: `An SEO-optimized blog post title in ${languageName}.`
                         }
                     }
                 }
             }
         });
 
-        const jsonResponse = JSON.parse(response.text);
         return jsonResponse.titles || [];
 
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Error in generateSeoTopics:", error);
-        throw new Error("Gemini API를 사용하여 블로그 주제를 생성하는 데 실패했습니다.");
+        throw new Error("AI 모델을 사용하여 블로그 주제를 생성하는 데 실패했습니다.");
+    }
+};
+
+/**
+ * Expands a keyword into related keywords and long-tail search phrases Korean users type on Naver.
+ * @param mainKeyword The primary keyword.
+ * @param naverTerms Terms that co-occur with the keyword in current Naver results, used as hints.
+ * @param signal An optional AbortSignal to cancel the request.
+ * @returns A promise that resolves to the related keywords and the long-tail phrases.
+ */
+export const suggestRelatedKeywords = async (mainKeyword: string, naverTerms: string[], signal?: AbortSignal): Promise<{ related: string[]; longTail: string[] }> => {
+    try {
+        const prompt = `
+        You are a keyword researcher for Naver blogs in Korea.
+        For the main keyword "${mainKeyword}", suggest:
+        - "related": 8 related keywords (2-3 words) that people interested in this topic also search for.
+        - "longTail": 8 long-tail search phrases (3-6 words) that contain or extend the main keyword and have clear search intent,
+          such as questions, comparisons, locations, prices or situations.
+        ${naverTerms.length > 0 ? `These terms appear often in the current top Naver posts and may hint at what searchers care about: ${naverTerms.join(', ')}` : ''}
+        All suggestions must be in Korean, written the way users actually type them into Naver search, and must not repeat the main keyword alone.
+        Return ONLY a JSON object with "related" and "longTail" keys, each containing an array of strings.
+        `;
+
+        const jsonResponse = await getAiProvider().generateJson<{ related?: string[]; longTail?: string[] }>({
+            model: getModelFor('topics'),
+            prompt,
+            signal,
+            schema: {
+                type: 'object',
+                properties: {
+                    related: { type: 'array', items: { type: 'string', description: 'A related keyword in Korean.' } },
+                    longTail: { type: 'array', items: { type: 'string', description: 'A long-tail search phrase in Korean.' } },
+                }
+            }
+        });
+
+        return { related: jsonResponse.related || [], longTail: jsonResponse.longTail || [] };
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error("Error in suggestRelatedKeywords:", error);
+        throw new Error("AI 모델을 사용하여 연관 키워드를 추천하는 데 실패했습니다.");
     }
 };
 
 /**
  * Generates a full blog post from a given title, personalizing it with a blog/company name.
+ * The text is streamed; `onText` receives the full text generated so far after every chunk,
+ * so a cancelled generation still leaves the partial post with the caller.
  * @param title The selected blog post title.
  * @param blogName The user's blog or company name to naturally include in the post.
+ * @param options Tone, audience, length, sections and formatting rules for the post.
+ * @param signal An optional AbortSignal to cancel the generation.
+ * @param onText An optional callback receiving the text generated so far.
  * @returns A promise that resolves to the full blog post content as a string.
  */
-export const generateBlogPost = async (title: string, blogName: string): Promise<string> => {
+export const generateBlogPost = async (
+    title: string,
+    blogName: string,
+    options: PostGenerationOptions = DEFAULT_POST_OPTIONS,
+    signal?: AbortSignal,
+    onText?: (textSoFar: string) => void,
+): Promise<string> => {
     try {
         const prompt = `
         You are a helpful and engaging blog writer for Naver blogs.
-        Write a high-quality, SEO-friendly blog post in Korean based on the following title: "${title}".
-        The post should be well-structured with a clear introduction, a detailed body with multiple paragraphs, and a concluding summary.
-        Use engaging language and formatting like bullet points or numbered lists where appropriate to make the post easy to read.
-        The tone should be friendly and informative.
+        Write a high-quality, SEO-friendly blog post in ${LANGUAGE_PROMPT_NAMES[options.language]} based on the following title: "${title}".
+        The post should be well-structured with a detailed body of multiple paragraphs.
+        Follow these requirements:
+        ${buildPostOptionsPrompt(options)}
         ${blogName ? `Throughout the article, naturally and appropriately mention the blog or company name "${blogName}" where it makes sense to do so.` : ''}
         `;
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-        });
-
-        return response.text.trim();
+        let text = '';
+        for await (const chunk of getAiProvider().streamText({ model: getModelFor('post'), prompt, signal })) {
+            text += chunk;
+            onText?.(text);
+        }
+        return text.trim();
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Error in generateBlogPost:", error);
-        throw new Error("Gemini API를 사용하여 블로그 포스트를 생성하는 데 실패했습니다.");
+        throw new Error("AI 모델을 사용하여 블로그 포스트를 생성하는 데 실패했습니다.");
     }
 };
 
 /**
- * Splits a given text into a specified number of paragraphs using Gemini.
+ * Splits a given text into a specified number of paragraphs using the configured AI provider.
  * @param text The full blog post text.
  * @param count The desired number of paragraphs.
+ * @param signal An optional AbortSignal to cancel the request.
  * @returns A promise that resolves to an array of strings, each being a paragraph.
  */
-export const splitTextIntoParagraphs = async (text: string, count: number): Promise<string[]> => {
+export const splitTextIntoParagraphs = async (text: string, count: number, signal?: AbortSignal): Promise<string[]> => {
     try {
         const prompt = `
         Analyze the following text and divide it into exactly ${count} coherent and roughly equal-sized paragraphs.
@@ -117,41 +206,40 @@ export const splitTextIntoParagraphs = async (text: string, count: number): Prom
         ---
         `;
 
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        paragraphs: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.STRING,
-                                description: 'A single paragraph from the divided text.'
-                            }
+        const jsonResponse = await getAiProvider().generateJson<{ paragraphs?: string[] }>({
+            model: getModelFor('split'),
+            prompt,
+            signal,
+            schema: {
+                type: 'object',
+                properties: {
+                    paragraphs: {
+                        type: 'array',
+                        items: {
+                            type: 'string',
+                            description: 'A single paragraph from the divided text.'
                         }
                     }
                 }
             }
         });
 
-        const jsonResponse = JSON.parse(response.text);
         return jsonResponse.paragraphs || [];
 
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Error in splitTextIntoParagraphs:", error);
-        throw new Error("Gemini API를 사용하여 텍스트를 나누는 데 실패했습니다.");
+        throw new Error("AI 모델을 사용하여 텍스트를 나누는 데 실패했습니다.");
     }
 };
 
 /**
  * Creates a visually descriptive image generation prompt from a paragraph of text.
  * @param paragraph The text to analyze. This text may be in Korean.
+ * @param signal An optional AbortSignal to cancel the request.
  * @returns A promise that resolves to a string containing the image prompt in English.
  */
-export const createImagePrompt = async (paragraph: string): Promise<string> => {
+export const createImagePrompt = async (paragraph: string, signal?: AbortSignal): Promise<string> => {
     try {
         const prompt = `
         Analyze the following paragraph, which may be in Korean. Create a short, visually descriptive prompt in ENGLISH for an image generation model.
@@ -163,109 +251,209 @@ export const createImagePrompt = async (paragraph: string): Promise<string> => {
         PROMPT:
         `;
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-        });
-
-        return response.text.trim();
+        return await getAiProvider().generateText({ model: getModelFor('imagePrompt'), prompt, signal });
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Error in createImagePrompt:", error);
-        throw new Error("Gemini API를 사용하여 이미지 프롬프트를 만드는 데 실패했습니다.");
+        throw new Error("AI 모델을 사용하여 이미지 프롬프트를 만드는 데 실패했습니다.");
     }
 };
 
 /**
- * Generates an image based on a text prompt.
- * @param prompt The image generation prompt.
- * @returns A promise that resolves to a base64 data URL of the generated image.
+ * Creates a variation of an existing image prompt, keeping the subject but changing
+ * composition, viewpoint or lighting, so a re-rolled image differs noticeably.
+ * @param imagePrompt The English image prompt to vary.
+ * @param signal An optional AbortSignal to cancel the request.
+ * @returns A promise that resolves to the varied English prompt.
+ */
+export const createImagePromptVariation = async (imagePrompt: string, signal?: AbortSignal): Promise<string> => {
+    try {
+        const prompt = `
+        Rewrite the following image generation prompt as a variation. Keep the same main subject and mood,
+        but change the composition, camera angle, lighting or setting details so the resulting image looks clearly different.
+        Respond with only the new English prompt text itself, without any extra formatting or explanation.
+        
+        ORIGINAL PROMPT: "${imagePrompt}"
+        
+        VARIATION:
+        `;
+
+        return await getAiProvider().generateText({ model: getModelFor('imagePrompt'), prompt, signal });
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error("Error in createImagePromptVariation:", error);
+        throw new Error("AI 모델을 사용하여 이미지 프롬프트 변형을 만드는 데 실패했습니다.");
+    }
+};
+
+/**
+ * Rewrites a single paragraph following the user's instruction, keeping its language and role in the post.
+ * @param paragraph The paragraph to rewrite.
+ * @param instruction What to change (e.g. "더 간결하게", "가격 정보를 추가해줘").
+ * @param signal An optional AbortSignal to cancel the request.
+ * @returns A promise that resolves to the rewritten paragraph.
  */
-export const generateImage = async (prompt: string): Promise<string> => {
+export const rewriteParagraph = async (paragraph: string, instruction: string, signal?: AbortSignal): Promise<string> => {
     try {
-        const response = await ai.models.generateImages({
-            model: 'imagen-4.0-generate-001',
-            prompt: prompt,
-            config: {
-              numberOfImages: 1,
-              outputMimeType: 'image/jpeg',
-              aspectRatio: '16:9',
-            },
+        const prompt = `
+        You are editing one paragraph of a Naver blog post.
+        Rewrite the paragraph below according to the instruction. Keep the original language, tone and its role in the post,
+        and change only what the instruction asks for.
+        Respond with only the rewritten paragraph, without any extra formatting or explanation.
+        
+        INSTRUCTION: ${instruction}
+        
+        PARAGRAPH:
+        ---
+        ${paragraph}
+        ---
+        `;
+
+        return await getAiProvider().generateText({ model: getModelFor('post'), prompt, signal });
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error("Error in rewriteParagraph:", error);
+        throw new Error("AI 모델을 사용하여 단락을 다시 쓰는 데 실패했습니다.");
+    }
+};
+
+/**
+ * Rewrites sentences that overlap too much with competitor posts, keeping their meaning.
+ * @param sentences The flagged sentences, in the order they appear in the post.
+ * @param language The language of the post, which the rewritten sentences stay in.
+ * @param signal An optional AbortSignal to cancel the request.
+ * @returns A promise that resolves to one rewritten sentence per input sentence, in the same order.
+ */
+export const rewriteSentencesForOriginality = async (
+    sentences: string[],
+    language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE,
+    signal?: AbortSignal,
+): Promise<string[]> => {
+    const languageName = LANGUAGE_PROMPT_NAMES[language];
+    try {
+        const prompt = `
+        The following sentences from a ${languageName} Naver blog post are too similar to posts that already rank on Naver.
+        Rewrite each sentence so it keeps the same meaning and fits back into the post in the same place,
+        but uses clearly different wording and sentence structure. Write in ${languageName} and keep the friendly blog tone.
+        Return ONLY a JSON object with a "sentences" key containing exactly ${sentences.length} rewritten sentences, in the same order.
+
+        SENTENCES:
+        ${sentences.map((sentence, index) => `${index + 1}. ${sentence}`).join('\n')}
+        `;
+
+        const jsonResponse = await getAiProvider().generateJson<{ sentences?: string[] }>({
+            model: getModelFor('post'),
+            prompt,
+            signal,
+            schema: {
+                type: 'object',
+                properties: {
+                    sentences: { type: 'array', items: { type: 'string', description: `A rewritten sentence in ${languageName}.` } },
+                }
+            }
         });
 
-        if (response.generatedImages && response.generatedImages.length > 0) {
-            const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
-            return `data:image/jpeg;base64,${base64ImageBytes}`;
-        } else {
-            throw new Error("이미지 생성 결과 이미지가 없습니다.");
+        const rewritten = jsonResponse.sentences || [];
+        if (rewritten.length !== sentences.length) {
+            throw new Error(`Expected ${sentences.length} sentences, got ${rewritten.length}`);
         }
+        return rewritten;
     } catch (error) {
-        console.error("Error in generateImage:", error);
-        throw new Error("Imagen API를 사용하여 이미지를 생성하는 데 실패했습니다.");
+        if (isAbortError(error)) throw error;
+        console.error("Error in rewriteSentencesForOriginality:", error);
+        throw new Error("AI 모델을 사용하여 겹치는 문장을 다시 쓰는 데 실패했습니다.");
     }
 };
 
+/**
+ * Generates one or more candidate images for a text prompt.
+ * @param prompt The image generation prompt, in English.
+ * @param options Aspect ratio, style preset, negative prompt and number of candidates.
+ * @param signal An optional AbortSignal to cancel the request.
+ * @returns A promise that resolves to base64 data URLs of the generated images.
+ */
+export const generateImages = async (prompt: string, options: ImageGenerationOptions = DEFAULT_IMAGE_OPTIONS, signal?: AbortSignal): Promise<string[]> => {
+    try {
+        return await getAiProvider().generateImage({
+            model: getModelFor('image'),
+            prompt: applyImageStyle(prompt, options.style),
+            aspectRatio: options.aspectRatio,
+            count: options.candidates,
+            negativePrompt: options.negativePrompt.trim() || undefined,
+            signal,
+        });
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error("Error in generateImages:", error);
+        throw new Error("AI 이미지 모델을 사용하여 이미지를 생성하는 데 실패했습니다.");
+    }
+};
+
+/**
+ * Generates a single image based on a text prompt.
+ * @param prompt The image generation prompt.
+ * @param options Aspect ratio, style preset and negative prompt; the candidate count is ignored.
+ * @param signal An optional AbortSignal to cancel the request.
+ * @returns A promise that resolves to a base64 data URL of the generated image.
+ */
+export const generateImage = async (prompt: string, options: ImageGenerationOptions = DEFAULT_IMAGE_OPTIONS, signal?: AbortSignal): Promise<string> =>
+    (await generateImages(prompt, { ...options, candidates: 1 }, signal))[0];
+
 /**
  * Edits an existing image based on a text prompt.
  * @param base64ImageData The base64 encoded string of the source image.
  * @param mimeType The MIME type of the source image (e.g., 'image/jpeg').
  * @param prompt The text prompt describing the desired edits.
+ * @param signal An optional AbortSignal to cancel the request.
  * @returns A promise that resolves to a base64 data URL of the edited image.
  */
-export const editImage = async (base64ImageData: string, mimeType: string, prompt: string): Promise<string> => {
+export const editImage = async (base64ImageData: string, mimeType: string, prompt: string, signal?: AbortSignal): Promise<string> => {
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image-preview',
-            contents: {
-                parts: [
-                    {
-                        inlineData: {
-                            data: base64ImageData,
-                            mimeType: mimeType,
-                        },
-                    },
-                    { text: prompt },
-                ],
-            },
-            config: {
-                responseModalities: [Modality.IMAGE, Modality.TEXT],
-            },
+        return await getAiProvider().editImage({
+            model: getModelFor('imageEdit'),
+            prompt,
+            image: { data: base64ImageData, mimeType },
+            signal,
         });
-        
-        for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData) {
-                const base64ImageBytes: string = part.inlineData.data;
-                const imageMimeType = part.inlineData.mimeType;
-                return `data:${imageMimeType};base64,${base64ImageBytes}`;
-            }
-        }
-        throw new Error("AI가 수정된 이미지를 반환하지 않았습니다.");
-
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Error in editImage:", error);
-        throw new Error("Gemini API를 사용하여 이미지를 수정하는 데 실패했습니다.");
+        throw new Error("AI 모델을 사용하여 이미지를 수정하는 데 실패했습니다.");
     }
 };
 
 /**
- * Translates a given text to English.
- * @param text The text to translate (expected to be in Korean).
- * @returns A promise that resolves to the translated English text.
+ * Translates text between the supported languages. Quotes, Markdown, line breaks, numbers,
+ * URLs and hashtags are kept as they are, so a formatted paragraph stays formatted.
+ * @param text The text to translate.
+ * @param from The language of the text.
+ * @param to The language to translate into.
+ * @param signal An optional AbortSignal to cancel the request.
+ * @returns A promise that resolves to the translated text.
  */
-export const translateToEnglish = async (text: string): Promise<string> => {
+export const translate = async (text: string, from: OutputLanguage, to: OutputLanguage, signal?: AbortSignal): Promise<string> => {
+    if (from === to || !text.trim()) return text;
     try {
-        const prompt = `Translate the following Korean text to English. Respond with only the translated text.
-        
-        Korean: "${text}"
-        English:`;
+        const prompt = `
+        Translate the text between the markers from ${LANGUAGE_PROMPT_NAMES[from]} to ${LANGUAGE_PROMPT_NAMES[to]}.
+        Keep the formatting exactly: Markdown syntax (headings, lists, bold, tables), line breaks, quotation marks,
+        emoji, numbers, URLs and hashtags. Translate naturally, as a native ${LANGUAGE_PROMPT_NAMES[to]} writer would.
+        Respond with only the translated text, without the markers or any explanation.
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-        });
+        <<<TEXT
+        ${text}
+        TEXT>>>
+        `;
 
-        return response.text.trim().replace(/"/g, ''); // Clean up quotes
+        const translated = (await getAiProvider().generateText({ model: getModelFor('translate'), prompt, signal })).trim();
+        if (!translated) {
+            throw new Error("Empty response");
+        }
+        // Models occasionally echo the markers despite the instruction.
+        return translated.replace(/^<<<TEXT\s*/, '').replace(/\s*TEXT>>>$/, '');
     } catch (error) {
-        console.error("Error in translateToEnglish:", error);
-        throw new Error("Gemini API를 사용하여 텍스트를 번역하는 데 실패했습니다.");
+        if (isAbortError(error)) throw error;
+        console.error("Error in translate:", error);
+        throw new Error("AI 모델을 사용하여 텍스트를 번역하는 데 실패했습니다.");
     }
 };
@@ -0,0 +1,72 @@
+import type { ImageAspectRatio, ImageGenerationOptions, ImageStylePreset } from "../types";
+
+const STORAGE_KEY = 'imageGenerationOptions';
+
+export const MAX_IMAGE_CANDIDATES = 4;
+
+export const ASPECT_RATIO_LABELS: Record<ImageAspectRatio, string> = {
+    '16:9': '16:9 (가로 와이드)',
+    '4:3': '4:3 (가로)',
+    '1:1': '1:1 (정사각형)',
+    '3:4': '3:4 (세로)',
+    '9:16': '9:16 (세로 와이드)',
+};
+
+export const IMAGE_STYLE_LABELS: Record<ImageStylePreset, string> = {
+    'none': '지정 안 함',
+    'photo': '실사 사진',
+    'flat': '플랫 일러스트',
+    'watercolor': '수채화',
+    '3d': '3D 렌더링',
+    'anime': '애니메이션',
+    'line-art': '라인 드로잉',
+};
+
+// Appended to the image prompt. English, because the prompts sent to the image model are English.
+const STYLE_PROMPTS: Record<ImageStylePreset, string> = {
+    'none': '',
+    'photo': 'photorealistic photograph, natural lighting, high detail, shot on a DSLR camera',
+    'flat': 'flat vector illustration, simple shapes, clean solid colors, no gradients',
+    'watercolor': 'soft watercolor painting, gentle brush strokes, paper texture, pastel tones',
+    '3d': '3D render, soft studio lighting, smooth materials, isometric perspective',
+    'anime': 'anime style illustration, vibrant colors, clean line art',
+    'line-art': 'minimal black ink line drawing on a white background',
+};
+
+export const DEFAULT_IMAGE_OPTIONS: ImageGenerationOptions = {
+    aspectRatio: '16:9',
+    style: 'none',
+    negativePrompt: '',
+    candidates: 1,
+};
+
+/**
+ * Loads the image options used last time, filling in defaults for fields added later.
+ */
+export const loadImageOptions = (): ImageGenerationOptions => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) return { ...DEFAULT_IMAGE_OPTIONS, ...JSON.parse(stored) };
+    } catch (error) {
+        console.warn("Failed to read image options, using defaults:", error);
+    }
+    return DEFAULT_IMAGE_OPTIONS;
+};
+
+export const saveImageOptions = (options: ImageGenerationOptions) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+};
+
+/**
+ * Applies a paragraph's overrides on top of the post's options.
+ */
+export const resolveImageOptions = (postOptions: ImageGenerationOptions, overrides?: Partial<ImageGenerationOptions>): ImageGenerationOptions => {
+    const options = { ...postOptions, ...overrides };
+    return { ...options, candidates: Math.min(MAX_IMAGE_CANDIDATES, Math.max(1, Math.round(options.candidates) || 1)) };
+};
+
+/**
+ * Merges the style preset into an image prompt.
+ */
+export const applyImageStyle = (prompt: string, style: ImageStylePreset): string =>
+    STYLE_PROMPTS[style] ? `${prompt.trim().replace(/\.$/, '')}. Style: ${STYLE_PROMPTS[style]}.` : prompt;
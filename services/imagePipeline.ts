@@ -0,0 +1,78 @@
+import type { ImageGenerationOptions, ImageProcessingOptions, ImageSource, Result } from "../types";
+import { createImagePrompt, generateImages, editImage } from "./geminiService";
+import { DEFAULT_IMAGE_OPTIONS, resolveImageOptions } from "./imageOptions";
+import { DEFAULT_IMAGE_PROCESSING, prepareImageForEditing } from "./imageService";
+
+export const IMAGE_SOURCE_LABELS: Record<ImageSource, string> = {
+    'generate': 'AI로 생성',
+    'upload': '내 이미지 그대로',
+    'upload-edit': '내 이미지 + AI 수정',
+    'generate-edit': 'AI 생성 + AI 수정',
+};
+
+export const usesUpload = (source: ImageSource) => source === 'upload' || source === 'upload-edit';
+export const usesEdit = (source: ImageSource) => source === 'upload-edit' || source === 'generate-edit';
+
+/**
+ * Returns true when a result has everything its image source needs to be finalized.
+ */
+export const isResultReady = (result: Result): boolean => {
+    if (result.editStatus === 'done' && result.imageUrl) return true;
+    if (result.editStatus === 'translating') return false;
+    if (usesUpload(result.imageSource) && !result.originalImageUrl) return false;
+    if (usesEdit(result.imageSource) && !result.editPrompt?.trim()) return false;
+    return true;
+};
+
+/**
+ * Produces the final image for one paragraph according to its image source.
+ * When several candidates are requested, all of them are returned and the first is kept
+ * until the user picks another. AI edits apply to the kept image only.
+ * @param result The paragraph and its image settings.
+ * @param imageOptions The post's image options; the result's own overrides are applied on top.
+ * @param processing Client-side processing; large images are shrunk with it before an AI edit.
+ * @param signal An optional AbortSignal to cancel the requests.
+ * @returns The fields to merge into the Result.
+ */
+export const finalizeResultImage = async (
+    result: Result,
+    imageOptions: ImageGenerationOptions = DEFAULT_IMAGE_OPTIONS,
+    processing: ImageProcessingOptions = DEFAULT_IMAGE_PROCESSING,
+    signal?: AbortSignal,
+): Promise<Partial<Result>> => {
+    const source = result.imageSource;
+    let imageUrl: string;
+    let prompt: string;
+    let candidates: string[] | undefined;
+
+    if (usesUpload(source)) {
+        if (!result.originalImageUrl) {
+            throw new Error("업로드된 이미지가 없습니다.");
+        }
+        imageUrl = result.originalImageUrl;
+        prompt = '업로드한 원본 이미지';
+    } else {
+        prompt = await createImagePrompt(result.paragraph, signal);
+        const options = resolveImageOptions(imageOptions, result.imageOptions);
+        // Editing every candidate would multiply the cost, so edited images get one.
+        const images = await generateImages(prompt, usesEdit(source) ? { ...options, candidates: 1 } : options, signal);
+        imageUrl = images[0];
+        candidates = images.length > 1 ? images : undefined;
+    }
+
+    if (usesEdit(source)) {
+        if (!result.editPrompt) {
+            throw new Error("이미지 수정 프롬프트가 없습니다.");
+        }
+        const [header, base64Image] = (await prepareImageForEditing(imageUrl, processing)).split(',');
+        // Reopened projects no longer have the File object, so read the type from the data URL.
+        const mimeType = header.replace(/^data:|;base64$/g, '');
+        imageUrl = await editImage(base64Image, mimeType, result.editPrompt, signal);
+        prompt = source === 'upload-edit'
+            ? `AI로 수정한 이미지: ${result.editPrompt}`
+            : `${prompt} (AI 수정: ${result.editPrompt})`;
+    }
+
+    // A new image needs a new description.
+    return { prompt, imageUrl, candidates, altText: undefined, caption: undefined, editStatus: 'done' };
+};
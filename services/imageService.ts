@@ -0,0 +1,215 @@
+import type { ImageOutputFormat, ImageProcessingOptions, WatermarkPosition } from "../types";
+
+const PROCESSING_STORAGE_KEY = 'imageProcessingOptions';
+
+// Below this quality JPEG/WebP artifacts become obvious, so the image is scaled down instead.
+const MIN_QUALITY = 0.5;
+const QUALITY_STEP = 0.1;
+const SCALE_STEP = 0.85;
+const MIN_TARGET_WIDTH = 480;
+// Images sent to the AI for editing are capped at this width when processing is enabled.
+const EDIT_MAX_WIDTH = 2048;
+
+export const OUTPUT_FORMAT_LABELS: Record<ImageOutputFormat, string> = {
+    'image/jpeg': 'JPEG',
+    'image/webp': 'WebP',
+    'image/png': 'PNG (무손실)',
+};
+
+export const WATERMARK_POSITION_LABELS: Record<WatermarkPosition, string> = {
+    'top-left': '왼쪽 위',
+    'top-right': '오른쪽 위',
+    'bottom-left': '왼쪽 아래',
+    'bottom-right': '오른쪽 아래',
+    'center': '가운데',
+};
+
+// Off until the user turns it on, so exports keep the images as they were made.
+export const DEFAULT_IMAGE_PROCESSING: ImageProcessingOptions = {
+    enabled: false,
+    maxWidth: 1200,
+    format: 'image/jpeg',
+    quality: 0.85,
+    targetSizeKb: 0,
+    watermark: 'none',
+    watermarkText: '',
+    watermarkPosition: 'bottom-right',
+    watermarkOpacity: 0.6,
+};
+
+/**
+ * Reads a File (e.g. from an <input type="file">) as a base64 data URL.
+ */
+export const fileToBase64 = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(file);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = error => reject(error);
+    });
+};
+
+/**
+ * Reads the processing options from localStorage, filling in defaults for anything missing.
+ */
+export const loadImageProcessingOptions = (): ImageProcessingOptions => {
+    try {
+        const stored = localStorage.getItem(PROCESSING_STORAGE_KEY);
+        if (stored) return { ...DEFAULT_IMAGE_PROCESSING, ...JSON.parse(stored) };
+    } catch (error) {
+        console.warn("Failed to read image processing options, using defaults:", error);
+    }
+    return DEFAULT_IMAGE_PROCESSING;
+};
+
+export const saveImageProcessingOptions = (options: ImageProcessingOptions) => {
+    localStorage.setItem(PROCESSING_STORAGE_KEY, JSON.stringify(options));
+};
+
+/**
+ * Returns the decoded size in bytes of a base64 data URL, without decoding it.
+ */
+export const dataUrlByteSize = (dataUrl: string): number => {
+    const payload = dataUrl.slice(dataUrl.indexOf(',') + 1);
+    const padding = payload.endsWith('==') ? 2 : payload.endsWith('=') ? 1 : 0;
+    return Math.max(0, Math.floor(payload.length * 3 / 4) - padding);
+};
+
+export const formatBytes = (bytes: number): string =>
+    bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+/**
+ * Decodes an image so it can be drawn on a canvas.
+ */
+export const loadImageElement = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("이미지를 읽지 못했습니다."));
+    image.src = src;
+});
+
+/**
+ * Encodes the canvas, falling back to JPEG when the browser cannot write the requested format
+ * (Safari has no WebP encoder and silently returns PNG).
+ */
+const encodeCanvas = (canvas: HTMLCanvasElement, format: ImageOutputFormat, quality: number): string => {
+    const encoded = canvas.toDataURL(format, quality);
+    return encoded.startsWith(`data:${format}`) ? encoded : canvas.toDataURL('image/jpeg', quality);
+};
+
+const drawWatermark = (context: CanvasRenderingContext2D, width: number, height: number, options: ImageProcessingOptions, text: string, logo?: HTMLImageElement) => {
+    const margin = Math.round(width * 0.025);
+    let boxWidth: number;
+    let boxHeight: number;
+    let fontSize = 0;
+
+    if (options.watermark === 'logo' && logo) {
+        boxWidth = Math.round(width * 0.18);
+        boxHeight = Math.round(boxWidth * logo.naturalHeight / logo.naturalWidth);
+    } else if (options.watermark === 'text' && text) {
+        fontSize = Math.max(14, Math.round(width * 0.035));
+        context.font = `bold ${fontSize}px sans-serif`;
+        boxWidth = context.measureText(text).width;
+        boxHeight = fontSize;
+    } else {
+        return;
+    }
+
+    const x = options.watermarkPosition === 'center' ? (width - boxWidth) / 2
+        : options.watermarkPosition.endsWith('left') ? margin : width - boxWidth - margin;
+    const y = options.watermarkPosition === 'center' ? (height - boxHeight) / 2
+        : options.watermarkPosition.startsWith('top') ? margin : height - boxHeight - margin;
+
+    context.save();
+    context.globalAlpha = Math.min(1, Math.max(0, options.watermarkOpacity));
+    if (logo && options.watermark === 'logo') {
+        context.drawImage(logo, x, y, boxWidth, boxHeight);
+    } else {
+        context.textBaseline = 'top';
+        context.shadowColor = 'rgba(0, 0, 0, 0.6)';
+        context.shadowBlur = Math.round(fontSize / 4);
+        context.fillStyle = '#ffffff';
+        context.fillText(text, x, y);
+    }
+    context.restore();
+};
+
+/**
+ * Resizes, watermarks and re-encodes an image on a canvas.
+ * With a target size, the quality is lowered step by step down to MIN_QUALITY, and after that
+ * the image is scaled down until it fits (PNG only scales).
+ * @param dataUrl The source image.
+ * @param options The processing options.
+ * @param blogName Used as the watermark text when no text is set.
+ * @returns A promise that resolves to the processed image as a data URL.
+ */
+export const processImage = async (dataUrl: string, options: ImageProcessingOptions, blogName = ''): Promise<string> => {
+    const image = await loadImageElement(dataUrl);
+    const logo = options.watermark === 'logo' && options.watermarkLogo ? await loadImageElement(options.watermarkLogo) : undefined;
+    const text = (options.watermarkText || blogName).trim();
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error("이 브라우저에서는 이미지를 처리할 수 없습니다.");
+    }
+
+    const render = (width: number) => {
+        canvas.width = Math.round(width);
+        canvas.height = Math.round(width * image.naturalHeight / image.naturalWidth);
+        // JPEG has no transparency; without a background transparent areas turn black.
+        if (options.format === 'image/jpeg') {
+            context.fillStyle = '#ffffff';
+            context.fillRect(0, 0, canvas.width, canvas.height);
+        }
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+        drawWatermark(context, canvas.width, canvas.height, options, text, logo);
+    };
+
+    let width = options.maxWidth > 0 ? Math.min(options.maxWidth, image.naturalWidth) : image.naturalWidth;
+    let quality = options.quality;
+    render(width);
+    let encoded = encodeCanvas(canvas, options.format, quality);
+
+    const targetBytes = options.targetSizeKb * 1024;
+    while (targetBytes > 0 && dataUrlByteSize(encoded) > targetBytes) {
+        if (options.format !== 'image/png' && quality - QUALITY_STEP >= MIN_QUALITY) {
+            quality -= QUALITY_STEP;
+        } else if (width * SCALE_STEP >= MIN_TARGET_WIDTH) {
+            width *= SCALE_STEP;
+            render(width);
+        } else {
+            break; // As small as it sensibly gets; keep the last attempt.
+        }
+        encoded = encodeCanvas(canvas, options.format, quality);
+    }
+    return encoded;
+};
+
+/**
+ * Shrinks an image before it is sent to the AI for editing: the resize and format settings
+ * apply, the watermark does not (it would be edited along with the picture).
+ * Images already small enough are returned unchanged.
+ */
+export const prepareImageForEditing = async (dataUrl: string, options: ImageProcessingOptions): Promise<string> => {
+    if (!options.enabled) return dataUrl;
+    const maxWidth = options.maxWidth > 0 ? Math.min(options.maxWidth, EDIT_MAX_WIDTH) : EDIT_MAX_WIDTH;
+    const image = await loadImageElement(dataUrl);
+    if (image.naturalWidth <= maxWidth) return dataUrl;
+    return processImage(dataUrl, { ...options, maxWidth, targetSizeKb: 0, watermark: 'none' });
+};
+
+const isHeic = (file: File) => /image\/hei[cf]/i.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+/**
+ * Reads an uploaded image, converting HEIC photos (from iPhones) to JPEG so the editor and the
+ * AI can use them. Only browsers that decode HEIC themselves (Safari) can do the conversion.
+ */
+export const readUploadedImage = async (file: File): Promise<string> => {
+    const dataUrl = await fileToBase64(file);
+    if (!isHeic(file)) return dataUrl;
+    try {
+        return await processImage(dataUrl, { ...DEFAULT_IMAGE_PROCESSING, enabled: true, maxWidth: 0, format: 'image/jpeg', quality: 0.92 });
+    } catch {
+        throw new Error("이 브라우저는 HEIC 이미지를 열 수 없습니다. JPEG로 변환한 뒤 올려 주세요.");
+    }
+};
@@ -0,0 +1,85 @@
+import { isAbortError } from "./abort";
+import type { ImageJobStatus } from "../types";
+
+export interface JobRunnerOptions {
+    concurrency: number; // Maximum number of jobs running at the same time
+    retries: number; // Automatic retries per job after the first attempt
+    baseDelayMs: number; // Backoff before retry n is baseDelayMs * 2^(n-1)
+    signal?: AbortSignal;
+    // Called whenever a job changes status; `error` is set for 'failed' and for retried attempts.
+    onStatus?: (index: number, status: ImageJobStatus, detail: { attempt: number; error?: string }) => void;
+}
+
+export type JobOutcome<T> =
+    | { status: 'done'; value: T }
+    | { status: 'failed'; error: string };
+
+/**
+ * Waits for `ms` milliseconds, rejecting early with an AbortError if the signal fires.
+ */
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const toMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+/**
+ * Runs `worker` for each of `indices` with a concurrency limit, retrying failed jobs with
+ * exponential backoff. A failing job never affects the others: every job settles on its own
+ * and the outcome of each is returned, keyed by index.
+ * Aborting the signal stops scheduling new jobs and rejects with the AbortError.
+ * @param indices The item indices to process.
+ * @param worker Produces the value for one item.
+ * @param options Concurrency, retry and reporting options.
+ */
+export const runJobs = async <T>(
+    indices: number[],
+    worker: (index: number, signal?: AbortSignal) => Promise<T>,
+    options: JobRunnerOptions,
+): Promise<Map<number, JobOutcome<T>>> => {
+    const { concurrency, retries, baseDelayMs, signal, onStatus } = options;
+    const outcomes = new Map<number, JobOutcome<T>>();
+    const queue = [...indices];
+
+    indices.forEach(index => onStatus?.(index, 'queued', { attempt: 0 }));
+
+    const runOne = async (index: number) => {
+        for (let attempt = 1; ; attempt++) {
+            signal?.throwIfAborted();
+            onStatus?.(index, 'running', { attempt });
+            try {
+                const value = await worker(index, signal);
+                outcomes.set(index, { status: 'done', value });
+                onStatus?.(index, 'done', { attempt });
+                return;
+            } catch (error) {
+                if (isAbortError(error)) throw error;
+                if (attempt > retries) {
+                    outcomes.set(index, { status: 'failed', error: toMessage(error) });
+                    onStatus?.(index, 'failed', { attempt, error: toMessage(error) });
+                    return;
+                }
+                onStatus?.(index, 'queued', { attempt, error: toMessage(error) });
+                await sleep(baseDelayMs * 2 ** (attempt - 1), signal);
+            }
+        }
+    };
+
+    const lane = async () => {
+        while (queue.length > 0) {
+            await runOne(queue.shift()!);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, lane));
+    return outcomes;
+};
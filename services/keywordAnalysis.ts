@@ -0,0 +1,209 @@
+import type { KeywordAnalysis, NaverBlogItem, SaturationLevel, TermCount } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How many of the relevance-sorted results count as "top ranking" for title checks.
+const TOP_RANK_COUNT = 10;
+
+// Common Korean particles stripped from the end of words before counting terms. The one-syllable ones also end
+// plenty of nouns (고양이, 제주도, 여행가), so they are only stripped when what is left is a word of its own.
+const JOSA_SUFFIX = /(에서는|에서|으로|에게|까지|부터|이랑|하고|처럼|보다)$/;
+const SHORT_JOSA_SUFFIX = /(은|는|이|가|을|를|의|에|로|와|과|도|만|랑)$/;
+const STOPWORDS = new Set([
+    '그리고', '하지만', '그래서', '정말', '너무', '진짜', '이번', '오늘', '있는', '있어요', '합니다', '입니다',
+    '했어요', '해요', '하는', '했던', '같은', '이런', '저런', '그런', '위한', '대한', '통해', '가장', '많은',
+    'the', 'and', 'for', 'with',
+]);
+
+/**
+ * Removes the <b> highlight tags and HTML entities Naver puts in titles and descriptions.
+ */
+export const stripNaverHtml = (html: string): string =>
+    html
+        .replace(/<[^>]*>/g, '')
+        .replace(/&quot;/g, '"')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&#39;|&apos;/g, "'");
+
+const splitWords = (text: string): string[] =>
+    text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .map(word => word.replace(JOSA_SUFFIX, ''));
+
+/**
+ * Splits text into normalized words: punctuation removed, particles stripped, lowercased.
+ * @param text The text to split.
+ * @param words The words seen in the whole sample; a one-syllable particle is stripped only when the stem is among them.
+ */
+export const tokenize = (text: string, words: Set<string> = new Set()): string[] =>
+    splitWords(text)
+        .map(word => {
+            const stem = word.replace(SHORT_JOSA_SUFFIX, '');
+            return words.has(stem) ? stem : word;
+        })
+        .filter(word => word.length >= 2);
+
+const countOccurrences = (text: string, keyword: string): number => {
+    if (!keyword) return 0;
+    let count = 0;
+    for (let i = text.indexOf(keyword); i !== -1; i = text.indexOf(keyword, i + keyword.length)) {
+        count++;
+    }
+    return count;
+};
+
+const median = (values: number[]): number => {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const parsePostDate = (postdate?: string): number | null => {
+    const match = postdate?.match(/^(\d{4})(\d{2})(\d{2})$/);
+    return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime() : null;
+};
+
+/**
+ * Counts the words that appear most often next to the keyword in titles and descriptions.
+ * Each word is counted once per post, so a single spammy post cannot dominate.
+ * @param keyword The main keyword; its own words are excluded.
+ * @param items The posts to scan.
+ * @param limit The number of terms to return.
+ */
+export const findCoOccurringTerms = (keyword: string, items: NaverBlogItem[], limit = 20): TermCount[] => {
+    const texts = items.map(item => `${stripNaverHtml(item.title)} ${stripNaverHtml(item.description)}`);
+    const sampleWords = new Set([keyword, ...texts].flatMap(splitWords));
+    const keywordTokens = new Set(tokenize(keyword, sampleWords));
+    const compactKeyword = keyword.replace(/\s+/g, '').toLowerCase();
+    const counts = new Map<string, number>();
+
+    for (const text of texts) {
+        const words = new Set(tokenize(text, sampleWords));
+        for (const word of words) {
+            if (keywordTokens.has(word) || word === compactKeyword || STOPWORDS.has(word) || /^\d+$/.test(word)) continue;
+            counts.set(word, (counts.get(word) ?? 0) + 1);
+        }
+    }
+
+    return [...counts.entries()]
+        .filter(([, count]) => count >= 2)
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, limit)
+        .map(([term, count]) => ({ term, count }));
+};
+
+const toSaturationLevel = (score: number): SaturationLevel =>
+    score >= 75 ? 'very-high' : score >= 50 ? 'high' : score >= 25 ? 'medium' : 'low';
+
+/**
+ * Analyzes how competitive a keyword is on Naver blogs.
+ * @param keyword The main keyword.
+ * @param relevanceItems Results sorted by relevance ('sim'), best first.
+ * @param recentItems Results sorted by date ('date'), newest first.
+ * @param totalResults The total result count Naver reports for the keyword.
+ * @param now The reference time for recency, defaults to the current time.
+ */
+export const analyzeKeywordCompetition = (
+    keyword: string,
+    relevanceItems: NaverBlogItem[],
+    recentItems: NaverBlogItem[],
+    totalResults: number,
+    now: number = Date.now(),
+): KeywordAnalysis => {
+    const normalizedKeyword = keyword.trim().toLowerCase();
+    const uniqueItems = [...new Map([...relevanceItems, ...recentItems].map(item => [item.link, item])).values()];
+
+    // Title statistics over the top-ranking posts, where they matter most.
+    const topItems = relevanceItems.slice(0, TOP_RANK_COUNT);
+    const topTitles = topItems.map(item => stripNaverHtml(item.title).toLowerCase());
+    const topTitleLengths = topItems.map(item => stripNaverHtml(item.title).length);
+    const keywordPositions = topTitles
+        .map(title => ({ title, index: title.indexOf(normalizedKeyword) }))
+        .filter(({ index }) => index !== -1)
+        .map(({ title, index }) => title.length > normalizedKeyword.length ? index / (title.length - normalizedKeyword.length) : 0);
+
+    let keywordCount = 0;
+    let wordCount = 0;
+    for (const item of relevanceItems) {
+        const text = `${stripNaverHtml(item.title)} ${stripNaverHtml(item.description)}`.toLowerCase();
+        keywordCount += countOccurrences(text, normalizedKeyword);
+        wordCount += text.split(/\s+/).filter(Boolean).length;
+    }
+
+    // Recency over every post we have a date for.
+    const ages = uniqueItems
+        .map(item => parsePostDate(item.postdate))
+        .filter((time): time is number => time !== null)
+        .map(time => Math.max(0, (now - time) / DAY_MS));
+    const recentDates = recentItems.map(item => parsePostDate(item.postdate)).filter((time): time is number => time !== null);
+    const spanDays = recentDates.length > 1 ? Math.max(1, (Math.max(...recentDates) - Math.min(...recentDates)) / DAY_MS) : 0;
+    const postsPerDay = spanDays > 0 ? recentDates.length / spanDays : 0;
+
+    const keywordInTitleRate = topTitles.length ? keywordPositions.length / topTitles.length : 0;
+    const keywordAtStartRate = keywordPositions.length ? keywordPositions.filter(p => p <= 1 / 3).length / keywordPositions.length : 0;
+
+    // Saturation: volume, how optimized the top titles already are, and how fast new posts appear.
+    const reasons: string[] = [];
+    const volumeScore = Math.min(40, (Math.log10(Math.max(totalResults, 1)) / 6) * 40);
+    if (totalResults >= 100000) reasons.push(`전체 게시물 수가 ${totalResults.toLocaleString('ko-KR')}개로 매우 많습니다.`);
+    else if (totalResults < 5000) reasons.push(`전체 게시물 수가 ${totalResults.toLocaleString('ko-KR')}개로 적은 편입니다.`);
+    const optimizationScore = keywordInTitleRate * 30;
+    if (keywordInTitleRate >= 0.8) reasons.push('상위 노출 제목 대부분이 키워드를 그대로 포함하고 있습니다.');
+    else if (keywordInTitleRate <= 0.3) reasons.push('상위 노출 제목 중 키워드를 정확히 포함한 글이 적어 진입 여지가 있습니다.');
+    const freshnessScore = Math.min(30, postsPerDay * 3);
+    if (postsPerDay >= 10) reasons.push(`하루 평균 ${round(postsPerDay, 1)}개의 새 글이 올라오고 있습니다.`);
+    else if (postsPerDay > 0 && postsPerDay < 1) reasons.push('새 글이 올라오는 속도가 느린 편입니다.');
+    const score = Math.round(volumeScore + optimizationScore + freshnessScore);
+
+    return {
+        keyword,
+        analyzedAt: now,
+        totalResults,
+        sampleSize: uniqueItems.length,
+        titleLength: {
+            min: topTitleLengths.length ? Math.min(...topTitleLengths) : 0,
+            max: topTitleLengths.length ? Math.max(...topTitleLengths) : 0,
+            average: topTitleLengths.length ? round(topTitleLengths.reduce((a, b) => a + b, 0) / topTitleLengths.length, 1) : 0,
+            median: median(topTitleLengths),
+        },
+        keywordInTitleRate: round(keywordInTitleRate),
+        keywordAtStartRate: round(keywordAtStartRate),
+        averageKeywordPosition: keywordPositions.length ? round(keywordPositions.reduce((a, b) => a + b, 0) / keywordPositions.length) : 0,
+        keywordDensity: wordCount ? round((keywordCount / wordCount) * 100) : 0,
+        coOccurringTerms: findCoOccurringTerms(keyword, uniqueItems),
+        recency: {
+            within7Days: ages.filter(age => age <= 7).length,
+            within30Days: ages.filter(age => age > 7 && age <= 30).length,
+            within90Days: ages.filter(age => age > 30 && age <= 90).length,
+            older: ages.filter(age => age > 90).length,
+            postsPerDay: round(postsPerDay, 1),
+            newestPostDate: recentItems[0]?.postdate,
+        },
+        saturation: { score, level: toSaturationLevel(score), reasons },
+    };
+};
+
+export const SATURATION_LABELS: Record<SaturationLevel, string> = {
+    'low': '낮음',
+    'medium': '보통',
+    'high': '높음',
+    'very-high': '매우 높음',
+};
+
+/**
+ * Summarizes the analysis as plain text for an LLM prompt.
+ */
+export const formatAnalysisForPrompt = (analysis: KeywordAnalysis): string => [
+    `- Total Naver blog posts for the keyword: ${analysis.totalResults}`,
+    `- Competition (saturation) score: ${analysis.saturation.score}/100 (${analysis.saturation.level})`,
+    `- Top-ranking title length: median ${analysis.titleLength.median} characters (range ${analysis.titleLength.min}-${analysis.titleLength.max})`,
+    `- ${Math.round(analysis.keywordInTitleRate * 100)}% of the top ${TOP_RANK_COUNT} titles contain the exact keyword; ${Math.round(analysis.keywordAtStartRate * 100)}% of those place it near the start`,
+    `- Keyword density in titles and snippets: ${analysis.keywordDensity} per 100 words`,
+    `- Frequently co-occurring terms: ${analysis.coOccurringTerms.slice(0, 10).map(t => t.term).join(', ') || 'none'}`,
+    `- New posts per day (recent): ${analysis.recency.postsPerDay}; posts from the last 7 days in the sample: ${analysis.recency.within7Days}`,
+].join('\n');
@@ -0,0 +1,78 @@
+import type { KeywordSuggestion, KeywordSuggestionKind, NaverApiConfig, SaturationLevel, TermCount } from "../types";
+import { searchNaverPage } from "./naverService";
+import { runJobs } from "./jobRunner";
+
+// How many suggestions the panel shows, and how many come from Naver co-occurring terms at most.
+export const MAX_SUGGESTIONS = 24;
+const MAX_NAVER_CANDIDATES = 8;
+// Result-count lookups are tiny requests, but the Naver API rate-limits bursts.
+const COUNT_CONCURRENCY = 2;
+
+const normalize = (keyword: string) => keyword.replace(/\s+/g, '').toLowerCase();
+
+/**
+ * Maps a Naver blog result count to a competition level.
+ * Only the result count is used, so this is a coarser signal than analyzeKeywordCompetition.
+ */
+export const toCompetitionLevel = (totalResults: number): SaturationLevel =>
+    totalResults >= 100000 ? 'very-high' : totalResults >= 20000 ? 'high' : totalResults >= 3000 ? 'medium' : 'low';
+
+/**
+ * Turns terms that co-occur with the keyword in Naver results into long-tail candidates ("<keyword> <term>").
+ * @param mainKeyword The main keyword.
+ * @param terms Co-occurring terms, most frequent first.
+ */
+export const buildNaverCandidates = (mainKeyword: string, terms: TermCount[]): KeywordSuggestion[] =>
+    terms.slice(0, MAX_NAVER_CANDIDATES).map(({ term }) => ({
+        keyword: `${mainKeyword.trim()} ${term}`,
+        kind: 'long-tail',
+        sources: ['naver'],
+    }));
+
+/**
+ * Wraps LLM suggestions as candidates of the given kind.
+ */
+export const buildAiCandidates = (keywords: string[], kind: KeywordSuggestionKind): KeywordSuggestion[] =>
+    keywords.map(keyword => ({ keyword: keyword.trim(), kind, sources: ['ai'] }));
+
+/**
+ * Merges candidate lists, dropping the main keyword itself and duplicates that differ only in spacing or case.
+ * A duplicate found by both sources keeps the first entry and records both sources.
+ * @param mainKeyword The main keyword.
+ * @param candidates The candidate lists, in priority order.
+ */
+export const mergeSuggestions = (mainKeyword: string, ...candidates: KeywordSuggestion[][]): KeywordSuggestion[] => {
+    const merged = new Map<string, KeywordSuggestion>();
+    for (const suggestion of candidates.flat()) {
+        const key = normalize(suggestion.keyword);
+        if (!key || key === normalize(mainKeyword)) continue;
+        const existing = merged.get(key);
+        if (existing) {
+            existing.sources = [...new Set([...existing.sources, ...suggestion.sources])];
+        } else {
+            merged.set(key, { ...suggestion, sources: [...suggestion.sources] });
+        }
+    }
+    return [...merged.values()].slice(0, MAX_SUGGESTIONS);
+};
+
+/**
+ * Looks up the Naver blog result count of every suggestion and attaches a competition level.
+ * A failed lookup leaves that suggestion without a count instead of failing the whole list.
+ * @param suggestions The suggestions to enrich.
+ * @param config The Naver API configuration.
+ * @param signal An optional AbortSignal to cancel the lookups.
+ */
+export const attachCompetition = async (suggestions: KeywordSuggestion[], config: NaverApiConfig, signal?: AbortSignal): Promise<KeywordSuggestion[]> => {
+    const outcomes = await runJobs(
+        suggestions.map((_, index) => index),
+        async (index, jobSignal) => (await searchNaverPage('blog', suggestions[index].keyword, config, { display: 1, signal: jobSignal })).total,
+        { concurrency: COUNT_CONCURRENCY, retries: 1, baseDelayMs: 500, signal },
+    );
+
+    return suggestions.map((suggestion, index) => {
+        const outcome = outcomes.get(index);
+        if (outcome?.status !== 'done') return suggestion;
+        return { ...suggestion, totalResults: outcome.value, competition: toCompetitionLevel(outcome.value) };
+    });
+};
@@ -0,0 +1,20 @@
+import type { OutputLanguage } from "../types";
+
+export const OUTPUT_LANGUAGE_LABELS: Record<OutputLanguage, string> = {
+    'ko': '한국어',
+    'en': '영어',
+    'ja': '일본어',
+    'zh-CN': '중국어 (간체)',
+    'zh-TW': '중국어 (번체)',
+};
+
+// How the languages are named in the prompts.
+export const LANGUAGE_PROMPT_NAMES: Record<OutputLanguage, string> = {
+    'ko': 'Korean',
+    'en': 'English',
+    'ja': 'Japanese',
+    'zh-CN': 'Simplified Chinese',
+    'zh-TW': 'Traditional Chinese',
+};
+
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = 'ko';
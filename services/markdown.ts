@@ -0,0 +1,311 @@
+// The Markdown the post prompts ask for: headings, lists, tables, bold and the like.
+// Only this subset is parsed; anything else stays as plain text.
+
+export type MarkdownInline =
+    | { type: 'text'; text: string }
+    | { type: 'strong' | 'em' | 'del'; children: MarkdownInline[] }
+    | { type: 'code'; text: string }
+    | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export interface MarkdownListItem {
+    children: MarkdownInline[];
+    sublist?: MarkdownList;
+}
+
+export interface MarkdownList {
+    type: 'list';
+    ordered: boolean;
+    start: number;
+    items: MarkdownListItem[];
+}
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+    | { type: 'heading'; level: number; children: MarkdownInline[] }
+    | { type: 'paragraph'; lines: MarkdownInline[][] }
+    | { type: 'quote'; lines: MarkdownInline[][] }
+    | { type: 'code'; text: string }
+    | { type: 'rule' }
+    | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+    | MarkdownList;
+
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const FENCE = /^\s{0,3}```/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Bold, strikethrough, italic, code and links, in the order they are tried at each position.
+// Underscore italics are left out: they would break on snake_case words.
+const INLINE_TOKEN = /(\*\*|__)(?=\S)([\s\S]*?\S)\1|~~(?=\S)([\s\S]*?\S)~~|\*(?=[^\s*])([\s\S]*?[^\s*])\*|`([^`]+)`|\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g;
+
+/**
+ * Parses the inline formatting of a line of text.
+ */
+export const parseInline = (text: string): MarkdownInline[] => {
+    const nodes: MarkdownInline[] = [];
+    let last = 0;
+    for (const match of text.matchAll(INLINE_TOKEN)) {
+        const [whole, , strong, del, em, code, linkText, href] = match;
+        if (match.index > last) nodes.push({ type: 'text', text: text.slice(last, match.index) });
+        if (strong !== undefined) nodes.push({ type: 'strong', children: parseInline(strong) });
+        else if (del !== undefined) nodes.push({ type: 'del', children: parseInline(del) });
+        else if (em !== undefined) nodes.push({ type: 'em', children: parseInline(em) });
+        else if (code !== undefined) nodes.push({ type: 'code', text: code });
+        else nodes.push({ type: 'link', href, children: parseInline(linkText) });
+        last = match.index + whole.length;
+    }
+    if (last < text.length) nodes.push({ type: 'text', text: text.slice(last) });
+    return nodes;
+};
+
+const splitTableRow = (line: string): string[] =>
+    line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const isTableStart = (lines: string[], i: number) =>
+    lines[i].includes('|') && i + 1 < lines.length && lines[i + 1].includes('-') && TABLE_DIVIDER.test(lines[i + 1]);
+
+const startsBlock = (lines: string[], i: number) =>
+    HEADING.test(lines[i]) || RULE.test(lines[i]) || LIST_ITEM.test(lines[i]) || QUOTE.test(lines[i]) || FENCE.test(lines[i]) || isTableStart(lines, i);
+
+// Indentation counts tabs as four spaces, as most editors show them.
+const indentOf = (whitespace: string) => whitespace.replace(/\t/g, '    ').length;
+
+/**
+ * Nests list entries by their indentation: an entry indented past the current level starts a sublist of the item before it.
+ * A sublist takes every entry indented past its parent, so an item never gets two sublists; one less indented than
+ * the sublist's first entry joins it as a sibling.
+ * At the top level, a bullet after numbered items or the other way round ends the list; sublists keep their first kind.
+ * @param parentIndent The indentation of the list the sublist is nested in; missing at the top level.
+ */
+const buildList = (entries: { indent: number; marker: string; text: string }[], from: number, parentIndent?: number): [MarkdownList, number] => {
+    const isTopLevel = parentIndent === undefined;
+    const indent = entries[from].indent;
+    const ordered = /\d/.test(entries[from].marker);
+    const list: MarkdownList = { type: 'list', ordered, start: ordered ? parseInt(entries[from].marker, 10) : 1, items: [] };
+    let i = from;
+    while (i < entries.length && (isTopLevel ? entries[i].indent >= indent : entries[i].indent > parentIndent)) {
+        if (isTopLevel && entries[i].indent === indent && /\d/.test(entries[i].marker) !== ordered) break;
+        if (entries[i].indent > indent) {
+            const [sublist, next] = buildList(entries, i, indent);
+            if (list.items.length === 0) list.items.push({ children: [] });
+            list.items[list.items.length - 1].sublist = sublist;
+            i = next;
+        } else {
+            list.items.push({ children: parseInline(entries[i].text) });
+            i++;
+        }
+    }
+    return [list, i];
+};
+
+/**
+ * Parses Markdown into blocks.
+ */
+export const parseMarkdown = (markdown: string): MarkdownBlock[] => {
+    const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: MarkdownBlock[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+
+        if (FENCE.test(line)) {
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !FENCE.test(lines[i])) code.push(lines[i++]);
+            i++; // The closing fence, if there is one
+            blocks.push({ type: 'code', text: code.join('\n') });
+            continue;
+        }
+
+        const heading = line.match(HEADING);
+        if (heading) {
+            blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+            i++;
+            continue;
+        }
+
+        // Checked before lists, so '- - -' and '***' are rules rather than items.
+        if (RULE.test(line)) {
+            blocks.push({ type: 'rule' });
+            i++;
+            continue;
+        }
+
+        if (isTableStart(lines, i)) {
+            const header = splitTableRow(line);
+            const align = splitTableRow(lines[i + 1]).map((cell): TableAlign =>
+                cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : null);
+            const rows: MarkdownInline[][][] = [];
+            i += 2;
+            while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+                const cells = splitTableRow(lines[i++]);
+                // Rows are padded or cut to the header's width, as Markdown renderers do.
+                rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+            }
+            blocks.push({ type: 'table', align: header.map((_, column) => align[column] ?? null), header: header.map(parseInline), rows });
+            continue;
+        }
+
+        if (LIST_ITEM.test(line)) {
+            const entries: { indent: number; marker: string; text: string }[] = [];
+            while (i < lines.length && lines[i].trim()) {
+                const item = lines[i].match(LIST_ITEM);
+                if (item && !RULE.test(lines[i])) {
+                    entries.push({ indent: indentOf(item[1]), marker: item[2], text: item[3] });
+                } else if (/^\s/.test(lines[i]) && !startsBlock(lines, i) && entries.length > 0) {
+                    // An indented line without a marker continues the item above it.
+                    entries[entries.length - 1].text += ' ' + lines[i].trim();
+                } else {
+                    break;
+                }
+                i++;
+            }
+            // The first item sets the top level; a less indented item after it still belongs to the list.
+            entries[0].indent = Math.min(...entries.map(entry => entry.indent));
+            for (let from = 0; from < entries.length;) {
+                const [list, next] = buildList(entries, from);
+                blocks.push(list);
+                from = next;
+            }
+            continue;
+        }
+
+        if (QUOTE.test(line)) {
+            const quoted: MarkdownInline[][] = [];
+            while (i < lines.length && QUOTE.test(lines[i])) quoted.push(parseInline(lines[i++].match(QUOTE)![1]));
+            blocks.push({ type: 'quote', lines: quoted });
+            continue;
+        }
+
+        // Single line breaks are kept, as the posts use them within a paragraph.
+        const paragraph: MarkdownInline[][] = [];
+        while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines, i))) {
+            paragraph.push(parseInline(lines[i++].trim()));
+        }
+        blocks.push({ type: 'paragraph', lines: paragraph });
+    }
+    return blocks;
+};
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const inlineToHtml = (nodes: MarkdownInline[]): string => nodes.map(node => {
+    switch (node.type) {
+        case 'text': return escapeHtml(node.text);
+        case 'strong': return `<strong>${inlineToHtml(node.children)}</strong>`;
+        case 'em': return `<em>${inlineToHtml(node.children)}</em>`;
+        case 'del': return `<del>${inlineToHtml(node.children)}</del>`;
+        case 'code': return `<code>${escapeHtml(node.text)}</code>`;
+        case 'link': return `<a href="${escapeHtml(node.href)}">${inlineToHtml(node.children)}</a>`;
+    }
+}).join('');
+
+const listToHtml = (list: MarkdownList): string => {
+    const tag = list.ordered ? 'ol' : 'ul';
+    const start = list.ordered && list.start !== 1 ? ` start="${list.start}"` : '';
+    const items = list.items.map(item => `<li>${inlineToHtml(item.children)}${item.sublist ? listToHtml(item.sublist) : ''}</li>`);
+    return `<${tag}${start}>${items.join('')}</${tag}>`;
+};
+
+// The SmartEditor drops stylesheets when pasting, so tables and quotes carry inline styles.
+const CELL_STYLE = 'border:1px solid #ccc;padding:6px 10px;';
+
+/**
+ * Renders Markdown as HTML for pasting into the SmartEditor and for the exported page.
+ */
+export const markdownToHtml = (markdown: string): string => parseMarkdown(markdown).map(block => {
+    switch (block.type) {
+        case 'heading': return `<h${block.level}>${inlineToHtml(block.children)}</h${block.level}>`;
+        case 'paragraph': return `<p>${block.lines.map(inlineToHtml).join('<br />')}</p>`;
+        case 'quote': return `<blockquote style="border-left:4px solid #ccc;margin:0;padding-left:12px;color:#555;">${block.lines.map(inlineToHtml).join('<br />')}</blockquote>`;
+        case 'code': return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+        case 'rule': return '<hr />';
+        case 'list': return listToHtml(block);
+        case 'table': {
+            const cell = (tag: 'th' | 'td', content: MarkdownInline[], column: number) =>
+                `<${tag} style="${CELL_STYLE}${block.align[column] ? `text-align:${block.align[column]};` : ''}">${inlineToHtml(content)}</${tag}>`;
+            const header = `<tr>${block.header.map((content, column) => cell('th', content, column)).join('')}</tr>`;
+            const rows = block.rows.map(row => `<tr>${row.map((content, column) => cell('td', content, column)).join('')}</tr>`);
+            return `<table style="border-collapse:collapse;"><thead>${header}</thead><tbody>${rows.join('')}</tbody></table>`;
+        }
+    }
+}).join('\n');
+
+const inlineToText = (nodes: MarkdownInline[]): string => nodes.map(node => {
+    switch (node.type) {
+        case 'text':
+        case 'code':
+            return node.text;
+        case 'link': {
+            const text = inlineToText(node.children);
+            return text === node.href ? text : `${text} (${node.href})`;
+        }
+        default:
+            return inlineToText(node.children);
+    }
+}).join('');
+
+const listToText = (list: MarkdownList, depth = 0): string[] => list.items.flatMap((item, index) => [
+    `${'  '.repeat(depth)}${list.ordered ? `${list.start + index}.` : '•'} ${inlineToText(item.children)}`,
+    ...(item.sublist ? listToText(item.sublist, depth + 1) : []),
+]);
+
+/**
+ * Removes the Markdown syntax, for pasting where it would show up literally.
+ * List items keep a bullet or their number, and table cells are separated by ' | '.
+ */
+export const stripMarkdown = (markdown: string): string => parseMarkdown(markdown).flatMap(block => {
+    switch (block.type) {
+        case 'heading': return [inlineToText(block.children)];
+        case 'paragraph':
+        case 'quote':
+            return [block.lines.map(inlineToText).join('\n')];
+        case 'code': return [block.text];
+        case 'rule': return [];
+        case 'list': return [listToText(block).join('\n')];
+        case 'table': return [[block.header, ...block.rows].map(row => row.map(inlineToText).join(' | ').trimEnd()).join('\n')];
+    }
+}).join('\n\n');
+
+export type MarkdownFormat = 'bold' | 'heading' | 'bullet' | 'numbered';
+
+/**
+ * Applies a formatting button of the editor to the selected text.
+ * Bold wraps the selection; the others prefix each selected line and remove the prefix when every line has it.
+ * @returns The new text and the selection to restore.
+ */
+export const applyMarkdownFormat = (text: string, selectionStart: number, selectionEnd: number, format: MarkdownFormat): { text: string; selectionStart: number; selectionEnd: number } => {
+    if (format === 'bold') {
+        const selected = text.slice(selectionStart, selectionEnd) || '굵은 글씨';
+        return {
+            text: `${text.slice(0, selectionStart)}**${selected}**${text.slice(selectionEnd)}`,
+            selectionStart: selectionStart + 2,
+            selectionEnd: selectionStart + 2 + selected.length,
+        };
+    }
+
+    const lineStart = text.lastIndexOf('\n', selectionStart - 1) + 1;
+    const nextBreak = text.indexOf('\n', Math.max(selectionEnd - 1, selectionStart));
+    const lineEnd = nextBreak === -1 ? text.length : nextBreak;
+    const lines = text.slice(lineStart, lineEnd).split('\n');
+    const prefixPattern = format === 'heading' ? /^#{1,6}\s+/ : format === 'bullet' ? /^[-*+]\s+/ : /^\d{1,9}[.)]\s+/;
+    const isApplied = lines.every(line => prefixPattern.test(line));
+    const formatted = lines.map((line, index) => {
+        const bare = line.replace(isApplied ? prefixPattern : /^(#{1,6}|[-*+]|\d{1,9}[.)])\s+/, '');
+        if (isApplied) return bare;
+        return `${format === 'heading' ? '## ' : format === 'bullet' ? '- ' : `${index + 1}. `}${bare}`;
+    }).join('\n');
+    return {
+        text: text.slice(0, lineStart) + formatted + text.slice(lineEnd),
+        selectionStart: lineStart,
+        selectionEnd: lineStart + formatted.length,
+    };
+};
@@ -1,55 +1,206 @@
+import { isAbortError } from './abort';
+import type { DataLabTrendRequest, DataLabTrendSeries, NaverApiConfig, NaverBlogItem, NaverProxyErrorBody, NaverProxyErrorCode, NaverSearchType } from '../types';
+
+// Base URL of the bundled Naver proxy (see server/naverProxy.ts), injected by vite.config.ts.
+const NAVER_PROXY_URL = process.env.NAVER_PROXY_URL || '/api/naver';
+const NAVER_API_URL = 'https://openapi.naver.com';
+
 /**
- * Searches the Naver Blog API for a given query using a public CORS proxy.
- * This method is used to bypass browser CORS (Cross-Origin Resource Sharing) restrictions
- * during development without needing a self-hosted server-side proxy.
- *
- * NOTE: Public proxies can be unreliable and are not recommended for production environments.
- * For a live application, a dedicated server-side proxy is the best practice.
- * 
- * @param query The search term.
- * @param clientId Your Naver application's Client ID.
- * @param clientSecret Your Naver application's Client Secret.
- * @returns A promise that resolves to the list of blog items from the API response.
+ * Error raised when a Naver API call fails, carrying the proxy's error code.
  */
-export const searchNaverBlogs = async (query: string, clientId: string, clientSecret: string) => {
-    const naverApiUrl = `https://openapi.naver.com/v1/search/blog.json?query=${encodeURIComponent(query)}&display=10&sort=sim`;
-    
-    // Using a different public CORS proxy that is generally more stable.
-    const proxyUrl = `https://corsproxy.io/?${naverApiUrl}`;
+export class NaverApiError extends Error {
+    code: NaverProxyErrorCode;
+    status: number;
 
-    try {
-        const response = await fetch(proxyUrl, {
-            method: 'GET',
-            headers: {
-                // The proxy forwards these headers to the Naver API.
-                'X-Naver-Client-Id': clientId,
-                'X-Naver-Client-Secret': clientSecret,
-            },
-        });
+    constructor(code: NaverProxyErrorCode, message: string, status: number) {
+        super(message);
+        this.name = 'NaverApiError';
+        this.code = code;
+        this.status = status;
+    }
+}
 
-        if (!response.ok) {
-            // Try to parse error message from Naver if available
-            try {
-                const errorData = await response.json();
-                throw new Error(`Naver API error: ${errorData.errorMessage || response.statusText}`);
-            } catch (e) {
-                 // This will catch JSON parsing errors if the proxy returns HTML, etc.
-                 const errorText = await response.text(); // Get the raw response text for debugging
-                 console.error("Non-JSON response from proxy:", errorText);
-                 const errorMessage = e instanceof Error ? e.message : `Request failed with status: ${response.status}`;
-                 throw new Error(`Naver API request failed. The proxy may be down or blocking the request. ${errorMessage}`);
-            }
+/**
+ * Converts a failed proxy response into a NaverApiError.
+ * The bundled proxy always answers with a NaverProxyErrorBody; anything else
+ * means the proxy itself is missing or misconfigured.
+ */
+const toNaverApiError = async (response: Response): Promise<NaverApiError> => {
+    const text = await response.text();
+    try {
+        const body = JSON.parse(text) as NaverProxyErrorBody;
+        if (body.error?.code) {
+            return new NaverApiError(body.error.code, body.error.message, body.error.status);
         }
+    } catch {
+        console.error("Non-JSON response from Naver proxy:", text);
+    }
+    return new NaverApiError('UPSTREAM_UNAVAILABLE', `Naver 프록시 요청이 실패했습니다. (status: ${response.status})`, response.status);
+};
 
-        const data = await response.json();
-        return data.items; // The 'items' array contains the list of blogs
+/**
+ * Calls a Naver Open API path, either through the bundled server-side proxy or,
+ * in 'public' mode, through a public CORS proxy with the user's own keys.
+ * @param path The API path relative to the proxy root (e.g. '/search/blog?query=...').
+ * @param config The Naver API configuration.
+ * @param init Additional fetch options.
+ * @returns A promise that resolves to the parsed JSON response.
+ */
+const requestNaverApi = async <T>(path: string, config: NaverApiConfig, init: RequestInit = {}): Promise<T> => {
+    let url: string;
+    let headers: Record<string, string> = { ...(init.headers as Record<string, string>) };
+
+    if (config.proxyMode === 'public') {
+        // Public proxies can be unreliable and are not recommended for production environments.
+        const naverApiUrl = `${NAVER_API_URL}/v1${path.replace(/^\/search\/(\w+)/, '/search/$1.json')}`;
+        url = `https://corsproxy.io/?${naverApiUrl}`;
+        // The proxy forwards these headers to the Naver API.
+        headers = {
+            ...headers,
+            'X-Naver-Client-Id': config.clientId,
+            'X-Naver-Client-Secret': config.clientSecret,
+        };
+    } else {
+        url = `${NAVER_PROXY_URL}${path}`;
+    }
+
+    let response: Response;
+    try {
+        response = await fetch(url, { ...init, headers });
     } catch (error) {
+        if (isAbortError(error)) throw error;
         // This catch block will handle network errors (e.g., TypeError: Failed to fetch)
         console.error("Fetch error:", error);
-        if (error instanceof TypeError) {
-             throw new Error("네트워크 오류가 발생했습니다. 공개 프록시 서버가 불안정할 수 있습니다.");
+        throw new NaverApiError(
+            'UPSTREAM_UNAVAILABLE',
+            config.proxyMode === 'public'
+                ? "네트워크 오류가 발생했습니다. 공개 프록시 서버가 불안정할 수 있습니다."
+                : "네트워크 오류가 발생했습니다. Naver 프록시 서버가 실행 중인지 확인하세요.",
+            0,
+        );
+    }
+
+    if (!response.ok) {
+        if (config.proxyMode === 'server') {
+            throw await toNaverApiError(response);
+        }
+        // Try to parse error message from Naver if available
+        const errorText = await response.text();
+        let message = `Request failed with status: ${response.status}`;
+        try {
+            message = JSON.parse(errorText).errorMessage || message;
+        } catch {
+            // This will catch JSON parsing errors if the proxy returns HTML, etc.
+            console.error("Non-JSON response from proxy:", errorText);
         }
-        // Re-throw other errors
-        throw error;
+        throw new NaverApiError('UPSTREAM_ERROR', `Naver API error: ${message}`, response.status);
+    }
+
+    return response.json();
+};
+
+type NaverSearchOptions = { display?: number; start?: number; sort?: 'sim' | 'date'; signal?: AbortSignal };
+
+/**
+ * Fetches one page of one of the Naver search APIs (blog, news or cafe).
+ * @param type The search endpoint to query.
+ * @param query The search term.
+ * @param config The Naver API configuration.
+ * @param options Paging and sort options passed through to Naver, and an optional AbortSignal.
+ * @returns A promise that resolves to the total result count and the items of this page.
+ */
+export const searchNaverPage = async <T = NaverBlogItem>(
+    type: NaverSearchType,
+    query: string,
+    config: NaverApiConfig,
+    options: NaverSearchOptions = {},
+): Promise<{ total: number; items: T[] }> => {
+    const params = new URLSearchParams({
+        query,
+        display: String(options.display ?? 10),
+        start: String(options.start ?? 1),
+        sort: options.sort ?? 'sim',
+    });
+    const data = await requestNaverApi<{ total: number; items: T[] }>(`/search/${type}?${params.toString()}`, config, { method: 'GET', signal: options.signal });
+    return { total: data.total ?? 0, items: data.items ?? [] };
+};
+
+/**
+ * Searches one of the Naver search APIs (blog, news or cafe).
+ * @param type The search endpoint to query.
+ * @param query The search term.
+ * @param config The Naver API configuration.
+ * @param options Paging and sort options passed through to Naver, and an optional AbortSignal.
+ * @returns A promise that resolves to the list of items from the API response.
+ */
+export const searchNaver = async <T = NaverBlogItem>(
+    type: NaverSearchType,
+    query: string,
+    config: NaverApiConfig,
+    options: NaverSearchOptions = {},
+): Promise<T[]> => {
+    const { items } = await searchNaverPage<T>(type, query, config, options);
+    return items; // The 'items' array contains the list of results
+};
+
+/**
+ * Searches the Naver Blog API for a given query.
+ * @param query The search term.
+ * @param config The Naver API configuration.
+ * @param signal An optional AbortSignal to cancel the request.
+ * @returns A promise that resolves to the list of blog items from the API response.
+ */
+export const searchNaverBlogs = async (query: string, config: NaverApiConfig, signal?: AbortSignal): Promise<NaverBlogItem[]> => {
+    return searchNaver<NaverBlogItem>('blog', query, config, { signal });
+};
+
+// The Naver search API returns at most 100 items per request.
+const NAVER_MAX_DISPLAY = 100;
+
+/**
+ * Pages through the Naver Blog API until `maxResults` items are collected or the results run out.
+ * @param query The search term.
+ * @param config The Naver API configuration.
+ * @param options Sort order, number of results (up to 1000, Naver's paging limit), page size and an optional AbortSignal.
+ * @returns A promise that resolves to the total result count and the collected items.
+ */
+export const fetchNaverBlogResults = async (
+    query: string,
+    config: NaverApiConfig,
+    options: { sort: 'sim' | 'date'; maxResults?: number; pageSize?: number; signal?: AbortSignal },
+): Promise<{ total: number; items: NaverBlogItem[] }> => {
+    const maxResults = options.maxResults ?? 100;
+    const pageSize = Math.min(options.pageSize ?? NAVER_MAX_DISPLAY, NAVER_MAX_DISPLAY);
+    const items: NaverBlogItem[] = [];
+    let total = 0;
+
+    for (let start = 1; items.length < maxResults && start <= 1000; start += pageSize) {
+        const page = await searchNaverPage<NaverBlogItem>('blog', query, config, {
+            display: Math.min(pageSize, maxResults - items.length),
+            start,
+            sort: options.sort,
+            signal: options.signal,
+        });
+        total = page.total;
+        items.push(...page.items);
+        if (page.items.length === 0 || items.length >= total) break;
     }
-};
\ No newline at end of file
+    return { total, items };
+};
+
+/**
+ * Fetches relative search volumes from the Naver DataLab Search Trend API.
+ * @param request The keyword groups, date range and optional device/gender/age filters.
+ * @param config The Naver API configuration.
+ * @param signal An optional AbortSignal to cancel the request.
+ * @returns A promise that resolves to one series per keyword group.
+ */
+export const fetchSearchTrend = async (request: DataLabTrendRequest, config: NaverApiConfig, signal?: AbortSignal): Promise<DataLabTrendSeries[]> => {
+    const data = await requestNaverApi<{ results?: DataLabTrendSeries[] }>('/datalab/search', config, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+        signal,
+    });
+    return data.results ?? [];
+};
@@ -0,0 +1,182 @@
+import type { OutlineSection, PostGenerationOptions } from "../types";
+import { getAiProvider, getModelFor } from "./providers";
+import { isAbortError } from "./abort";
+import { buildLanguageInstructions, buildSectionInstructions, buildStyleInstructions, describeLengthUnit, DEFAULT_POST_OPTIONS } from "./postOptions";
+import { LANGUAGE_PROMPT_NAMES } from "./languages";
+
+const HEADING_LINE = /^(#{2,3})\s+(.+?)\s*#*\s*$/;
+
+/**
+ * Creates an empty section, used for sections the user adds by hand.
+ */
+export const createOutlineSection = (patch: Partial<OutlineSection> = {}): OutlineSection => ({
+    id: crypto.randomUUID(),
+    heading: '',
+    level: 2,
+    keyPoints: [],
+    hasImage: false,
+    ...patch,
+});
+
+const describeOutline = (sections: OutlineSection[], current?: OutlineSection) =>
+    sections.map(section => {
+        const marker = section.id === current?.id ? ' <- WRITE THIS SECTION' : '';
+        const points = section.keyPoints.length ? `: ${section.keyPoints.join('; ')}` : '';
+        return `${'#'.repeat(section.level)} ${section.heading}${points}${marker}`;
+    }).join('\n');
+
+/**
+ * Plans the structure of a post before anything is written.
+ * @param title The selected blog post title.
+ * @param options Tone, audience, length, sections and formatting rules for the post.
+ * @param signal An optional AbortSignal to cancel the request.
+ * @returns A promise that resolves to the outline sections, in order.
+ */
+export const generateOutline = async (title: string, options: PostGenerationOptions = DEFAULT_POST_OPTIONS, signal?: AbortSignal): Promise<OutlineSection[]> => {
+    const language = LANGUAGE_PROMPT_NAMES[options.language];
+    try {
+        const prompt = `
+        You are planning an SEO-friendly Naver blog post in ${language} titled "${title}".
+        Create an outline of 4 to 8 sections. Use level 2 for the main sections and level 3 only for a sub-topic of the section before it.
+        For each section give a short ${language} heading, 2 to 4 key points in ${language} that the section must cover,
+        and whether a photo or illustration should appear at the start of the section. Mark 2 to 5 sections as needing an image,
+        always including the first one, and describe briefly in ${language} what the image should show.
+        The whole post will be between ${options.minLength} and ${options.maxLength} ${describeLengthUnit(options)} long, not counting spaces; plan the number of sections accordingly.
+        ${buildLanguageInstructions(options)}
+        ${buildSectionInstructions(options)}
+        `;
+
+        const jsonResponse = await getAiProvider().generateJson<{ sections?: { heading?: string; level?: number; keyPoints?: string[]; image?: boolean; imageHint?: string }[] }>({
+            model: getModelFor('post'),
+            prompt,
+            signal,
+            schema: {
+                type: 'object',
+                properties: {
+                    sections: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                heading: { type: 'string', description: 'The section heading, without Markdown markers.' },
+                                level: { type: 'integer', description: '2 for a main section, 3 for a sub-section.' },
+                                keyPoints: { type: 'array', items: { type: 'string' } },
+                                image: { type: 'boolean', description: 'Whether an image should open this section.' },
+                                imageHint: { type: 'string', description: 'What the image should show.' },
+                            },
+                        },
+                    },
+                },
+            },
+        });
+
+        const sections = (jsonResponse.sections ?? [])
+            .filter(section => section.heading?.trim())
+            .map(section => createOutlineSection({
+                heading: section.heading!.replace(/^#+\s*/, '').trim(),
+                level: section.level === 3 ? 3 : 2,
+                keyPoints: (section.keyPoints ?? []).map(point => point.trim()).filter(Boolean),
+                hasImage: !!section.image,
+                imageHint: section.imageHint?.trim() || undefined,
+            }));
+        if (sections.length === 0) {
+            throw new Error("Empty outline");
+        }
+        // The first paragraph always has an image, so the first section opens one.
+        sections[0].hasImage = true;
+        return sections;
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error("Error in generateOutline:", error);
+        throw new Error("AI 모델을 사용하여 글 개요를 만드는 데 실패했습니다.");
+    }
+};
+
+/**
+ * Writes the body of one outline section. The rest of the outline is passed along so the
+ * section does not repeat what its neighbours cover.
+ * @param title The post title.
+ * @param sections The whole outline, in order.
+ * @param section The section to write.
+ * @param options Tone, audience, length and formatting rules for the post.
+ * @param signal An optional AbortSignal to cancel the request.
+ * @returns A promise that resolves to the section body, without its heading.
+ */
+export const writeOutlineSection = async (
+    title: string,
+    sections: OutlineSection[],
+    section: OutlineSection,
+    options: PostGenerationOptions = DEFAULT_POST_OPTIONS,
+    signal?: AbortSignal,
+): Promise<string> => {
+    try {
+        const share = Math.max(1, sections.length);
+        const prompt = `
+        You are writing a Naver blog post in ${LANGUAGE_PROMPT_NAMES[options.language]} titled "${title}", one section at a time.
+        This is the outline of the whole post:
+        ---
+        ${describeOutline(sections, section)}
+        ---
+        Write only the body of the section "${section.heading}".
+        ${section.keyPoints.length ? `Cover these points: ${section.keyPoints.join('; ')}.` : ''}
+        Do not cover what the other sections are about, and do not write the section heading or any other Markdown headings.
+        Aim for about ${Math.round(options.minLength / share)} to ${Math.round(options.maxLength / share)} ${describeLengthUnit(options)}, not counting spaces.
+        Follow these requirements:
+        ${buildStyleInstructions(options)}
+        Respond with only the section body, without any extra formatting or explanation.
+        `;
+
+        const text = (await getAiProvider().generateText({ model: getModelFor('post'), prompt, signal })).trim();
+        // Models sometimes repeat the heading despite the instruction.
+        const body = text.split('\n').filter((line, index) => index > 0 || !HEADING_LINE.test(line.trim())).join('\n').trim();
+        if (!body) {
+            throw new Error("Empty response");
+        }
+        return body;
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error("Error in writeOutlineSection:", error);
+        throw new Error("AI 모델을 사용하여 섹션을 작성하는 데 실패했습니다.");
+    }
+};
+
+/**
+ * Joins the written sections into the full post, each under its Markdown heading.
+ */
+export const assembleOutline = (sections: OutlineSection[]): string =>
+    sections
+        .map(section => [`${'#'.repeat(section.level)} ${section.heading.trim()}`, section.content?.trim()].filter(Boolean).join('\n\n'))
+        .join('\n\n');
+
+const normalizeHeading = (heading: string) => heading.replace(/[^\p{L}\p{N}]+/gu, '').toLowerCase();
+
+/**
+ * Splits a post into paragraphs at its outline's section boundaries instead of asking the AI.
+ * A new paragraph (and image) starts at every section marked `hasImage`; the sections after it
+ * stay in the same paragraph. Headings added while editing the text start a paragraph when they
+ * are level 2. Text before the first heading belongs to the first paragraph.
+ * @param text The post as the user last edited it.
+ * @param sections The outline the post was written from.
+ * @returns The paragraphs, or an empty array when the post has no headings to split at.
+ */
+export const splitPostByOutline = (text: string, sections: OutlineSection[]): string[] => {
+    if (sections.length === 0) return [];
+    const byHeading = new Map(sections.map(section => [normalizeHeading(section.heading), section]));
+    const paragraphs: string[][] = [[]];
+    let sawHeading = false;
+
+    for (const line of text.split('\n')) {
+        const match = HEADING_LINE.exec(line.trim());
+        if (match) {
+            const section = byHeading.get(normalizeHeading(match[2]));
+            const startsParagraph = section ? section.hasImage : match[1].length === 2;
+            // The first heading stays with any introduction written before it.
+            if (sawHeading && startsParagraph) paragraphs.push([]);
+            sawHeading = true;
+        }
+        paragraphs[paragraphs.length - 1].push(line);
+    }
+
+    if (!sawHeading) return [];
+    return paragraphs.map(lines => lines.join('\n').trim()).filter(Boolean);
+};
@@ -0,0 +1,47 @@
+import type { OutputLanguage } from "../types";
+import { getAiProvider, getModelFor } from "./providers";
+import { isAbortError } from "./abort";
+import { DEFAULT_OUTPUT_LANGUAGE, LANGUAGE_PROMPT_NAMES } from "./languages";
+
+/**
+ * Weaves a blog or company name into an existing post while leaving the rest of the text untouched.
+ * Unlike generateBlogPost this never rewrites the post, so manual edits survive; the caller is
+ * expected to show the changes (see textDiff.ts) before accepting them.
+ * @param text The post as the user last edited it.
+ * @param blogName The blog or company name to mention.
+ * @param language The language the post is written in, which it must stay in.
+ * @param signal An optional AbortSignal to cancel the request.
+ * @returns A promise that resolves to the personalized post.
+ */
+export const personalizePost = async (
+    text: string,
+    blogName: string,
+    language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE,
+    signal?: AbortSignal,
+): Promise<string> => {
+    try {
+        const prompt = `
+        You are editing a ${LANGUAGE_PROMPT_NAMES[language]} Naver blog post. Naturally mention the blog or company name "${blogName}" in the post,
+        for example in the introduction, once in the body where it fits, and in the closing sentence.
+        Make the smallest possible changes: only insert or adjust the few words needed to mention the name.
+        Do NOT rewrite, reorder, summarize or translate anything else, and keep every line break, list and heading exactly as it is.
+        Any words you add must be in ${LANGUAGE_PROMPT_NAMES[language]}, like the rest of the post.
+        Respond with only the full edited post, without any extra formatting or explanation.
+
+        POST:
+        ---
+        ${text}
+        ---
+        `;
+
+        const personalized = (await getAiProvider().generateText({ model: getModelFor('post'), prompt, signal })).trim();
+        if (!personalized) {
+            throw new Error("Empty response");
+        }
+        return personalized;
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error("Error in personalizePost:", error);
+        throw new Error("AI 모델을 사용하여 블로그명을 글에 반영하는 데 실패했습니다.");
+    }
+};
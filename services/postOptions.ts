@@ -0,0 +1,173 @@
+import type { PostGenerationOptions, PostOptionIssue, PostOptionsPreset, PostSection, PostTone } from "../types";
+import { countCharacters } from "./seoLint";
+import { DEFAULT_OUTPUT_LANGUAGE, LANGUAGE_PROMPT_NAMES } from "./languages";
+
+const OPTIONS_STORAGE_KEY = 'postGenerationOptions';
+const PRESETS_STORAGE_KEY = 'postOptionPresets';
+
+export const TONE_LABELS: Record<PostTone, string> = {
+    formal: '격식체 (전문적)',
+    friendly: '친근한 말투',
+    haeyo: '해요체',
+    hamnida: '합니다체',
+};
+
+export const SECTION_LABELS: Record<PostSection, string> = {
+    intro: '도입부',
+    faq: '자주 묻는 질문 (FAQ)',
+    summary: '요약',
+    cta: '행동 유도 (CTA)',
+};
+
+export const DEFAULT_POST_OPTIONS: PostGenerationOptions = {
+    tone: 'friendly',
+    audience: '',
+    minLength: 1500,
+    maxLength: 3000,
+    sections: ['intro', 'summary'],
+    useLists: true,
+    useTables: false,
+    bannedPhrases: [],
+    language: DEFAULT_OUTPUT_LANGUAGE,
+};
+
+const TONE_INSTRUCTIONS: Record<PostTone, string> = {
+    formal: 'Use a formal, professional and trustworthy tone.',
+    friendly: 'Use a friendly and informative tone, as if talking to a neighbor.',
+    haeyo: 'Write every sentence in the polite informal style (해요체, e.g. "~해요", "~이에요").',
+    hamnida: 'Write every sentence in the formal polite style (합니다체, e.g. "~합니다", "~입니다").',
+};
+
+// 해요체 and 합니다체 only exist in Korean; other languages get the nearest register.
+const FOREIGN_TONE_INSTRUCTIONS: Record<PostTone, string> = {
+    ...TONE_INSTRUCTIONS,
+    haeyo: 'Use a polite but warm, conversational tone.',
+    hamnida: 'Use a polite, formal tone.',
+};
+
+const SECTION_INSTRUCTIONS: Record<PostSection, string> = {
+    intro: 'an introduction that hooks the reader',
+    faq: 'a "자주 묻는 질문" (FAQ) section with 3-5 questions and answers',
+    summary: 'a short summary (정리) near the end',
+    cta: 'a closing call to action (e.g. asking readers to comment, add as a neighbor, visit or book)',
+};
+
+// Loose patterns used to check that a required section made it into the post.
+const SECTION_PATTERNS: Record<Exclude<PostSection, 'intro'>, RegExp> = {
+    faq: /FAQ|자주\s*묻는|Q\s*[.:)]|질문/i,
+    summary: /요약|정리|마무리|결론/,
+    cta: /댓글|구독|이웃\s*추가|공감|문의|방문|예약|신청|확인해\s*보세요/,
+};
+
+/**
+ * Reads a JSON value from localStorage, falling back when it is missing or unreadable.
+ */
+const readStorage = <T>(key: string, fallback: T): T => {
+    try {
+        const stored = localStorage.getItem(key);
+        if (stored) return JSON.parse(stored) as T;
+    } catch (error) {
+        console.warn(`Failed to read ${key}, using defaults:`, error);
+    }
+    return fallback;
+};
+
+/**
+ * Loads the options used last time, filling in defaults for fields added later.
+ */
+export const loadPostOptions = (): PostGenerationOptions => ({
+    ...DEFAULT_POST_OPTIONS,
+    ...readStorage<Partial<PostGenerationOptions>>(OPTIONS_STORAGE_KEY, {}),
+});
+
+export const savePostOptions = (options: PostGenerationOptions) => {
+    localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(options));
+};
+
+export const loadPostOptionPresets = (): PostOptionsPreset[] =>
+    readStorage<PostOptionsPreset[]>(PRESETS_STORAGE_KEY, []).map(preset => ({
+        ...preset,
+        options: { ...DEFAULT_POST_OPTIONS, ...preset.options },
+    }));
+
+export const savePostOptionPresets = (presets: PostOptionsPreset[]) => {
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+};
+
+/**
+ * Describes the readers of a post that is not in Korean, or an empty string for Korean posts.
+ */
+export const buildLanguageInstructions = (options: PostGenerationOptions): string => {
+    if (options.language === 'ko') return '';
+    const language = LANGUAGE_PROMPT_NAMES[options.language];
+    return `Write everything in ${language}, as a native ${language} writer would, not as a translation from Korean. `
+        + `The readers are ${language} speakers, such as tourists visiting Korea or overseas buyers, so briefly explain Korean places, terms and customs they may not know.`;
+};
+
+/**
+ * The unit the length limits are given in, for the prompts.
+ */
+export const describeLengthUnit = (options: PostGenerationOptions): string =>
+    options.language === 'ko' ? 'Korean characters' : 'characters';
+
+/**
+ * Turns the tone, audience and formatting options into prompt instructions. Used on its own
+ * when only part of the post is written at a time.
+ */
+export const buildStyleInstructions = (options: PostGenerationOptions): string => {
+    const lines = [
+        buildLanguageInstructions(options),
+        (options.language === 'ko' ? TONE_INSTRUCTIONS : FOREIGN_TONE_INSTRUCTIONS)[options.tone],
+        options.audience.trim() ? `The target readers are: ${options.audience.trim()}. Choose examples and vocabulary that fit them.` : '',
+        options.useLists ? 'Use bullet points or numbered lists where they make the content easier to scan.' : 'Do not use bullet points or numbered lists; write in prose paragraphs.',
+        options.useTables ? 'Where a comparison or a set of facts fits, present it as a Markdown table.' : 'Do not use tables.',
+        options.bannedPhrases.length > 0 ? `Never use these phrases: ${options.bannedPhrases.map(phrase => `"${phrase}"`).join(', ')}.` : '',
+    ];
+    return lines.filter(Boolean).join('\n');
+};
+
+/**
+ * Describes the required sections, or an empty string when none are required.
+ */
+export const buildSectionInstructions = (options: PostGenerationOptions): string =>
+    options.sections.length > 0 ? `The post must include ${options.sections.map(section => SECTION_INSTRUCTIONS[section]).join(', ')}.` : '';
+
+/**
+ * Turns the options into prompt instructions for the post writer.
+ */
+export const buildPostOptionsPrompt = (options: PostGenerationOptions): string => {
+    const lines = [
+        buildStyleInstructions(options),
+        `The post must be between ${options.minLength} and ${options.maxLength} ${describeLengthUnit(options)} long, not counting spaces.`,
+        buildSectionInstructions(options),
+        'Divide the body with Markdown subheadings (##).',
+    ];
+    return lines.filter(Boolean).join('\n');
+};
+
+/**
+ * Checks a generated post against the options it was generated with.
+ * @returns The problems found; an empty array means the post follows the options.
+ */
+export const checkPostAgainstOptions = (text: string, options: PostGenerationOptions): PostOptionIssue[] => {
+    const issues: PostOptionIssue[] = [];
+    const length = countCharacters(text);
+    if (length < options.minLength) {
+        issues.push({ kind: 'too-short', message: `글이 공백 제외 ${length.toLocaleString('ko-KR')}자로, 목표(${options.minLength.toLocaleString('ko-KR')}자 이상)보다 짧습니다.` });
+    } else if (length > options.maxLength) {
+        issues.push({ kind: 'too-long', message: `글이 공백 제외 ${length.toLocaleString('ko-KR')}자로, 목표(${options.maxLength.toLocaleString('ko-KR')}자 이하)보다 깁니다.` });
+    }
+    // The section patterns are Korean words, so they cannot check posts in other languages.
+    for (const section of options.language === 'ko' ? options.sections : []) {
+        if (section === 'intro') continue; // Every post starts somewhere; there is nothing reliable to look for.
+        if (!SECTION_PATTERNS[section].test(text)) {
+            issues.push({ kind: 'missing-section', message: `'${SECTION_LABELS[section]}' 섹션을 찾지 못했습니다.` });
+        }
+    }
+    for (const phrase of options.bannedPhrases) {
+        if (phrase.trim() && text.includes(phrase.trim())) {
+            issues.push({ kind: 'banned-phrase', message: `금지 표현 '${phrase.trim()}'이(가) 포함되어 있습니다.` });
+        }
+    }
+    return issues;
+};
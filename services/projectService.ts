@@ -0,0 +1,204 @@
+import type { BlogProject, Result } from "../types";
+import { compactResultHistory, expandResultHistory } from "./versionHistory";
+import type { StoredResult } from "./versionHistory";
+
+const DB_NAME = 'ai-blog-assistant';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+
+const EXPORT_FORMAT = 'ai-blog-assistant-project';
+const EXPORT_VERSION = 1;
+
+// A project as it is kept in the database, with its result histories compacted.
+type StoredProject = Omit<BlogProject, 'results'> & { results: StoredResult[] };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use, creates) the IndexedDB database holding saved projects.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+                    const store = db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+                    store.createIndex('updatedAt', 'updatedAt');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+/**
+ * Runs a single request against the project store and resolves with its result.
+ */
+const runRequest = async <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(PROJECT_STORE, mode);
+        const request = makeRequest(transaction.objectStore(PROJECT_STORE));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+/**
+ * Drops values that cannot be serialized to JSON (the uploaded File objects).
+ * The uploaded image itself is kept as its data URL in `originalImageUrl`.
+ */
+const toStorableResult = ({ uploadedImageFile, ...rest }: Result): Result => rest;
+
+/**
+ * Upgrades results saved before each paragraph had its own image source,
+ * when the upload choice was stored in `editStatus` ('asis' / 'editing').
+ */
+const migrateResult = (result: StoredResult): StoredResult => {
+    if (result.imageSource) return result;
+    const imageSource = !result.originalImageUrl ? 'generate' : result.editStatus === 'editing' ? 'upload-edit' : 'upload';
+    const editStatus = result.editStatus === 'asis' || result.editStatus === 'editing' ? 'uploaded' : result.editStatus;
+    return { ...result, imageSource, editStatus };
+};
+
+const migrateProject = (project: StoredProject): BlogProject => ({
+    ...project,
+    results: project.results.map(result => expandResultHistory(migrateResult(result))),
+});
+
+/**
+ * Creates an empty project with a fresh id.
+ * @param name The display name of the project.
+ */
+export const createProject = (name: string): BlogProject => {
+    const now = Date.now();
+    return {
+        id: crypto.randomUUID(),
+        name,
+        createdAt: now,
+        updatedAt: now,
+        step: 'GENERATE_TOPIC',
+        mainKeyword: '',
+        additionalKeywords: '',
+        topicIdeas: [],
+        naverSearchResults: [],
+        generatedPost: '',
+        blogName: '',
+        results: [],
+    };
+};
+
+/**
+ * Lists all saved projects, most recently updated first.
+ */
+export const listProjects = async (): Promise<BlogProject[]> => {
+    try {
+        const projects = await runRequest<StoredProject[]>('readonly', store => store.getAll());
+        return projects.map(migrateProject).sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (error) {
+        console.error("Error in listProjects:", error);
+        throw new Error("저장된 프로젝트 목록을 불러오지 못했습니다.");
+    }
+};
+
+/**
+ * Loads a single project by id.
+ * @returns The project, or null if it does not exist.
+ */
+export const getProject = async (id: string): Promise<BlogProject | null> => {
+    try {
+        const project = await runRequest<StoredProject | undefined>('readonly', store => store.get(id));
+        return project ? migrateProject(project) : null;
+    } catch (error) {
+        console.error("Error in getProject:", error);
+        throw new Error("프로젝트를 불러오지 못했습니다.");
+    }
+};
+
+/**
+ * Inserts or replaces a project, stamping its update time.
+ * Result histories are stored compacted, so versions that share an image do not each store a copy.
+ * @returns The project as stored, with its histories as they were passed in.
+ */
+export const saveProject = async (project: BlogProject): Promise<BlogProject> => {
+    const saved: BlogProject = {
+        ...project,
+        results: project.results.map(toStorableResult),
+        updatedAt: Date.now(),
+    };
+    const stored: StoredProject = { ...saved, results: saved.results.map(compactResultHistory) };
+    try {
+        await runRequest('readwrite', store => store.put(stored));
+        return saved;
+    } catch (error) {
+        console.error("Error in saveProject:", error);
+        throw new Error("프로젝트를 저장하지 못했습니다.");
+    }
+};
+
+/**
+ * Deletes a project by id.
+ */
+export const deleteProject = async (id: string): Promise<void> => {
+    try {
+        await runRequest('readwrite', store => store.delete(id));
+    } catch (error) {
+        console.error("Error in deleteProject:", error);
+        throw new Error("프로젝트를 삭제하지 못했습니다.");
+    }
+};
+
+/**
+ * Serializes a project, including its images as data URLs, into a single JSON file.
+ * Version histories are left out: each could hold many more copies of the images than the post itself.
+ */
+export const exportProjectToBlob = (project: BlogProject): Blob => {
+    const payload = {
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        project: {
+            ...project,
+            postHistory: undefined,
+            results: project.results.map(result => ({ ...toStorableResult(result), history: undefined, undone: undefined })),
+        },
+    };
+    return new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+};
+
+/**
+ * Parses a project file created by exportProjectToBlob.
+ * The imported project gets a new id so it never overwrites an existing draft.
+ * @param json The file contents.
+ */
+export const parseProjectFile = (json: string): BlogProject => {
+    let payload: { format?: string; version?: number; project?: BlogProject };
+    try {
+        payload = JSON.parse(json);
+    } catch {
+        throw new Error("프로젝트 파일이 올바른 JSON 형식이 아닙니다.");
+    }
+    if (payload.format !== EXPORT_FORMAT || !payload.project) {
+        throw new Error("이 앱에서 내보낸 프로젝트 파일이 아닙니다.");
+    }
+    if (payload.version !== undefined && payload.version > EXPORT_VERSION) {
+        throw new Error("더 새로운 버전의 앱에서 내보낸 프로젝트 파일입니다.");
+    }
+
+    const imported = migrateProject(payload.project);
+    const now = Date.now();
+    return {
+        ...createProject(imported.name || '가져온 프로젝트'),
+        ...imported,
+        id: crypto.randomUUID(),
+        createdAt: imported.createdAt ?? now,
+        updatedAt: now,
+    };
+};
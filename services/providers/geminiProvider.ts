@@ -0,0 +1,108 @@
+import { GoogleGenAI, Type, Modality } from "@google/genai";
+import type { Schema } from "@google/genai";
+import type { AiProvider, InlineImage, JsonSchema } from "./types";
+
+/**
+ * Converts the provider-neutral schema into Gemini's OpenAPI-style schema.
+ */
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+    type: schema.type.toUpperCase() as Type,
+    description: schema.description,
+    enum: schema.enum,
+    required: schema.required,
+    items: schema.items ? toGeminiSchema(schema.items) : undefined,
+    properties: schema.properties
+        ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+        : undefined,
+});
+
+/**
+ * Builds the request contents: the bare prompt, or the images followed by the prompt.
+ */
+const toContents = (prompt: string, images?: InlineImage[]) => images && images.length > 0
+    ? { parts: [...images.map(image => ({ inlineData: { data: image.data, mimeType: image.mimeType } })), { text: prompt }] }
+    : prompt;
+
+/**
+ * Creates the Gemini/Imagen adapter.
+ * @param apiKey The Gemini API key.
+ */
+export const createGeminiProvider = (apiKey: string): AiProvider => {
+    if (!apiKey) {
+        throw new Error("Gemini API 키가 설정되지 않았습니다. GEMINI_API_KEY 또는 AI 설정의 API 키를 확인하세요.");
+    }
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        async generateText({ model, prompt, images, signal }) {
+            const response = await ai.models.generateContent({ model, contents: toContents(prompt, images), config: { abortSignal: signal } });
+            return (response.text ?? '').trim();
+        },
+
+        async *streamText({ model, prompt, images, signal }) {
+            const stream = await ai.models.generateContentStream({ model, contents: toContents(prompt, images), config: { abortSignal: signal } });
+            for await (const chunk of stream) {
+                if (chunk.text) yield chunk.text;
+            }
+        },
+
+        async generateJson({ model, prompt, images, schema, signal }) {
+            const response = await ai.models.generateContent({
+                model,
+                contents: toContents(prompt, images),
+                config: {
+                    abortSignal: signal,
+                    responseMimeType: "application/json",
+                    responseSchema: toGeminiSchema(schema),
+                },
+            });
+            return JSON.parse(response.text ?? '');
+        },
+
+        async generateImage({ model, prompt, aspectRatio = '16:9', count = 1, negativePrompt, signal }) {
+            const response = await ai.models.generateImages({
+                model,
+                prompt,
+                config: {
+                    abortSignal: signal,
+                    numberOfImages: count,
+                    outputMimeType: 'image/jpeg',
+                    aspectRatio,
+                    negativePrompt: negativePrompt || undefined,
+                },
+            });
+
+            const images = (response.generatedImages ?? [])
+                .map(generated => generated.image?.imageBytes)
+                .filter((bytes): bytes is string => !!bytes)
+                .map(bytes => `data:image/jpeg;base64,${bytes}`);
+            if (images.length === 0) {
+                throw new Error("이미지 생성 결과 이미지가 없습니다.");
+            }
+            return images;
+        },
+
+        async editImage({ model, prompt, image, signal }) {
+            const response = await ai.models.generateContent({
+                model,
+                contents: {
+                    parts: [
+                        { inlineData: { data: image.data, mimeType: image.mimeType } },
+                        { text: prompt },
+                    ],
+                },
+                config: {
+                    abortSignal: signal,
+                    responseModalities: [Modality.IMAGE, Modality.TEXT],
+                },
+            });
+
+            for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+                if (part.inlineData) {
+                    return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+                }
+            }
+            throw new Error("AI가 수정된 이미지를 반환하지 않았습니다.");
+        },
+    };
+};
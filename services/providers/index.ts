@@ -0,0 +1,88 @@
+import type { AiProviderSettings, AiTask } from "../../types";
+import type { AiProvider } from "./types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+
+export type { AiProvider, JsonSchema } from "./types";
+
+const STORAGE_KEY = 'aiProviderSettings';
+
+export const DEFAULT_AI_SETTINGS: Record<AiProviderSettings['provider'], AiProviderSettings> = {
+    gemini: {
+        provider: 'gemini',
+        apiKey: '',
+        baseUrl: '',
+        models: {
+            topics: 'gemini-2.5-flash',
+            post: 'gemini-2.5-flash',
+            split: 'gemini-2.5-flash',
+            imagePrompt: 'gemini-2.5-flash',
+            translate: 'gemini-2.5-flash',
+            vision: 'gemini-2.5-flash',
+            image: 'imagen-4.0-generate-001',
+            imageEdit: 'gemini-2.5-flash-image-preview',
+        },
+    },
+    'openai-compatible': {
+        provider: 'openai-compatible',
+        apiKey: '',
+        baseUrl: 'http://localhost:11434/v1',
+        models: {
+            topics: 'llama3.1',
+            post: 'llama3.1',
+            split: 'llama3.1',
+            imagePrompt: 'llama3.1',
+            translate: 'llama3.1',
+            vision: 'llava',
+            image: 'gpt-image-1',
+            imageEdit: 'gpt-image-1',
+        },
+    },
+};
+
+/**
+ * Loads the AI provider settings from localStorage, falling back to the Gemini defaults.
+ */
+export const loadAiSettings = (): AiProviderSettings => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored) as AiProviderSettings;
+            const defaults = DEFAULT_AI_SETTINGS[parsed.provider] ?? DEFAULT_AI_SETTINGS.gemini;
+            return { ...defaults, ...parsed, models: { ...defaults.models, ...parsed.models } };
+        }
+    } catch (error) {
+        console.warn("Failed to read AI settings, using defaults:", error);
+    }
+    return DEFAULT_AI_SETTINGS.gemini;
+};
+
+let settings: AiProviderSettings = loadAiSettings();
+let provider: AiProvider | null = null;
+
+/**
+ * Persists new AI provider settings; the next service call uses them.
+ */
+export const saveAiSettings = (newSettings: AiProviderSettings) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(newSettings));
+    settings = newSettings;
+    provider = null;
+};
+
+/**
+ * Returns the adapter for the configured provider, creating it on first use.
+ * Missing credentials surface here as an error instead of at import time.
+ */
+export const getAiProvider = (): AiProvider => {
+    if (!provider) {
+        provider = settings.provider === 'openai-compatible'
+            ? createOpenAiCompatibleProvider(settings.baseUrl, settings.apiKey)
+            : createGeminiProvider(settings.apiKey || process.env.API_KEY || '');
+    }
+    return provider;
+};
+
+/**
+ * Returns the model name configured for a task.
+ */
+export const getModelFor = (task: AiTask): string => settings.models[task];
@@ -0,0 +1,155 @@
+import type { ImageAspectRatio } from "../../types";
+import type { AiProvider, InlineImage } from "./types";
+
+// OpenAI image endpoints only accept a few fixed sizes; pick the closest one for each ratio.
+const IMAGE_SIZES: Record<ImageAspectRatio, string> = {
+    '1:1': '1024x1024',
+    '4:3': '1536x1024',
+    '3:4': '1024x1536',
+    '16:9': '1536x1024',
+    '9:16': '1024x1536',
+};
+
+const dataUrlToBlob = (data: string, mimeType: string): Blob => {
+    const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+    return new Blob([bytes], { type: mimeType });
+};
+
+/**
+ * Builds the user message: plain text, or a content array with the images as data URLs
+ * (the vision format accepted by OpenAI, Ollama and LM Studio).
+ */
+const toUserMessage = (prompt: string, images?: InlineImage[]) => ({
+    role: 'user',
+    content: images && images.length > 0
+        ? [
+            { type: 'text', text: prompt },
+            ...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } })),
+        ]
+        : prompt,
+});
+
+/**
+ * Creates an adapter for any server implementing the OpenAI REST API
+ * (OpenAI itself, Ollama, LM Studio, vLLM, LocalAI, ...).
+ * @param baseUrl The API root, including the version segment (e.g. 'http://localhost:11434/v1').
+ * @param apiKey The bearer token; local servers usually accept any value.
+ */
+export const createOpenAiCompatibleProvider = (baseUrl: string, apiKey: string): AiProvider => {
+    if (!baseUrl) {
+        throw new Error("OpenAI 호환 엔드포인트의 Base URL이 설정되지 않았습니다.");
+    }
+    const root = baseUrl.replace(/\/+$/, '');
+    const authHeaders: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+    const send = async (path: string, init: RequestInit): Promise<Response> => {
+        const response = await fetch(`${root}${path}`, {
+            ...init,
+            headers: { ...authHeaders, ...(init.headers as Record<string, string>) },
+        });
+        if (!response.ok) {
+            const errorText = await response.text();
+            let message = response.statusText;
+            try {
+                message = JSON.parse(errorText).error?.message || message;
+            } catch {
+                // Non-JSON error body; keep the status text.
+            }
+            throw new Error(`OpenAI 호환 API 오류 (${response.status}): ${message}`);
+        }
+        return response;
+    };
+
+    const request = async (path: string, init: RequestInit) => (await send(path, init)).json();
+
+    const jsonInit = (body: unknown, signal?: AbortSignal): RequestInit => ({
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+    });
+
+    const chat = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<string> => {
+        const data = await request('/chat/completions', jsonInit(body, signal));
+        return (data.choices?.[0]?.message?.content ?? '').trim();
+    };
+
+    const toDataUrls = (data: { data?: { b64_json?: string }[] }) => {
+        const images = (data.data ?? []).filter(item => item.b64_json).map(item => `data:image/png;base64,${item.b64_json}`);
+        if (images.length === 0) {
+            throw new Error("이미지 생성 결과 이미지가 없습니다.");
+        }
+        return images;
+    };
+
+    return {
+        async generateText({ model, prompt, images, signal }) {
+            return chat({ model, messages: [toUserMessage(prompt, images)] }, signal);
+        },
+
+        async *streamText({ model, prompt, images, signal }) {
+            const response = await send('/chat/completions', jsonInit({
+                model,
+                messages: [toUserMessage(prompt, images)],
+                stream: true,
+            }, signal));
+            if (!response.body) {
+                throw new Error("OpenAI 호환 API가 스트림을 반환하지 않았습니다.");
+            }
+
+            // Parse the server-sent events: one `data: {json}` line per chunk, ending with `data: [DONE]`.
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop() ?? '';
+                for (const line of lines) {
+                    const data = line.replace(/^data:\s*/, '').trim();
+                    if (!line.startsWith('data:') || !data) continue;
+                    if (data === '[DONE]') return;
+                    const text = JSON.parse(data).choices?.[0]?.delta?.content;
+                    if (text) yield text as string;
+                }
+            }
+        },
+
+        async generateJson({ model, prompt, images, schema, signal }) {
+            const content = await chat({
+                model,
+                messages: [toUserMessage(prompt, images)],
+                response_format: {
+                    type: 'json_schema',
+                    json_schema: { name: 'response', schema },
+                },
+            }, signal);
+            // Some local models wrap JSON in a Markdown code fence.
+            return JSON.parse(content.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+        },
+
+        async generateImage({ model, prompt, aspectRatio = '16:9', count = 1, negativePrompt, signal }) {
+            // The OpenAI API has no negative prompt, so it is written into the prompt instead.
+            const data = await request('/images/generations', jsonInit({
+                model,
+                prompt: negativePrompt ? `${prompt}\nAvoid: ${negativePrompt}` : prompt,
+                n: count,
+                size: IMAGE_SIZES[aspectRatio],
+                response_format: 'b64_json',
+            }, signal));
+            return toDataUrls(data);
+        },
+
+        async editImage({ model, prompt, image, signal }) {
+            const form = new FormData();
+            form.append('model', model);
+            form.append('prompt', prompt);
+            form.append('response_format', 'b64_json');
+            form.append('image', dataUrlToBlob(image.data, image.mimeType), 'image');
+            const data = await request('/images/edits', { method: 'POST', body: form, signal });
+            return toDataUrls(data)[0];
+        },
+    };
+};
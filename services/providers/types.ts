@@ -0,0 +1,62 @@
+import type { ImageAspectRatio } from "../../types";
+
+/**
+ * A provider-neutral subset of JSON Schema used to describe structured responses.
+ * Each adapter converts it into its vendor's own schema format.
+ */
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    required?: string[];
+    enum?: string[];
+}
+
+export interface InlineImage {
+    data: string; // base64 without the data URL prefix
+    mimeType: string;
+}
+
+export interface TextRequest {
+    model: string;
+    prompt: string;
+    // Images the model should look at along with the prompt (needs a multimodal model).
+    images?: InlineImage[];
+    signal?: AbortSignal;
+}
+
+export interface JsonRequest extends TextRequest {
+    schema: JsonSchema;
+}
+
+export interface ImageRequest {
+    model: string;
+    prompt: string;
+    aspectRatio?: ImageAspectRatio;
+    count?: number; // Number of images to generate, 1 by default
+    negativePrompt?: string; // What the images should not contain
+    signal?: AbortSignal;
+}
+
+export interface ImageEditRequest {
+    model: string;
+    prompt: string;
+    signal?: AbortSignal;
+    image: InlineImage;
+}
+
+/**
+ * The operations the app needs from an LLM/image vendor.
+ * Images are always returned as base64 data URLs.
+ * Every request accepts an AbortSignal; aborting rejects with an 'AbortError'.
+ */
+export interface AiProvider {
+    generateText(request: TextRequest): Promise<string>;
+    // Yields the generated text piece by piece as the model produces it.
+    streamText(request: TextRequest): AsyncIterable<string>;
+    generateJson<T>(request: JsonRequest): Promise<T>;
+    // Resolves to `count` images, or fewer if the vendor filtered some out.
+    generateImage(request: ImageRequest): Promise<string[]>;
+    editImage(request: ImageEditRequest): Promise<string>;
+}
@@ -0,0 +1,133 @@
+import type { KeywordAnalysis, OutputLanguage, PublishingMetadata } from "../types";
+import { getAiProvider, getModelFor } from "./providers";
+import { isAbortError } from "./abort";
+import { formatAnalysisForPrompt } from "./keywordAnalysis";
+import { DEFAULT_OUTPUT_LANGUAGE, LANGUAGE_PROMPT_NAMES } from "./languages";
+
+export const MIN_HASHTAGS = 10;
+export const MAX_HASHTAGS = 30;
+// Naver shows roughly this many characters of a post in search results.
+export const SUMMARY_MAX_CHARS = 120;
+
+// The topic directory Naver blogs file posts under (블로그 주제).
+export const NAVER_BLOG_CATEGORIES = [
+    '문학·책', '영화', '미술·디자인', '공연·전시', '음악', '드라마', '스타·연예인', '만화·애니', '방송',
+    '일상·생각', '육아·결혼', '반려동물', '좋은글·이미지', '패션·미용', '인테리어·DIY', '요리·레시피', '상품리뷰', '원예·재배',
+    '게임', '스포츠', '사진', '자동차', '취미', '국내여행', '세계여행', '맛집',
+    'IT·컴퓨터', '사회·정치', '건강·의학', '비즈니스·경제', '어학·외국어', '교육·학문',
+];
+
+export const EMPTY_PUBLISHING_METADATA: PublishingMetadata = {
+    hashtags: [],
+    summary: '',
+    altTitle: '',
+    category: '',
+};
+
+/**
+ * Cleans up hashtags the way Naver stores them: no '#', no spaces or punctuation, no duplicates,
+ * and at most MAX_HASHTAGS.
+ */
+export const normalizeHashtags = (tags: string[]): string[] => {
+    const seen = new Set<string>();
+    const result: string[] = [];
+    for (const tag of tags) {
+        const clean = tag.replace(/[^\p{L}\p{N}_]/gu, '');
+        if (!clean || seen.has(clean.toLowerCase())) continue;
+        seen.add(clean.toLowerCase());
+        result.push(clean);
+    }
+    return result.slice(0, MAX_HASHTAGS);
+};
+
+/**
+ * Parses hashtags typed by the user, separated by spaces, commas or '#'.
+ */
+export const parseHashtags = (text: string): string[] => normalizeHashtags(text.split(/[\s,#]+/));
+
+export const formatHashtags = (tags: string[]): string => tags.map(tag => `#${tag}`).join(' ');
+
+/**
+ * Formats the metadata as one plain-text block, for copying into the Naver editor's side fields.
+ */
+export const formatMetadataBlock = (metadata: PublishingMetadata): string => [
+    metadata.altTitle && `다른 제목: ${metadata.altTitle}`,
+    metadata.category && `카테고리: ${metadata.category}`,
+    metadata.summary && `요약: ${metadata.summary}`,
+    metadata.hashtags.length > 0 && `태그: ${formatHashtags(metadata.hashtags)}`,
+].filter(Boolean).join('\n');
+
+export const hasPublishingMetadata = (metadata?: PublishingMetadata | null): metadata is PublishingMetadata =>
+    !!metadata && (metadata.hashtags.length > 0 || !!metadata.summary || !!metadata.altTitle || !!metadata.category);
+
+/**
+ * Produces the hashtags, search summary, alternate title and category for a finished post.
+ * @param title The post title.
+ * @param post The final post text.
+ * @param mainKeyword The primary keyword the post targets.
+ * @param analysis The keyword competition analysis, if one was run; its co-occurring terms make good tags.
+ * @param language The language of the post, which the tags, summary and title are written in.
+ * @param signal An optional AbortSignal to cancel the request.
+ * @returns A promise that resolves to the publishing metadata.
+ */
+export const generatePublishingMetadata = async (
+    title: string,
+    post: string,
+    mainKeyword: string,
+    analysis?: KeywordAnalysis | null,
+    language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE,
+    signal?: AbortSignal,
+): Promise<PublishingMetadata> => {
+    const languageName = LANGUAGE_PROMPT_NAMES[language];
+    try {
+        const findings = analysis ? `
+        A competition analysis of Naver blog posts for the keyword found:
+        ${formatAnalysisForPrompt(analysis)}
+        ` : '';
+        const prompt = `
+        You are preparing a ${languageName} Naver blog post titled "${title}" for publishing. The main keyword is "${mainKeyword}".
+        ${findings}
+        Based on the post below, produce:
+        - ${MIN_HASHTAGS} to ${MAX_HASHTAGS} Naver-style hashtags in ${languageName}, without '#' and without spaces inside a tag,
+          starting with the main keyword and its variants, then specific long-tail tags from the post${analysis ? ' and the co-occurring terms' : ''}.
+        - A summary in ${languageName} of at most ${SUMMARY_MAX_CHARS} characters for the search result snippet, containing the main keyword near the start.
+        - One alternate, catchier title in ${languageName} that still contains the main keyword and differs clearly from the current title.
+        - The best-fitting Naver blog topic from this list, exactly as written: ${NAVER_BLOG_CATEGORIES.join(', ')}.
+
+        POST:
+        ---
+        ${post}
+        ---
+        `;
+
+        const jsonResponse = await getAiProvider().generateJson<{ hashtags?: string[]; summary?: string; altTitle?: string; category?: string }>({
+            model: getModelFor('post'),
+            prompt,
+            signal,
+            schema: {
+                type: 'object',
+                properties: {
+                    hashtags: { type: 'array', items: { type: 'string' } },
+                    summary: { type: 'string', description: 'The search snippet summary.' },
+                    altTitle: { type: 'string', description: 'An alternate title.' },
+                    category: { type: 'string', enum: NAVER_BLOG_CATEGORIES },
+                },
+            },
+        });
+
+        const metadata: PublishingMetadata = {
+            hashtags: normalizeHashtags(jsonResponse.hashtags ?? []),
+            summary: jsonResponse.summary?.trim() ?? '',
+            altTitle: jsonResponse.altTitle?.trim() ?? '',
+            category: jsonResponse.category?.trim() ?? '',
+        };
+        if (!hasPublishingMetadata(metadata)) {
+            throw new Error("Empty response");
+        }
+        return metadata;
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error("Error in generatePublishingMetadata:", error);
+        throw new Error("AI 모델을 사용하여 발행 정보를 만드는 데 실패했습니다.");
+    }
+};
@@ -0,0 +1,213 @@
+import type { SeoLintConfig, SeoLintReport, SeoRuleId, SeoRuleResult, SeoRuleStatus } from "../types";
+
+const STORAGE_KEY = 'seoLintConfig';
+
+export const SEO_RULE_LABELS: Record<SeoRuleId, string> = {
+    'length': '글자 수',
+    'keyword-frequency': '키워드 반복 횟수',
+    'keyword-title': '제목의 키워드',
+    'keyword-intro': '첫 문단의 키워드',
+    'headings': '소제목 구성',
+    'paragraph-length': '문단 길이',
+    'image-ratio': '글 분량 대비 이미지 수',
+    'repeated-phrases': '반복되는 표현',
+};
+
+export const DEFAULT_SEO_LINT_CONFIG: SeoLintConfig = {
+    enabledRules: {
+        'length': true,
+        'keyword-frequency': true,
+        'keyword-title': true,
+        'keyword-intro': true,
+        'headings': true,
+        'paragraph-length': true,
+        'image-ratio': true,
+        'repeated-phrases': true,
+    },
+    minChars: 1500,
+    minKeywordCount: 3,
+    maxKeywordCount: 10,
+    minHeadings: 2,
+    maxParagraphChars: 500,
+    charsPerImage: 500,
+    maxPhraseRepeats: 3,
+};
+
+/**
+ * Reads the lint configuration from localStorage, filling in defaults for anything missing.
+ */
+export const loadSeoLintConfig = (): SeoLintConfig => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored) as Partial<SeoLintConfig>;
+            return {
+                ...DEFAULT_SEO_LINT_CONFIG,
+                ...parsed,
+                enabledRules: { ...DEFAULT_SEO_LINT_CONFIG.enabledRules, ...parsed.enabledRules },
+            };
+        }
+    } catch (error) {
+        console.warn("Failed to read SEO lint settings, using defaults:", error);
+    }
+    return DEFAULT_SEO_LINT_CONFIG;
+};
+
+export const saveSeoLintConfig = (config: SeoLintConfig) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+export interface SeoLintInput {
+    title: string;
+    text: string; // The post body; Markdown headings ('#') and bold-only lines count as headings
+    mainKeyword: string;
+    imageCount?: number; // Planned or actual images; the image rule is skipped when unknown
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+\S|^\*\*[^*]+\*\*:?$/;
+const STATUS_POINTS: Record<SeoRuleStatus, number> = { pass: 1, warn: 0.5, fail: 0 };
+
+/**
+ * Counts characters the way Naver's editor does "공백 제외": whitespace and Markdown markers are not counted.
+ */
+export const countCharacters = (text: string): number =>
+    text.replace(/^#{1,6}\s+/gm, '').replace(/[*_>`~-]/g, '').replace(/\s+/g, '').length;
+
+/**
+ * Builds a case-insensitive pattern for the keyword that tolerates missing or extra spaces ("제주도 맛집" / "제주도맛집").
+ */
+const keywordPattern = (keyword: string) => {
+    const words = keyword.trim().split(/\s+/).filter(Boolean).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return words.length ? new RegExp(words.join('\\s*'), 'gi') : null;
+};
+
+const countKeyword = (text: string, keyword: string) => {
+    const pattern = keywordPattern(keyword);
+    return pattern ? (text.match(pattern) ?? []).length : 0;
+};
+
+const isHeading = (line: string) => HEADING_PATTERN.test(line.trim());
+
+/**
+ * Splits the body into paragraphs at blank lines, leaving out heading lines.
+ */
+const splitParagraphs = (text: string) =>
+    text.split(/\n\s*\n/)
+        .map(block => block.split('\n').filter(line => !isHeading(line)).join('\n').trim())
+        .filter(Boolean);
+
+const splitWords = (text: string) => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+/**
+ * Finds three-word phrases used more often than allowed. Phrases that contain the main keyword are
+ * left to the keyword frequency rule.
+ */
+export const findRepeatedPhrases = (text: string, keyword: string, maxRepeats: number): { phrase: string; count: number }[] => {
+    const words = splitWords(text);
+    const keywordTokens = splitWords(keyword);
+    const counts = new Map<string, number>();
+    for (let i = 0; i + 3 <= words.length; i++) {
+        const gram = words.slice(i, i + 3);
+        if (keywordTokens.length > 0 && keywordTokens.every(token => gram.some(word => word.startsWith(token)))) continue;
+        const phrase = gram.join(' ');
+        counts.set(phrase, (counts.get(phrase) ?? 0) + 1);
+    }
+    return [...counts.entries()]
+        .filter(([, count]) => count > maxRepeats)
+        .sort((a, b) => b[1] - a[1])
+        .map(([phrase, count]) => ({ phrase, count }));
+};
+
+type RuleCheck = (input: SeoLintInput, config: SeoLintConfig) => { status: SeoRuleStatus; message: string } | null;
+
+const RULES: Record<SeoRuleId, RuleCheck> = {
+    'length': ({ text }, { minChars }) => {
+        const chars = countCharacters(text);
+        if (chars >= minChars) return { status: 'pass', message: `공백 제외 ${chars.toLocaleString('ko-KR')}자로 충분합니다.` };
+        return {
+            status: chars >= minChars * 0.7 ? 'warn' : 'fail',
+            message: `공백 제외 ${chars.toLocaleString('ko-KR')}자입니다. ${minChars.toLocaleString('ko-KR')}자 이상을 권장합니다.`,
+        };
+    },
+    'keyword-frequency': ({ text, mainKeyword }, { minKeywordCount, maxKeywordCount }) => {
+        if (!mainKeyword.trim()) return null;
+        const count = countKeyword(text, mainKeyword);
+        if (count === 0) return { status: 'fail', message: `본문에 '${mainKeyword}' 키워드가 한 번도 나오지 않습니다.` };
+        if (count < minKeywordCount) return { status: 'warn', message: `'${mainKeyword}' 키워드가 ${count}회 나옵니다. ${minKeywordCount}회 이상을 권장합니다.` };
+        if (count > maxKeywordCount) return { status: 'warn', message: `'${mainKeyword}' 키워드가 ${count}회 나옵니다. ${maxKeywordCount}회를 넘으면 과도한 반복으로 보일 수 있습니다.` };
+        return { status: 'pass', message: `'${mainKeyword}' 키워드가 ${count}회 나옵니다.` };
+    },
+    'keyword-title': ({ title, mainKeyword }) => {
+        if (!mainKeyword.trim() || !title.trim()) return null;
+        const pattern = keywordPattern(mainKeyword)!;
+        const match = pattern.exec(title);
+        if (!match) return { status: 'fail', message: `제목에 '${mainKeyword}' 키워드가 없습니다.` };
+        return match.index <= title.length / 2
+            ? { status: 'pass', message: '제목 앞부분에 키워드가 있습니다.' }
+            : { status: 'warn', message: '키워드가 제목 뒷부분에 있습니다. 앞쪽에 둘수록 유리합니다.' };
+    },
+    'keyword-intro': ({ text, mainKeyword }) => {
+        if (!mainKeyword.trim()) return null;
+        const paragraphs = splitParagraphs(text);
+        if (paragraphs.length === 0) return null;
+        if (countKeyword(paragraphs[0], mainKeyword) > 0) return { status: 'pass', message: '첫 문단에 키워드가 있습니다.' };
+        if (paragraphs[1] && countKeyword(paragraphs[1], mainKeyword) > 0) return { status: 'warn', message: '키워드가 두 번째 문단에서 처음 나옵니다. 첫 문단에 넣는 것이 좋습니다.' };
+        return { status: 'fail', message: `첫 문단에 '${mainKeyword}' 키워드가 없습니다.` };
+    },
+    'headings': ({ text }, { minHeadings }) => {
+        const headings = text.split('\n').filter(isHeading);
+        const levels = headings.map(line => line.match(/^#+/)?.[0].length).filter((level): level is number => level !== undefined);
+        const skipsLevel = levels.some((level, i) => i > 0 && level > levels[i - 1] + 1);
+        if (headings.length < minHeadings) {
+            return {
+                status: headings.length === 0 ? 'fail' : 'warn',
+                message: `소제목이 ${headings.length}개입니다. 글을 ${minHeadings}개 이상의 소제목으로 나누면 읽기 쉽습니다.`,
+            };
+        }
+        if (skipsLevel) return { status: 'warn', message: '소제목 단계가 건너뛰어집니다 (예: ## 다음에 ####).' };
+        return { status: 'pass', message: `소제목 ${headings.length}개로 구성되어 있습니다.` };
+    },
+    'paragraph-length': ({ text }, { maxParagraphChars }) => {
+        const paragraphs = splitParagraphs(text);
+        if (paragraphs.length === 0) return null;
+        const longOnes = paragraphs.filter(block => countCharacters(block) > maxParagraphChars).length;
+        if (longOnes === 0) return { status: 'pass', message: `모든 문단이 ${maxParagraphChars}자 이하입니다.` };
+        return {
+            status: longOnes / paragraphs.length > 0.3 ? 'fail' : 'warn',
+            message: `${maxParagraphChars}자를 넘는 긴 문단이 ${longOnes}개 있습니다. 모바일에서 읽기 어렵습니다.`,
+        };
+    },
+    'image-ratio': ({ text, imageCount }, { charsPerImage }) => {
+        if (imageCount === undefined) return null;
+        const expected = Math.max(1, Math.round(countCharacters(text) / charsPerImage));
+        if (imageCount >= expected) return { status: 'pass', message: `이미지 ${imageCount}개로 글 분량에 충분합니다.` };
+        return {
+            status: imageCount >= expected / 2 ? 'warn' : 'fail',
+            message: `이미지가 ${imageCount}개입니다. 이 분량이면 ${expected}개 정도를 권장합니다.`,
+        };
+    },
+    'repeated-phrases': ({ text, mainKeyword }, { maxPhraseRepeats }) => {
+        const repeated = findRepeatedPhrases(text, mainKeyword, maxPhraseRepeats);
+        if (repeated.length === 0) return { status: 'pass', message: '과하게 반복되는 표현이 없습니다.' };
+        const examples = repeated.slice(0, 3).map(({ phrase, count }) => `'${phrase}' ${count}회`).join(', ');
+        return { status: repeated.length > 3 ? 'fail' : 'warn', message: `반복되는 표현이 있습니다: ${examples}` };
+    },
+};
+
+/**
+ * Runs the enabled SEO rules against a post. Rules that do not apply (no keyword, unknown
+ * image count) are left out of the report and the score.
+ * @param input The title, body, main keyword and image count of the post.
+ * @param config Which rules run and their thresholds.
+ * @returns The per-rule results and an overall score from 0 to 100.
+ */
+export const lintPost = (input: SeoLintInput, config: SeoLintConfig = DEFAULT_SEO_LINT_CONFIG): SeoLintReport => {
+    const results: SeoRuleResult[] = [];
+    for (const id of Object.keys(RULES) as SeoRuleId[]) {
+        if (!config.enabledRules[id]) continue;
+        const outcome = RULES[id](input, config);
+        if (outcome) results.push({ id, label: SEO_RULE_LABELS[id], ...outcome });
+    }
+    const points = results.reduce((sum, result) => sum + STATUS_POINTS[result.status], 0);
+    return { score: results.length ? Math.round((points / results.length) * 100) : 0, results };
+};
@@ -0,0 +1,189 @@
+import type { NaverBlogItem } from "../types";
+import { stripNaverHtml } from "./keywordAnalysis";
+
+// Shingle length in characters after spaces and punctuation are removed. Five Korean syllables
+// are roughly two words: long enough to ignore common particles, short enough to catch paraphrases.
+const SHINGLE_SIZE = 5;
+// A sentence is flagged when at least this share of its shingles appears in one competitor text.
+export const SENTENCE_FLAG_THRESHOLD = 0.5;
+// Titles are flagged from this character-bigram similarity on.
+export const TITLE_FLAG_THRESHOLD = 0.6;
+// Sentences shorter than this (in compact characters) are too generic to judge.
+const MIN_SENTENCE_CHARS = 12;
+
+export interface SimilaritySource {
+    id: string;
+    title: string;
+    link?: string;
+    text: string;
+}
+
+export interface SentenceMatch {
+    sentence: string; // Exactly as it appears in the post, so it can be replaced
+    similarity: number; // 0-1, share of the sentence's shingles found in the source
+    sourceId: string;
+    overlaps: [number, number][]; // [start, end) character ranges of the sentence shared with the source
+}
+
+export interface SourceSimilarity {
+    sourceId: string;
+    title: string;
+    link?: string;
+    similarity: number; // 0-1, share of the competitor text that reappears in the post
+}
+
+export interface TitleMatch {
+    title: string;
+    similarity: number;
+    matchedTitle: string;
+}
+
+export interface SimilarityReport {
+    overall: number; // 0-1, share of the post's shingles found in any competitor text
+    sources: SourceSimilarity[];
+    sentences: SentenceMatch[]; // Flagged sentences, most similar first
+    titles: TitleMatch[];
+}
+
+/**
+ * Removes whitespace and punctuation, keeping a map from each remaining character to its index in the original text.
+ */
+const compact = (text: string): { chars: string; map: number[] } => {
+    let chars = '';
+    const map: number[] = [];
+    for (let i = 0; i < text.length; i++) {
+        if (/[\p{L}\p{N}]/u.test(text[i])) {
+            chars += text[i].toLowerCase();
+            map.push(i);
+        }
+    }
+    return { chars, map };
+};
+
+const shingles = (chars: string, size = SHINGLE_SIZE): string[] => {
+    const result: string[] = [];
+    for (let i = 0; i + size <= chars.length; i++) result.push(chars.slice(i, i + size));
+    return result;
+};
+
+const shingleSet = (text: string) => new Set(shingles(compact(text).chars));
+
+/**
+ * Splits a post into sentences at sentence-ending punctuation and line breaks.
+ */
+export const splitSentences = (text: string): string[] =>
+    text.split(/(?<=[.!?。])\s+|\n+/).map(sentence => sentence.trim()).filter(Boolean);
+
+/**
+ * Similarity of two short texts (titles) as the Dice coefficient of their character bigrams.
+ */
+export const titleSimilarity = (a: string, b: string): number => {
+    const bigramsA = shingles(compact(a).chars, 2);
+    const bigramsB = shingles(compact(b).chars, 2);
+    if (bigramsA.length === 0 || bigramsB.length === 0) return 0;
+    const counts = new Map<string, number>();
+    bigramsB.forEach(gram => counts.set(gram, (counts.get(gram) ?? 0) + 1));
+    let shared = 0;
+    for (const gram of bigramsA) {
+        const remaining = counts.get(gram) ?? 0;
+        if (remaining > 0) {
+            shared++;
+            counts.set(gram, remaining - 1);
+        }
+    }
+    return (2 * shared) / (bigramsA.length + bigramsB.length);
+};
+
+/**
+ * Finds the most similar competitor title for a title.
+ */
+export const findClosestTitle = (title: string, competitorTitles: string[]): TitleMatch => {
+    let best: TitleMatch = { title, similarity: 0, matchedTitle: '' };
+    for (const candidate of competitorTitles) {
+        const similarity = titleSimilarity(title, candidate);
+        if (similarity > best.similarity) best = { title, similarity, matchedTitle: candidate };
+    }
+    return best;
+};
+
+/**
+ * Turns Naver search results into comparison sources, using the title and description snippet.
+ */
+export const sourcesFromNaverItems = (items: NaverBlogItem[]): SimilaritySource[] =>
+    items.map((item, index) => ({
+        id: item.link || `naver-${index}`,
+        title: stripNaverHtml(item.title),
+        link: item.link,
+        text: `${stripNaverHtml(item.title)}\n${stripNaverHtml(item.description)}`,
+    }));
+
+/**
+ * Marks the parts of a sentence whose shingles appear in the source, as ranges of the original sentence.
+ */
+const findOverlaps = (sentence: string, source: Set<string>): [number, number][] => {
+    const { chars, map } = compact(sentence);
+    const covered = new Array<boolean>(chars.length).fill(false);
+    shingles(chars).forEach((gram, i) => {
+        if (source.has(gram)) covered.fill(true, i, i + SHINGLE_SIZE);
+    });
+
+    const ranges: [number, number][] = [];
+    for (let i = 0; i < chars.length; i++) {
+        if (!covered[i]) continue;
+        let j = i;
+        while (j + 1 < chars.length && covered[j + 1]) j++;
+        const start = map[i];
+        const end = map[j] + 1;
+        const last = ranges[ranges.length - 1];
+        // Joining ranges that are separated only by the spaces and punctuation compact() removed.
+        if (last && last[1] >= start - 2) last[1] = end;
+        else ranges.push([start, end]);
+        i = j;
+    }
+    return ranges;
+};
+
+/**
+ * Compares a post and its titles against competitor texts using character shingle overlap.
+ * @param post The post body.
+ * @param titles The post title and any candidate titles to check.
+ * @param sources Competitor texts: Naver snippets and, optionally, full posts pasted by the user.
+ * @returns The overall and per-source similarity, the flagged sentences and the title matches.
+ */
+export const checkSimilarity = (post: string, titles: string[], sources: SimilaritySource[]): SimilarityReport => {
+    const sourceSets = sources.map(source => ({ source, set: shingleSet(source.text) }));
+    const postShingles = shingles(compact(post).chars);
+    const postSet = new Set(postShingles);
+
+    const overall = postShingles.length
+        ? postShingles.filter(gram => sourceSets.some(({ set }) => set.has(gram))).length / postShingles.length
+        : 0;
+
+    const sourceResults: SourceSimilarity[] = sourceSets
+        .map(({ source, set }) => {
+            const shared = [...set].filter(gram => postSet.has(gram)).length;
+            return { sourceId: source.id, title: source.title, link: source.link, similarity: set.size ? shared / set.size : 0 };
+        })
+        .sort((a, b) => b.similarity - a.similarity);
+
+    const sentences: SentenceMatch[] = [];
+    for (const sentence of splitSentences(post)) {
+        const { chars } = compact(sentence);
+        if (chars.length < MIN_SENTENCE_CHARS) continue;
+        const sentenceShingles = shingles(chars);
+        let best: { similarity: number; source: SimilaritySource; set: Set<string> } | null = null;
+        for (const { source, set } of sourceSets) {
+            const similarity = sentenceShingles.filter(gram => set.has(gram)).length / sentenceShingles.length;
+            if (!best || similarity > best.similarity) best = { similarity, source, set };
+        }
+        if (best && best.similarity >= SENTENCE_FLAG_THRESHOLD) {
+            sentences.push({ sentence, similarity: best.similarity, sourceId: best.source.id, overlaps: findOverlaps(sentence, best.set) });
+        }
+    }
+    sentences.sort((a, b) => b.similarity - a.similarity);
+
+    const competitorTitles = sources.map(source => source.title).filter(Boolean);
+    const titleMatches = titles.filter(Boolean).map(title => findClosestTitle(title, competitorTitles));
+
+    return { overall, sources: sourceResults, sentences, titles: titleMatches };
+};
@@ -0,0 +1,92 @@
+export type DiffSegment = { type: 'equal' | 'added' | 'removed'; text: string };
+
+/**
+ * Splits text into words and the whitespace between them, so joining the tokens restores the text exactly.
+ */
+const tokenizeForDiff = (text: string): string[] => text.split(/(\s+)/).filter(token => token !== '');
+
+/**
+ * Appends a token to the segment list, merging it into the previous segment of the same type.
+ */
+const pushSegment = (segments: DiffSegment[], type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+        last.text += text;
+    } else {
+        segments.push({ type, text });
+    }
+};
+
+// The most LCS table cells one diff may use (4 bytes each). Two unrelated drafts of a long post go far past it.
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Splits text into lines, keeping each line break with the line before it.
+ */
+const tokenizeLines = (text: string): string[] => text.split(/(?<=\n)/).filter(token => token !== '');
+
+/**
+ * Diffs two token lists using a longest-common-subsequence table.
+ * The common prefix and suffix are trimmed first, so small edits to long posts stay cheap.
+ * @returns The segments, or null when the table for the part that differs would exceed MAX_DIFF_CELLS.
+ */
+const diffTokens = (a: string[], b: string[]): DiffSegment[] | null => {
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+    const cols = midB.length + 1;
+    if ((midA.length + 1) * cols > MAX_DIFF_CELLS) return null;
+    // lcs[i * cols + j] is the LCS length of midA[i..] and midB[j..].
+    const lcs = new Uint32Array((midA.length + 1) * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+        for (let j = midB.length - 1; j >= 0; j--) {
+            lcs[i * cols + j] = midA[i] === midB[j]
+                ? lcs[(i + 1) * cols + j + 1] + 1
+                : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    if (prefix > 0) pushSegment(segments, 'equal', a.slice(0, prefix).join(''));
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+        if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+            pushSegment(segments, 'equal', midA[i++]);
+            j++;
+        } else if (i < midA.length && (j === midB.length || lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1])) {
+            // Removals come before additions so a replaced word reads as "old → new".
+            pushSegment(segments, 'removed', midA[i++]);
+        } else {
+            pushSegment(segments, 'added', midB[j++]);
+        }
+    }
+    if (suffix > 0) pushSegment(segments, 'equal', a.slice(a.length - suffix).join(''));
+    return segments;
+};
+
+/**
+ * Computes a word-level diff between two texts. When the texts differ too much for that, whole lines are
+ * compared instead, and past that the text is shown as replaced outright.
+ * @param before The original text.
+ * @param after The changed text.
+ * @returns The segments that, read in order, describe how `before` became `after`.
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+    const segments = diffTokens(tokenizeForDiff(before), tokenizeForDiff(after)) ?? diffTokens(tokenizeLines(before), tokenizeLines(after));
+    if (segments) return segments;
+    const replaced: DiffSegment[] = [];
+    if (before) replaced.push({ type: 'removed', text: before });
+    if (after) replaced.push({ type: 'added', text: after });
+    return replaced;
+};
+
+/**
+ * Counts the changed (added or removed) segments that contain more than whitespace.
+ */
+export const countChanges = (segments: DiffSegment[]): number =>
+    segments.filter(segment => segment.type !== 'equal' && segment.text.trim() !== '').length;
@@ -0,0 +1,106 @@
+import type { BlogProject, OutputLanguage } from "../types";
+import { translate } from "./geminiService";
+import { runJobs } from "./jobRunner";
+import { createProject } from "./projectService";
+import { DEFAULT_OUTPUT_LANGUAGE, OUTPUT_LANGUAGE_LABELS } from "./languages";
+
+// Texts translated at the same time, and automatic retries per text.
+const TRANSLATION_CONCURRENCY = 2;
+const TRANSLATION_RETRIES = 1;
+const TRANSLATION_RETRY_DELAY_MS = 2000;
+
+/**
+ * Copies a project into another language as a new project. The post, keywords, paragraphs,
+ * alt texts, captions and publishing metadata are translated; the images and their prompts are kept.
+ * Version histories, topic ideas and the outline belong to the original and are not carried over.
+ * @param project The project to translate.
+ * @param to The language of the edition.
+ * @param onProgress Called with the number of texts translated so far and the total.
+ * @param signal An optional AbortSignal to cancel the translation.
+ * @returns The edition, not yet saved.
+ */
+export const createTranslatedEdition = async (
+    project: BlogProject,
+    to: OutputLanguage,
+    onProgress?: (done: number, total: number) => void,
+    signal?: AbortSignal,
+): Promise<BlogProject> => {
+    const from = project.language ?? DEFAULT_OUTPUT_LANGUAGE;
+    if (from === to) {
+        throw new Error(`이미 ${OUTPUT_LANGUAGE_LABELS[to]}로 작성된 프로젝트입니다.`);
+    }
+
+    // Every text is collected first, so a text that appears twice is translated once.
+    const metadata = project.publishingMetadata;
+    const texts = [...new Set([
+        project.mainKeyword,
+        project.additionalKeywords,
+        project.selectedTopic,
+        project.generatedPost,
+        ...project.results.flatMap(r => [r.paragraph, r.altText, r.caption]),
+        metadata?.altTitle,
+        metadata?.summary,
+        metadata?.category,
+        // One tag per line, so the tags are translated together and come back in order.
+        metadata?.hashtags.join('\n'),
+    ].filter((text): text is string => !!text?.trim()))];
+
+    let done = 0;
+    onProgress?.(done, texts.length);
+    const outcomes = await runJobs(texts.map((_, i) => i), (i, jobSignal) => translate(texts[i], from, to, jobSignal), {
+        concurrency: TRANSLATION_CONCURRENCY,
+        retries: TRANSLATION_RETRIES,
+        baseDelayMs: TRANSLATION_RETRY_DELAY_MS,
+        signal,
+        onStatus: (_, status) => {
+            if (status === 'done') onProgress?.(++done, texts.length);
+        },
+    });
+
+    const translations = new Map<string, string>();
+    const errors: string[] = [];
+    texts.forEach((text, i) => {
+        const outcome = outcomes.get(i);
+        if (outcome?.status === 'done') translations.set(text, outcome.value);
+        else if (outcome) errors.push(outcome.error);
+    });
+    if (errors.length > 0) {
+        throw new Error(`${errors.length}개 항목을 번역하지 못해 번역본을 만들지 않았습니다. ${errors[0]}`);
+    }
+    const tr = <T extends string | undefined>(text: T): T => ((text && translations.get(text)) || text) as T;
+
+    const selectedTopic = tr(project.selectedTopic);
+    const { id, name, createdAt, updatedAt } = createProject(`${selectedTopic || project.name} (${OUTPUT_LANGUAGE_LABELS[to]})`);
+    return {
+        ...project,
+        id,
+        name,
+        createdAt,
+        updatedAt,
+        language: to,
+        mainKeyword: tr(project.mainKeyword),
+        additionalKeywords: tr(project.additionalKeywords),
+        topicIdeas: [],
+        selectedTopic,
+        outline: [],
+        generatedPost: tr(project.generatedPost),
+        postHistory: undefined,
+        results: project.results.map(r => ({
+            ...r,
+            paragraph: tr(r.paragraph),
+            altText: tr(r.altText),
+            caption: tr(r.caption),
+            history: undefined,
+            undone: undefined,
+        })),
+        publishingMetadata: metadata && {
+            altTitle: tr(metadata.altTitle),
+            summary: tr(metadata.summary),
+            category: tr(metadata.category),
+            hashtags: tr(metadata.hashtags.join('\n'))
+                .split('\n')
+                .map(tag => tag.replace(/^#/, '').replace(/\s+/g, '').trim())
+                .filter(Boolean),
+        },
+    };
+};
@@ -0,0 +1,118 @@
+import type {
+    DataLabKeywordGroup,
+    DataLabTrendPoint,
+    DataLabTrendRequest,
+    DataLabTrendSeries,
+    KeywordTrendSummary,
+    SearchTrendOptions,
+    TrendDirection,
+} from "../types";
+
+// DataLab accepts at most 5 keyword groups per request and has no data before 2016.
+export const MAX_TREND_KEYWORDS = 5;
+const DATALAB_MIN_DATE = '2016-01-01';
+// A change of more than this (recent vs. previous average) counts as rising or falling.
+const DIRECTION_THRESHOLD = 0.15;
+
+export const TREND_DIRECTION_LABELS: Record<TrendDirection, string> = {
+    rising: '상승',
+    falling: '하락',
+    stable: '보합',
+};
+
+const toDateString = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const average = (points: DataLabTrendPoint[]) =>
+    points.length ? points.reduce((sum, point) => sum + point.ratio, 0) / points.length : 0;
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Builds a DataLab request comparing the main keyword with the additional keywords, one group each.
+ * @param keywords The keywords to compare, main keyword first; only the first MAX_TREND_KEYWORDS are used.
+ * @param options The period and audience filters.
+ * @param now The reference date for the end of the period, defaults to today.
+ */
+export const buildTrendRequest = (keywords: string[], options: SearchTrendOptions, now: Date = new Date()): DataLabTrendRequest => {
+    const start = new Date(now);
+    start.setMonth(start.getMonth() - options.months);
+    const startDate = toDateString(start) < DATALAB_MIN_DATE ? DATALAB_MIN_DATE : toDateString(start);
+
+    const keywordGroups: DataLabKeywordGroup[] = [...new Set(keywords.map(k => k.trim()).filter(Boolean))]
+        .slice(0, MAX_TREND_KEYWORDS)
+        .map(keyword => ({ groupName: keyword, keywords: [keyword] }));
+
+    return {
+        startDate,
+        endDate: toDateString(now),
+        timeUnit: options.timeUnit,
+        keywordGroups,
+        ...(options.device && { device: options.device }),
+        ...(options.gender && { gender: options.gender }),
+        ...(options.ages && options.ages.length > 0 && { ages: options.ages }),
+    };
+};
+
+/**
+ * Splits a comma-separated keyword list as entered in the topic form.
+ */
+export const parseKeywordList = (text: string): string[] => text.split(',').map(k => k.trim()).filter(Boolean);
+
+/**
+ * Summarizes one keyword's series: direction of the recent change, peak period and, given at
+ * least a year of data, the calendar month in which the keyword is searched the most.
+ * The last quarter of the series is compared with the quarter before it.
+ */
+export const summarizeTrend = (series: DataLabTrendSeries): KeywordTrendSummary => {
+    const { data } = series;
+    const windowSize = Math.max(1, Math.floor(data.length / 4));
+    const recent = average(data.slice(-windowSize));
+    const previous = average(data.slice(-2 * windowSize, -windowSize));
+    const changeRate = previous > 0 ? (recent - previous) / previous : recent > 0 ? 1 : 0;
+    const direction: TrendDirection = changeRate > DIRECTION_THRESHOLD ? 'rising' : changeRate < -DIRECTION_THRESHOLD ? 'falling' : 'stable';
+
+    const peak = data.reduce<DataLabTrendPoint | undefined>((best, point) => (!best || point.ratio > best.ratio ? point : best), undefined);
+
+    let peakMonth: number | undefined;
+    const first = data[0]?.period;
+    const last = data[data.length - 1]?.period;
+    if (first && last && new Date(last).getTime() - new Date(first).getTime() >= 330 * 24 * 60 * 60 * 1000) {
+        const byMonth = new Map<number, DataLabTrendPoint[]>();
+        for (const point of data) {
+            const month = Number(point.period.slice(5, 7));
+            byMonth.set(month, [...(byMonth.get(month) ?? []), point]);
+        }
+        let best = -1;
+        for (const [month, points] of byMonth) {
+            const value = average(points);
+            if (value > best) {
+                best = value;
+                peakMonth = month;
+            }
+        }
+    }
+
+    return {
+        title: series.title,
+        direction,
+        changeRate: round(changeRate),
+        averageRatio: round(average(data), 1),
+        peakPeriod: peak?.period,
+        peakMonth,
+    };
+};
+
+/**
+ * Summarizes the trend report as plain text for an LLM prompt.
+ * @param summaries The per-keyword summaries.
+ * @param now The current date, so the model can relate peaks to the posting date.
+ */
+export const formatTrendForPrompt = (summaries: KeywordTrendSummary[], now: Date = new Date()): string => [
+    `- Today is ${toDateString(now)}.`,
+    ...summaries.map(summary => {
+        const change = `${summary.changeRate >= 0 ? '+' : ''}${Math.round(summary.changeRate * 100)}%`;
+        const season = summary.peakMonth ? `, searched most in month ${summary.peakMonth}` : '';
+        return `- "${summary.title}": ${summary.direction} (${change} recently), relative volume ${summary.averageRatio}${season}`;
+    }),
+].join('\n');
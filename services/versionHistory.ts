@@ -0,0 +1,194 @@
+import type { Result, ResultImageState, ResultVersion, VersionHistory, VersionSnapshot } from "../types";
+
+// Versions kept per history. Result versions hold whole images, so the oldest ones are dropped.
+export const MAX_VERSIONS = 30;
+
+export const MANUAL_EDIT_LABEL = '직접 수정';
+
+// Manual edits this close together are kept as one version, so typing does not record every keystroke.
+export const MANUAL_EDIT_MERGE_MS = 2000;
+
+export const EMPTY_VERSION_HISTORY: VersionHistory<never> = { past: [], future: [] };
+
+/**
+ * Records a change. The replaced version goes to the end of the past and the undone versions are dropped.
+ * @param history The history before the change.
+ * @param previous The version being replaced, labelled with the change that replaces it.
+ * @param mergeWithinMs Merges into the last version instead when it has the same label and was recorded
+ *   this recently, so a burst of edits becomes a single version.
+ * @returns The history after the change.
+ */
+export const recordVersion = <V extends VersionSnapshot>(history: VersionHistory<V>, previous: V, mergeWithinMs = 0): VersionHistory<V> => {
+    const last = history.past[history.past.length - 1];
+    if (last && history.future.length === 0 && last.label === previous.label && previous.createdAt - last.createdAt < mergeWithinMs) {
+        // The last version still holds the text from before the burst; only its time moves on.
+        return { past: [...history.past.slice(0, -1), { ...last, createdAt: previous.createdAt }], future: [] };
+    }
+    return { past: [...history.past, previous].slice(-MAX_VERSIONS), future: [] };
+};
+
+/**
+ * Moves through the history: a negative offset undoes that many changes, a positive one redoes them.
+ * Nothing is dropped, so any version can be restored and the move itself can be undone.
+ * @param history The history around the current value.
+ * @param current The current value as a version.
+ * @param offset How many versions to move.
+ * @returns The new history and the version to show, or null when the history does not reach that far.
+ */
+export const moveVersion = <V extends VersionSnapshot>(history: VersionHistory<V>, current: V, offset: number): { history: VersionHistory<V>; value: V } | null => {
+    if (offset === 0 || (offset < 0 ? history.past.length < -offset : history.future.length < offset)) return null;
+    const past = [...history.past];
+    const future = [...history.future];
+    let value = current;
+    for (let step = 0; step < Math.abs(offset); step++) {
+        if (offset < 0) {
+            const previous = past.pop()!;
+            // The change that replaced `previous` is the one that produced `value`.
+            future.push({ ...value, label: previous.label });
+            value = previous;
+        } else {
+            const next = future.pop()!;
+            past.push({ ...value, label: next.label });
+            value = next;
+        }
+    }
+    return { history: { past, future }, value };
+};
+
+export interface VersionListEntry<V> {
+    version: V;
+    label: string; // The change that produced this version; empty for the first one
+    offset: number; // Where it is relative to the current version, as passed to moveVersion
+}
+
+/**
+ * Lays the history out oldest first, with the current version between the past and the undone ones.
+ */
+export const listVersions = <V extends VersionSnapshot>(history: VersionHistory<V>, current: V): VersionListEntry<V>[] => {
+    const ordered = [...history.past, current, ...[...history.future].reverse()];
+    return ordered.map((version, i) => ({
+        version,
+        label: i === 0 ? '' : i <= history.past.length ? history.past[i - 1].label : version.label,
+        offset: i - history.past.length,
+    }));
+};
+
+/**
+ * Picks the image fields of a result or version. Every field is set, so spreading the state over
+ * a result also clears the fields the state does not have.
+ */
+const pickImageState = (source: ResultImageState): ResultImageState => ({
+    imageUrl: source.imageUrl,
+    prompt: source.prompt,
+    imageSource: source.imageSource,
+    originalImageUrl: source.originalImageUrl,
+    editPrompt: source.editPrompt,
+    candidates: source.candidates,
+});
+
+const isSameImageState = (a: ResultImageState, b: ResultImageState): boolean =>
+    a.imageUrl === b.imageUrl
+    && a.prompt === b.prompt
+    && a.imageSource === b.imageSource
+    && a.originalImageUrl === b.originalImageUrl
+    && a.editPrompt === b.editPrompt
+    && (a.candidates ?? []).length === (b.candidates ?? []).length
+    && (a.candidates ?? []).every((candidate, i) => candidate === b.candidates![i]);
+
+/**
+ * Captures the parts of a result that its versions keep.
+ */
+export const snapshotResult = (result: Result, label: string, createdAt: number = Date.now()): ResultVersion => ({
+    ...pickImageState(result),
+    paragraph: result.paragraph,
+    altText: result.altText,
+    caption: result.caption,
+    createdAt,
+    label,
+});
+
+export const getResultHistory = (result: Result): VersionHistory<ResultVersion> =>
+    ({ past: result.history ?? [], future: result.undone ?? [] });
+
+/**
+ * Records a change to a result: the current state goes into its history and the patch is applied.
+ */
+export const reviseResultVersion = (result: Result, patch: Partial<Result>, label: string, mergeWithinMs = 0): Result => {
+    const { past, future } = recordVersion(getResultHistory(result), snapshotResult(result, label), mergeWithinMs);
+    return { ...result, ...patch, history: past, undone: future };
+};
+
+/**
+ * Moves a result through its history, as moveVersion does.
+ * @returns The result showing the version at `offset`, or the result unchanged when there is none.
+ */
+export const moveResultVersion = (result: Result, offset: number): Result => {
+    const moved = moveVersion(getResultHistory(result), snapshotResult(result, ''), offset);
+    if (!moved) return result;
+    const { paragraph, altText, caption } = moved.value;
+    return { ...result, ...pickImageState(moved.value), paragraph, altText, caption, history: moved.history.past, undone: moved.history.future };
+};
+
+// A version as it is stored. Without `imageUrl` it shows the same image as its neighbour toward the current version.
+export type StoredResultVersion = Omit<ResultVersion, keyof ResultImageState> & Partial<ResultImageState>;
+export type StoredResult = Omit<Result, 'history' | 'undone'> & { history?: StoredResultVersion[]; undone?: StoredResultVersion[] };
+
+/**
+ * Drops the image fields of every version that shows the same image as its neighbour toward the
+ * current version. Text edits do not change the image, so most versions store no image at all.
+ * Both lists end next to the current version, so each is walked from its end.
+ */
+const compactVersions = (versions: ResultVersion[], current: ResultImageState): StoredResultVersion[] => {
+    let neighbour = current;
+    return [...versions].reverse().map(version => {
+        const stored = isSameImageState(version, neighbour)
+            ? { paragraph: version.paragraph, altText: version.altText, caption: version.caption, createdAt: version.createdAt, label: version.label }
+            : version;
+        neighbour = version;
+        return stored;
+    }).reverse();
+};
+
+/**
+ * Restores the image fields dropped by compactVersions.
+ */
+const expandVersions = (versions: StoredResultVersion[], current: ResultImageState): ResultVersion[] => {
+    let neighbour = current;
+    return [...versions].reverse().map(stored => {
+        // Versions saved before the source fields were kept keep the result's image source.
+        const version: ResultVersion = stored.imageUrl === undefined
+            ? { ...stored, ...pickImageState(neighbour) }
+            : { ...stored, imageUrl: stored.imageUrl, prompt: stored.prompt ?? '', imageSource: stored.imageSource ?? current.imageSource };
+        neighbour = version;
+        return version;
+    }).reverse();
+};
+
+/**
+ * Compacts a result's histories for storage; see compactVersions.
+ */
+export const compactResultHistory = (result: Result): StoredResult => ({
+    ...result,
+    history: result.history && compactVersions(result.history, result),
+    undone: result.undone && compactVersions(result.undone, result),
+});
+
+/**
+ * Reverses compactResultHistory on a stored result.
+ */
+export const expandResultHistory = (result: StoredResult): Result => ({
+    ...result,
+    history: result.history && expandVersions(result.history, result),
+    undone: result.undone && expandVersions(result.undone, result),
+});
+
+/**
+ * Reads the undo and redo shortcuts: Ctrl+Z, and Ctrl+Y or Ctrl+Shift+Z (⌘ on a Mac).
+ * The physical key is checked, so the shortcuts also work while a Korean keyboard layout is active.
+ */
+export const getHistoryShortcut = (event: { code: string; ctrlKey: boolean; metaKey: boolean; shiftKey: boolean; altKey: boolean }): 'undo' | 'redo' | null => {
+    if (!(event.ctrlKey || event.metaKey) || event.altKey) return null;
+    if (event.code === 'KeyZ') return event.shiftKey ? 'redo' : 'undo';
+    if (event.code === 'KeyY' && !event.shiftKey) return 'redo';
+    return null;
+};
@@ -1,24 +1,118 @@
 
-export type ImageSource = 'generate' | 'upload';
+// The steps of the application flow
+export type AppStep = 'GENERATE_TOPIC' | 'EDIT_OUTLINE' | 'VISUALIZE_POST' | 'CUSTOMIZE_IMAGES' | 'VIEW_RESULTS';
+
+export type ImageAspectRatio = '1:1' | '4:3' | '3:4' | '16:9' | '9:16';
+export type ImageStylePreset = 'none' | 'photo' | 'flat' | 'watercolor' | '3d' | 'anime' | 'line-art';
+
+// How images are generated. Set per post; each paragraph can override any field.
+export interface ImageGenerationOptions {
+    aspectRatio: ImageAspectRatio;
+    style: ImageStylePreset;
+    negativePrompt: string; // What the image should not contain, in English
+    candidates: number; // 1-4 images to choose from per paragraph
+}
+
+export type ImageOutputFormat = 'image/jpeg' | 'image/webp' | 'image/png';
+export type WatermarkMode = 'none' | 'text' | 'logo';
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
+// Client-side processing applied to the images before they are exported (and resized before AI edits).
+export interface ImageProcessingOptions {
+    enabled: boolean;
+    maxWidth: number; // Pixels; 0 keeps the original width
+    format: ImageOutputFormat;
+    quality: number; // 0.1-1, for JPEG and WebP
+    targetSizeKb: number; // Upper bound per image; 0 for none. Quality, then size, is lowered to fit
+    watermark: WatermarkMode;
+    watermarkText: string; // Empty uses the blog name
+    watermarkLogo?: string; // Data URL of the logo image
+    watermarkPosition: WatermarkPosition;
+    watermarkOpacity: number; // 0-1
+}
+
+// Where a paragraph's image comes from:
+// 'generate' AI generates it, 'upload' uses an uploaded file as-is,
+// 'upload-edit' AI edits an uploaded file, 'generate-edit' AI generates it and then edits it.
+export type ImageSource = 'generate' | 'upload' | 'upload-edit' | 'generate-edit';
+// 'asis' and 'editing' are only found in projects saved before images had a per-paragraph source.
 export type ImageEditStatus = 'pending' | 'uploaded' | 'asis' | 'editing' | 'translating' | 'done' | 'error';
+// Progress of an item in the image generation pipeline.
+export type ImageJobStatus = 'queued' | 'running' | 'failed' | 'done';
 
 export interface FormState {
   blogText: string;
   numParagraphs: number;
   blogName: string;
-  imageSource: ImageSource;
+  imageSource: ImageSource; // Default source for every paragraph; each can be changed afterwards
+}
+
+// A saved version in an undo history. `label` names the change that links it to its neighbour:
+// for a past version the change that replaced it, for an undone version the change that produced it.
+export interface VersionSnapshot {
+  createdAt: number;
+  label: string;
+}
+
+// Undo/redo history around a current value that is kept elsewhere.
+export interface VersionHistory<V extends VersionSnapshot> {
+  past: V[]; // Oldest first; the last one is restored by undo
+  future: V[]; // Undone versions; the last one is restored by redo
+}
+
+// A previous text of the post.
+export interface PostVersion extends VersionSnapshot {
+  text: string;
+}
+
+// The image of a result and what it was made from. Restored as a whole, so the source fields match the image shown.
+export type ResultImageState = Pick<Result, 'imageUrl' | 'prompt' | 'imageSource' | 'originalImageUrl' | 'editPrompt' | 'candidates'>;
+
+// A previous state of a Result, kept when its paragraph or image is revised.
+export interface ResultVersion extends ResultImageState {
+  paragraph: string;
+  createdAt: number;
+  label: string; // The change that replaced this version, or produced it once undone (e.g. '이미지 재생성')
+  altText?: string;
+  caption?: string;
+}
+
+// Korean accessibility text for a finished image.
+export interface ImageDescription {
+  altText: string; // Read by screen readers and image search; describes what is visible
+  caption: string; // Shown under the image
 }
 
 export interface Result {
   paragraph: string;
   prompt: string; // The prompt used for generation, or a description for uploaded/edited images
   imageUrl: string; // Final image URL (generated, uploaded, or edited)
+  imageSource: ImageSource;
   
   // For uploaded images
   uploadedImageFile?: File;
   originalImageUrl?: string; // base64 URL of the uploaded image
-  editPrompt?: string; // User-provided prompt for editing
+  editPrompt?: string; // User-provided prompt for editing ('upload-edit' and 'generate-edit')
   editStatus: ImageEditStatus;
+
+  // Image generation settings that differ from the post's
+  imageOptions?: Partial<ImageGenerationOptions>;
+  // Every generated candidate when more than one was requested; imageUrl is the one kept
+  candidates?: string[];
+
+  // Describe the final image; cleared whenever the image is replaced
+  altText?: string;
+  caption?: string;
+
+  // Image pipeline progress, set while finalizing images
+  jobStatus?: ImageJobStatus;
+  jobError?: string; // Last error message, kept while retrying and after a final failure
+  jobAttempts?: number;
+
+  // Earlier versions, oldest first, kept for comparison and restore
+  history?: ResultVersion[];
+  // Undone versions, the next redo last. Cleared by any new change.
+  undone?: ResultVersion[];
 }
 
 // Represents a single blog item from the Naver Search API response.
@@ -26,4 +120,312 @@ export interface NaverBlogItem {
     title: string;
     description: string;
     link: string;
+    bloggername?: string;
+    bloggerlink?: string;
+    postdate?: string; // yyyymmdd
+}
+
+export interface TermCount {
+    term: string;
+    count: number;
+}
+
+export type SaturationLevel = 'low' | 'medium' | 'high' | 'very-high';
+
+// Competition findings for a keyword, computed from up to 100 Naver blog results per sort order.
+export interface KeywordAnalysis {
+    keyword: string;
+    analyzedAt: number;
+    totalResults: number; // Total number of blog posts Naver reports for the keyword
+    sampleSize: number; // Unique posts analyzed (relevance + recent results)
+    titleLength: { min: number; max: number; average: number; median: number }; // Over the top-ranking titles
+    keywordInTitleRate: number; // Share of top relevance titles containing the keyword (0-1)
+    keywordAtStartRate: number; // Share of those titles where the keyword is in the first third
+    averageKeywordPosition: number; // Average relative position of the keyword in titles (0 = start, 1 = end)
+    keywordDensity: number; // Keyword occurrences per 100 words of title + description
+    coOccurringTerms: TermCount[];
+    recency: {
+        within7Days: number;
+        within30Days: number;
+        within90Days: number;
+        older: number;
+        postsPerDay: number; // Posting rate estimated from the most recent results
+        newestPostDate?: string;
+    };
+    saturation: {
+        score: number; // 0-100, higher means harder to rank
+        level: SaturationLevel;
+        reasons: string[];
+    };
+}
+
+export type KeywordSuggestionKind = 'related' | 'long-tail';
+
+// A keyword proposed by the keyword research panel, with its competition on Naver blogs.
+export interface KeywordSuggestion {
+    keyword: string;
+    kind: KeywordSuggestionKind;
+    sources: ('naver' | 'ai')[]; // Where the candidate came from: co-occurring terms in Naver results, the LLM, or both
+    totalResults?: number; // Naver blog result count; missing when the Naver API was not reachable
+    competition?: SaturationLevel;
+}
+
+// The languages posts can be written in, as BCP-47 tags. Naver research stays Korean whatever the output language.
+export type OutputLanguage = 'ko' | 'en' | 'ja' | 'zh-CN' | 'zh-TW';
+
+// Controls for how generateBlogPost writes a post.
+export type PostTone = 'formal' | 'friendly' | 'haeyo' | 'hamnida'; // 'haeyo' = 해요체, 'hamnida' = 합니다체
+export type PostSection = 'intro' | 'faq' | 'summary' | 'cta';
+
+export interface PostGenerationOptions {
+    tone: PostTone;
+    audience: string; // Free text, e.g. "30대 직장인"; empty means general readers
+    minLength: number; // Characters excluding whitespace
+    maxLength: number;
+    sections: PostSection[]; // Sections the post must contain
+    useLists: boolean;
+    useTables: boolean;
+    bannedPhrases: string[];
+    language: OutputLanguage; // Language of the topics, the post and the image descriptions
+}
+
+export interface PostOptionsPreset {
+    id: string;
+    name: string;
+    options: PostGenerationOptions;
+}
+
+export interface PostOptionIssue {
+    kind: 'too-short' | 'too-long' | 'missing-section' | 'banned-phrase';
+    message: string;
+}
+
+// SEO lint rules applied to a post before and after visualization.
+export type SeoRuleId =
+    | 'length'
+    | 'keyword-frequency'
+    | 'keyword-title'
+    | 'keyword-intro'
+    | 'headings'
+    | 'paragraph-length'
+    | 'image-ratio'
+    | 'repeated-phrases';
+
+export type SeoRuleStatus = 'pass' | 'warn' | 'fail';
+
+export interface SeoRuleResult {
+    id: SeoRuleId;
+    label: string;
+    status: SeoRuleStatus;
+    message: string;
+}
+
+export interface SeoLintReport {
+    score: number; // 0-100 over the enabled rules
+    results: SeoRuleResult[];
+}
+
+// User-adjustable thresholds, persisted in localStorage.
+export interface SeoLintConfig {
+    enabledRules: Record<SeoRuleId, boolean>;
+    minChars: number; // Minimum length in characters, excluding whitespace and Markdown symbols
+    minKeywordCount: number;
+    maxKeywordCount: number; // More than this reads as keyword stuffing
+    minHeadings: number;
+    maxParagraphChars: number;
+    charsPerImage: number; // One image is expected per this many characters
+    maxPhraseRepeats: number; // A three-word phrase may appear at most this many times
+}
+
+// Naver DataLab Search Trend API (https://developers.naver.com/docs/serviceapi/datalab/search/search.md).
+export type DataLabTimeUnit = 'date' | 'week' | 'month';
+export type DataLabDevice = 'pc' | 'mo';
+export type DataLabGender = 'm' | 'f';
+// Age bands as DataLab numbers them: '1' = 0-12, '2' = 13-18, '3' = 19-24, ... '11' = 60+.
+export type DataLabAgeGroup = '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | '11';
+
+export interface DataLabKeywordGroup {
+    groupName: string;
+    keywords: string[];
+}
+
+export interface DataLabTrendRequest {
+    startDate: string; // yyyy-mm-dd
+    endDate: string; // yyyy-mm-dd
+    timeUnit: DataLabTimeUnit;
+    keywordGroups: DataLabKeywordGroup[]; // At most 5 groups
+    device?: DataLabDevice; // Omitted means all devices
+    gender?: DataLabGender; // Omitted means all genders
+    ages?: DataLabAgeGroup[]; // Omitted means all ages
+}
+
+export interface DataLabTrendPoint {
+    period: string; // yyyy-mm-dd, the start of the period
+    ratio: number; // Relative search volume; the highest point across all groups is 100
+}
+
+export interface DataLabTrendSeries {
+    title: string;
+    keywords: string[];
+    data: DataLabTrendPoint[];
+}
+
+// The filters the user picks in the topic step; turned into a DataLabTrendRequest for the keywords.
+export interface SearchTrendOptions {
+    months: number; // How far back from today
+    timeUnit: DataLabTimeUnit;
+    device?: DataLabDevice;
+    gender?: DataLabGender;
+    ages?: DataLabAgeGroup[];
+}
+
+export type TrendDirection = 'rising' | 'falling' | 'stable';
+
+export interface KeywordTrendSummary {
+    title: string;
+    direction: TrendDirection;
+    changeRate: number; // Recent average vs. the period before it, e.g. 0.25 = +25%
+    averageRatio: number; // Mean relative volume, comparable across the groups of one request
+    peakPeriod?: string; // Period with the highest volume
+    peakMonth?: number; // 1-12, the calendar month with the highest average volume (needs a year of data)
+}
+
+export interface SearchTrendReport {
+    request: DataLabTrendRequest;
+    series: DataLabTrendSeries[];
+    summaries: KeywordTrendSummary[];
+    fetchedAt: number;
+}
+
+// How the browser reaches the Naver Open API.
+// 'server': the bundled proxy (server/naverProxy.ts) holds the credentials.
+// 'public': the browser sends the user's own keys through a public CORS proxy.
+export type NaverProxyMode = 'server' | 'public';
+
+export interface NaverApiConfig {
+    proxyMode: NaverProxyMode;
+    clientId: string;
+    clientSecret: string;
+}
+
+// Naver search endpoints forwarded by the proxy.
+export type NaverSearchType = 'blog' | 'news' | 'cafearticle';
+
+// Error codes returned by the bundled Naver proxy.
+export type NaverProxyErrorCode =
+    | 'MISSING_CREDENTIALS'
+    | 'INVALID_REQUEST'
+    | 'NOT_FOUND'
+    | 'UPSTREAM_ERROR'
+    | 'UPSTREAM_UNAVAILABLE';
+
+// The JSON body the proxy responds with when a request fails.
+export interface NaverProxyErrorBody {
+    error: {
+        code: NaverProxyErrorCode;
+        message: string;
+        status: number;
+    };
+}
+
+// Which LLM/image backend the services talk to.
+export type AiProviderId = 'gemini' | 'openai-compatible';
+
+// Each kind of AI call the app makes; a model name is configured per task.
+export type AiTask = 'topics' | 'post' | 'split' | 'imagePrompt' | 'translate' | 'vision' | 'image' | 'imageEdit';
+
+export interface AiProviderSettings {
+    provider: AiProviderId;
+    apiKey: string; // Empty means "use the key from the build environment" for Gemini
+    baseUrl: string; // Only used by the OpenAI-compatible provider (e.g. http://localhost:11434/v1)
+    models: Record<AiTask, string>;
+}
+
+// A section of the post outline. The outline is edited and each section written on its own
+// before the full draft exists; the section boundaries then decide the paragraph and image split.
+export interface OutlineSection {
+    id: string;
+    heading: string;
+    level: 2 | 3; // Markdown heading level (## or ###)
+    keyPoints: string[];
+    hasImage: boolean; // The section starts a new paragraph with its own image
+    imageHint?: string; // What the image could show
+    content?: string; // The written section body, without its heading
+    jobStatus?: ImageJobStatus; // Progress while the section is being written
+    jobError?: string;
+}
+
+// What goes alongside the post when it is published on Naver: tags, the search snippet
+// summary, a second title to choose from and the blog topic (주제) to file it under.
+export interface PublishingMetadata {
+    hashtags: string[]; // Without the leading '#'
+    summary: string;
+    altTitle: string;
+    category: string;
+}
+
+// A saved blog post draft. Everything needed to reopen the pipeline at the step it reached.
+export interface BlogProject {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    step: AppStep;
+    mainKeyword: string;
+    additionalKeywords: string;
+    topicIdeas: string[];
+    naverSearchResults: NaverBlogItem[];
+    keywordAnalysis?: KeywordAnalysis;
+    searchTrend?: SearchTrendReport;
+    keywordSuggestions?: KeywordSuggestion[];
+    selectedTopic?: string; // The chosen topic, used as the post title
+    outline?: OutlineSection[];
+    imageOptions?: ImageGenerationOptions;
+    publishingMetadata?: PublishingMetadata;
+    generatedPost: string;
+    postHistory?: VersionHistory<PostVersion>;
+    language?: OutputLanguage; // The language the post is written in; missing for Korean posts saved before this existed
+    blogName: string;
+    results: Result[];
+}
+
+// The steps a batch row goes through, in order.
+export type BatchStage = 'analysis' | 'topic' | 'post' | 'split' | 'images';
+
+// How the batch picks a title among the suggested topics.
+export type BatchTopicPick = 'best' | 'first';
+
+// One keyword of a batch: the CSV columns plus its progress.
+export interface BatchRow {
+    id: string;
+    mainKeyword: string;
+    additionalKeywords: string;
+    blogName: string;
+    numParagraphs: number;
+    status: ImageJobStatus;
+    stage?: BatchStage; // The step running now, or the step that failed
+    progress?: string; // Extra detail for the current step (e.g. '이미지 2/5')
+    error?: string;
+    warning?: string; // A problem the row continued past, such as a skipped Naver analysis
+    projectId?: string; // The saved project the post is built in; kept so a resumed row continues where it stopped
+    topic?: string;
+}
+
+export interface BatchQueue {
+    rows: BatchRow[];
+    topicPick: BatchTopicPick;
+}
+
+export type CalendarEntryStatus = 'idea' | 'drafted' | 'images-ready' | 'published';
+
+// A planned post on the content calendar.
+export interface CalendarEntry {
+    id: string;
+    date: string; // Planned publishing day, 'YYYY-MM-DD' in local time
+    keyword: string;
+    topic?: string;
+    status: CalendarEntryStatus;
+    projectId?: string; // The saved project the post is written in
+    publishedUrl?: string;
+    note?: string;
 }
@@ -1,12 +1,22 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import { naverProxyPlugin } from './server/naverProxy';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const naverProxyPath = env.NAVER_PROXY_PATH || '/api/naver';
     return {
+      plugins: [
+        naverProxyPlugin(naverProxyPath, {
+          clientId: env.NAVER_CLIENT_ID,
+          clientSecret: env.NAVER_CLIENT_SECRET,
+          apiBaseUrl: env.NAVER_API_BASE_URL,
+        }),
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.NAVER_PROXY_URL': JSON.stringify(env.NAVER_PROXY_URL || naverProxyPath)
       },
       resolve: {
         alias: {